@@ -0,0 +1,55 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { FilmstripComponent } from './filmstrip.component';
+import { FilmstripService } from '../../services/filmstrip.service';
+
+describe('FilmstripComponent', () => {
+  let component: FilmstripComponent;
+  let fixture: ComponentFixture<FilmstripComponent>;
+  let requests: number[][];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FilmstripComponent],
+      providers: [provideZonelessChangeDetection()]
+    }).compileComponents();
+
+    requests = [];
+    TestBed.inject(FilmstripService).request = (_requester: object, _sourceId: string, times: number[]) => {
+      requests.push(times);
+    };
+
+    // A 20 second item at 5 seconds into its source, placed at 10 seconds on the timeline
+    fixture = TestBed.createComponent(FilmstripComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('sourceId', 'asset-1');
+    fixture.componentRef.setInput('startTime', 10000);
+    fixture.componentRef.setInput('mediaStartTime', 5000);
+    fixture.componentRef.setInput('duration', 20000);
+    fixture.componentRef.setInput('pixelsPerMillisecond', 0.05);
+    fixture.componentRef.setInput('visibleRange', { start: 0, end: 16000 });
+    fixture.detectChanges();
+  });
+
+  it('should lay out frames offset by the media start time', () => {
+    const tiles = component.tiles();
+
+    expect(component.interval()).toBe(2000);
+    expect(tiles[0].time).toBe(4000);
+    expect(tiles[0].left).toBe(-50);
+    expect(tiles.length).toBe(11);
+  });
+
+  it('should only request frames near the visible part of the timeline', () => {
+    // Source times up to 11000 are visible, the margin adds frames up to 13000
+    expect(requests).toEqual([[4000, 6000, 8000, 10000, 12000]]);
+  });
+
+  it('should replace the requested frames when the visible part changes', () => {
+    fixture.componentRef.setInput('visibleRange', { start: 24000, end: 40000 });
+    fixture.detectChanges();
+
+    // Source times from 17000 are visible, the margin adds the frame from 16000
+    expect(requests.at(-1)).toEqual([16000, 18000, 20000, 22000, 24000]);
+  });
+});
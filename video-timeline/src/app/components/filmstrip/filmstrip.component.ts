@@ -0,0 +1,57 @@
+import { Component, OnDestroy, computed, effect, input } from '@angular/core';
+import { FilmstripService } from '../../services/filmstrip.service';
+
+/**
+ * Frames of the part of a source shown by a video item, spaced for the current zoom
+ * Only frames inside the visible part of the timeline are fetched,
+ * frames scrolled out of view before they were fetched are dropped from the queue
+ */
+@Component({
+  selector: 'app-filmstrip',
+  standalone: true,
+  templateUrl: './filmstrip.component.html',
+  styleUrl: './filmstrip.component.css'
+})
+export class FilmstripComponent implements OnDestroy {
+  private readonly VISIBLE_MARGIN_MS = 2000; // Fetch a little beyond the edges so scrolling shows frames sooner
+
+  readonly sourceId = input.required<string>();
+  readonly startTime = input.required<number>(); // milliseconds - position of the item on the timeline
+  readonly mediaStartTime = input<number>(0); // milliseconds
+  readonly duration = input.required<number>(); // milliseconds
+  readonly pixelsPerMillisecond = input.required<number>();
+  readonly visibleRange = input.required<{ start: number; end: number }>(); // timeline milliseconds
+
+  readonly frameWidth = computed(() => this.filmstripService.getFrameWidth(this.sourceId()));
+  readonly interval = computed(() => this.filmstripService.getFrameInterval(this.pixelsPerMillisecond(), this.frameWidth()));
+
+  // Frame slots in pixels from the left edge of the item, the first one may start before it.
+  // Each frame fills its whole slot, cropped to the middle
+  readonly tiles = computed(() => {
+    const mediaStartTime = this.mediaStartTime();
+    return this.filmstripService.getFrameTimes(mediaStartTime, this.duration(), this.interval()).map(time => ({
+      time,
+      left: (time - mediaStartTime) * this.pixelsPerMillisecond(),
+      url: this.filmstripService.getFrame(this.sourceId(), time)
+    }));
+  });
+
+  constructor(private filmstripService: FilmstripService) {
+    effect(() => {
+      const range = this.visibleRange();
+      const offset = this.startTime() - this.mediaStartTime(); // source time -> timeline time
+      const interval = this.interval();
+      const missing = this.tiles()
+        .filter(tile => !tile.url)
+        .filter(tile => tile.time + offset + interval > range.start - this.VISIBLE_MARGIN_MS &&
+          tile.time + offset < range.end + this.VISIBLE_MARGIN_MS)
+        .map(tile => tile.time);
+
+      this.filmstripService.request(this, this.sourceId(), missing);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.filmstripService.cancel(this);
+  }
+}
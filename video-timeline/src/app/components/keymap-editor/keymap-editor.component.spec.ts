@@ -0,0 +1,66 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { KeymapEditorComponent } from './keymap-editor.component';
+
+describe('KeymapEditorComponent', () => {
+  let component: KeymapEditorComponent;
+  let fixture: ComponentFixture<KeymapEditorComponent>;
+
+  const keydown = (key: string, init: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { key, cancelable: true, ...init });
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [KeymapEditorComponent],
+      providers: [provideZonelessChangeDetection()]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(KeymapEditorComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    component.shortcuts.resetToDefaults();
+  });
+
+  it('should list every shortcut action', () => {
+    const rows = fixture.nativeElement.querySelectorAll('.border-b');
+    expect(rows.length).toBe(component.shortcuts.actions.length);
+  });
+
+  it('should bind the next key press while recording a shortcut', () => {
+    component.startRecordingShortcut('markIn', 0);
+    component.onDocumentKeyDown(keydown('q'));
+
+    expect(component.shortcuts.bindings().markIn).toEqual(['Q']);
+    expect(component.recordingShortcut()).toBeNull();
+  });
+
+  it('should cancel recording with Escape', () => {
+    component.startRecordingShortcut('markIn', null);
+    component.onDocumentKeyDown(keydown('Escape'));
+
+    expect(component.shortcuts.bindings().markIn).toEqual(['I']);
+    expect(component.recordingShortcut()).toBeNull();
+  });
+
+  it('should ask before taking a shortcut from another action', () => {
+    component.startRecordingShortcut('markIn', 0);
+    component.onDocumentKeyDown(keydown('s'));
+
+    expect(component.shortcutConflict()?.conflictingActionId).toBe('split');
+    expect(component.shortcuts.bindings().markIn).toEqual(['I']);
+
+    component.confirmShortcutConflict();
+    expect(component.shortcuts.bindings().markIn).toEqual(['S']);
+  });
+
+  it('should emit closeModal when closed', () => {
+    let closed = false;
+    component.closeModal.subscribe(() => closed = true);
+
+    component.onClose();
+
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { Component, signal, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { KeyboardShortcutService } from '../../services/keyboard-shortcut.service';
+import { ShortcutActionId } from '../../models/keyboard-shortcut.models';
+
+/**
+ * Lists the bindings of every shortcut action and records new ones from the next key press
+ */
+@Component({
+  selector: 'app-keymap-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './keymap-editor.component.html',
+  styleUrl: './keymap-editor.component.css',
+  host: {
+    '(document:keydown)': 'onDocumentKeyDown($event)'
+  }
+})
+export class KeymapEditorComponent {
+  // Events
+  readonly closeModal = output<void>();
+
+  // State
+  readonly recordingShortcut = signal<{ actionId: ShortcutActionId; index: number | null } | null>(null);
+  readonly shortcutConflict = signal<{
+    actionId: ShortcutActionId;
+    index: number | null;
+    combo: string;
+    conflictingActionId: ShortcutActionId;
+  } | null>(null);
+
+  constructor(readonly shortcuts: KeyboardShortcutService) {
+  }
+
+  onDocumentKeyDown(event: KeyboardEvent): void {
+    if (this.recordingShortcut()) {
+      this.recordShortcut(event);
+    }
+  }
+
+  onClose(): void {
+    this.closeModal.emit();
+  }
+
+  /**
+   * Wait for the next key press and bind it to the action (index null adds a binding)
+   */
+  startRecordingShortcut(actionId: ShortcutActionId, index: number | null): void {
+    this.shortcutConflict.set(null);
+    this.recordingShortcut.set({ actionId, index });
+  }
+
+  cancelRecordingShortcut(): void {
+    this.recordingShortcut.set(null);
+  }
+
+  private recordShortcut(event: KeyboardEvent): void {
+    const recording = this.recordingShortcut();
+    if (!recording) return;
+
+    // Escape cancels instead of being recorded
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.recordingShortcut.set(null);
+      return;
+    }
+
+    const combo = this.shortcuts.comboFromEvent(event);
+    if (!combo) return; // Wait for a key to go with the modifiers
+
+    event.preventDefault();
+    this.recordingShortcut.set(null);
+
+    const conflictingActionId = this.shortcuts.findConflict(combo, recording.actionId);
+    if (conflictingActionId) {
+      this.shortcutConflict.set({ ...recording, combo, conflictingActionId });
+    } else {
+      this.shortcuts.setBinding(recording.actionId, combo, recording.index);
+    }
+  }
+
+  /**
+   * Move the combination from the conflicting action to the one being edited
+   */
+  confirmShortcutConflict(): void {
+    const conflict = this.shortcutConflict();
+    if (!conflict) return;
+
+    this.shortcuts.setBinding(conflict.actionId, conflict.combo, conflict.index);
+    this.shortcutConflict.set(null);
+  }
+
+  cancelShortcutConflict(): void {
+    this.shortcutConflict.set(null);
+  }
+
+  getShortcutLabel(actionId: ShortcutActionId): string {
+    return this.shortcuts.getAction(actionId).label;
+  }
+}
@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
 import { MediaLibraryComponent } from './media-library.component';
 import { MediaType } from '../../models/timeline.models';
+import { MediaAssetService } from '../../services/media-asset.service';
 
 describe('MediaLibraryComponent', () => {
   let component: MediaLibraryComponent;
@@ -8,7 +10,8 @@ describe('MediaLibraryComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [MediaLibraryComponent]
+      imports: [MediaLibraryComponent],
+      providers: [provideZonelessChangeDetection()]
     }).compileComponents();
 
     fixture = TestBed.createComponent(MediaLibraryComponent);
@@ -80,4 +83,36 @@ describe('MediaLibraryComponent', () => {
     expect(component.getMediaIcon(MediaType.AUDIO)).toBe('bi-volume-up-fill');
     expect(component.getMediaIcon(MediaType.IMAGE)).toBe('bi-image-fill');
   });
+
+  it('should list imported assets before the samples', () => {
+    const assetService = TestBed.inject(MediaAssetService);
+    assetService.assets.set([{
+      id: 'asset-1',
+      name: 'Holiday',
+      type: MediaType.VIDEO,
+      mimeType: 'video/mp4',
+      size: 1024,
+      duration: 42000,
+      width: 1920,
+      height: 1080,
+      url: 'blob:holiday'
+    }]);
+
+    const firstItem = component.filteredMediaItems()[0];
+    expect(firstItem.name).toBe('Holiday');
+    expect(firstItem.duration).toBe(42000);
+    expect(firstItem.sourceId).toBe('asset-1');
+  });
+
+  it('should report files that are not media', async () => {
+    const file = new File(['text'], 'notes.txt', { type: 'text/plain' });
+    await component.onDrop({
+      preventDefault: () => {},
+      dataTransfer: { files: [file] }
+    } as unknown as DragEvent);
+
+    expect(component.importErrors().length).toBe(1);
+    expect(component.importErrors()[0].name).toBe('notes.txt');
+    expect(component.isImporting()).toBe(false);
+  });
 });
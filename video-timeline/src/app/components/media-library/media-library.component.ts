@@ -1,6 +1,7 @@
-import { Component, signal, computed, output } from '@angular/core';
+import { Component, signal, computed, input, output } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MediaType } from '../../models/timeline.models';
+import { MediaAssetService } from '../../services/media-asset.service';
 
 export interface MediaLibraryItem {
   id: string;
@@ -8,6 +9,8 @@ export interface MediaLibraryItem {
   type: MediaType;
   duration: number; // milliseconds
   thumbnail?: string;
+  sourceId?: string; // ID of the imported media asset, samples have none
+  hasAudio?: boolean; // Videos only, missing when unknown
 }
 
 @Component({
@@ -18,12 +21,21 @@ export interface MediaLibraryItem {
   styleUrl: './media-library.component.css'
 })
 export class MediaLibraryComponent {
+  // Inputs
+  readonly acceptedTypes = input<MediaType[]>([MediaType.VIDEO, MediaType.AUDIO, MediaType.IMAGE]); // What the target track takes
+
   // Events
   readonly closeModal = output<void>();
   readonly selectMedia = output<MediaLibraryItem>();
 
   // State
   readonly selectedFilter = signal<MediaType | 'all'>('all');
+  readonly isImporting = signal<boolean>(false);
+  readonly isDragOver = signal<boolean>(false);
+  readonly importErrors = signal<{ name: string; reason: string }[]>([]);
+
+  constructor(private mediaAssetService: MediaAssetService) {
+  }
 
   // Static media library data
   private readonly allMediaItems: MediaLibraryItem[] = [
@@ -86,19 +98,38 @@ export class MediaLibraryComponent {
     }
   ];
 
+  // Imported files, listed before the samples
+  readonly importedMediaItems = computed<MediaLibraryItem[]>(() =>
+    this.mediaAssetService.assets().map(asset => ({
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      duration: asset.duration,
+      thumbnail: asset.thumbnail,
+      sourceId: asset.id,
+      ...(asset.hasAudio !== undefined ? { hasAudio: asset.hasAudio } : {})
+    }))
+  );
+
   // Computed filtered media items
   readonly filteredMediaItems = computed(() => {
     const filter = this.selectedFilter();
+    const items = [...this.importedMediaItems(), ...this.allMediaItems]
+      .filter(item => this.isTypeAccepted(item.type));
     if (filter === 'all') {
-      return this.allMediaItems;
+      return items;
     }
-    return this.allMediaItems.filter(item => item.type === filter);
+    return items.filter(item => item.type === filter);
   });
 
   // Expose MediaType enum to template
   readonly MediaType = MediaType;
 
   // Filter methods
+  isTypeAccepted(type: MediaType): boolean {
+    return this.acceptedTypes().includes(type);
+  }
+
   setFilter(filter: MediaType | 'all'): void {
     this.selectedFilter.set(filter);
   }
@@ -112,6 +143,43 @@ export class MediaLibraryComponent {
     this.closeModal.emit();
   }
 
+  // Import methods
+  async onFilesSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = input.files ? Array.from(input.files) : [];
+    // Reset the input so selecting the same files again triggers another change event
+    input.value = '';
+    await this.importFiles(files);
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver.set(true);
+  }
+
+  onDragLeave(): void {
+    this.isDragOver.set(false);
+  }
+
+  async onDrop(event: DragEvent): Promise<void> {
+    event.preventDefault();
+    this.isDragOver.set(false);
+    const files = event.dataTransfer?.files ? Array.from(event.dataTransfer.files) : [];
+    await this.importFiles(files);
+  }
+
+  private async importFiles(files: File[]): Promise<void> {
+    if (files.length === 0) return;
+
+    this.isImporting.set(true);
+    try {
+      const result = await this.mediaAssetService.importFiles(files);
+      this.importErrors.set(result.failed);
+    } finally {
+      this.isImporting.set(false);
+    }
+  }
+
   // Helper method to format duration
   formatTime(milliseconds: number): string {
     const seconds = Math.floor(milliseconds / 1000);
@@ -1,7 +1,9 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
-import { provideZonelessChangeDetection } from '@angular/core';
+import { ElementRef, provideZonelessChangeDetection } from '@angular/core';
 import { TimelineComponent } from './timeline.component';
-import { MediaType } from '../../models/timeline.models';
+import { MediaItem, MediaType } from '../../models/timeline.models';
+import { ProjectSerializerService } from '../../services/project-serializer.service';
+import { OtioService } from '../../services/otio.service';
 
 describe('TimelineComponent', () => {
   let component: TimelineComponent;
@@ -18,6 +20,22 @@ describe('TimelineComponent', () => {
     fixture.detectChanges();
   });
 
+  // Mouse event as a handler receives it, with the element the handler is bound to and the element under the pointer
+  const createPointerEvent = (
+    type: string,
+    clientX: number,
+    { currentTarget, target = currentTarget, ...init }: MouseEventInit & { currentTarget?: HTMLElement; target?: HTMLElement } = {}
+  ): MouseEvent => {
+    const event = new MouseEvent(type, { clientX, clientY: 0, ...init });
+    if (currentTarget) {
+      Object.defineProperty(event, 'currentTarget', { value: currentTarget });
+    }
+    if (target) {
+      Object.defineProperty(event, 'target', { value: target });
+    }
+    return event;
+  };
+
   it('should create', () => {
     expect(component).toBeTruthy();
   });
@@ -30,6 +48,11 @@ describe('TimelineComponent', () => {
     expect(state.totalDuration).toBe(60000);
   });
 
+  it('should start with a video track above an audio track', () => {
+    const tracks = component.state().tracks;
+    expect(tracks.map(t => [t.name, t.kind])).toEqual([['Video 1', 'video'], ['Audio 1', 'audio']]);
+  });
+
   it('should add a new track', () => {
     const initialTrackCount = component.state().tracks.length;
     component.addTrack();
@@ -99,6 +122,7 @@ describe('TimelineComponent', () => {
   });
 
   it('should format time correctly', () => {
+    component.timeDisplayMode.set('seconds');
     expect(component.formatTime(0)).toBe('0:00.00');
     expect(component.formatTime(1000)).toBe('0:01.00');
     expect(component.formatTime(60000)).toBe('1:00.00');
@@ -136,7 +160,7 @@ describe('TimelineComponent', () => {
       const firstItem = component.state().tracks.find(t => t.id === track.id)?.items[0];
 
       // Add second item - should be placed after first item
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
 
       expect(items.length).toBe(2);
@@ -157,7 +181,7 @@ describe('TimelineComponent', () => {
 
       // Add three items
       component.addMediaItem(MediaType.VIDEO, track.id);
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
       component.addMediaItem(MediaType.IMAGE, track.id);
 
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
@@ -203,11 +227,7 @@ describe('TimelineComponent', () => {
       }));
 
       // Simulate dragging item2 into the space of item1
-      const mockEvent = {
-        currentTarget: document.createElement('div'),
-        clientX: 250, // This would be around 5000ms at default zoom
-        target: document.createElement('div')
-      } as unknown as MouseEvent;
+      const mockEvent = createPointerEvent('mousemove', 250, { currentTarget: document.createElement('div') }); // This would be around 5000ms at default zoom
 
       Object.defineProperty(mockEvent.currentTarget, 'getBoundingClientRect', {
         value: () => ({ left: 0, top: 0, right: 1000, bottom: 100 })
@@ -220,7 +240,7 @@ describe('TimelineComponent', () => {
         component['draggedItemOriginalTrackId'] = track.id;
 
         // Move to a position that would overlap with item1
-        component.onTrackMouseMove(mockEvent, track);
+        component.onTrackPointerMove(mockEvent, track);
 
         const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
         const draggedItem = items.find(i => i.id === 'item2');
@@ -261,11 +281,7 @@ describe('TimelineComponent', () => {
       expect(item).toBeDefined();
 
       // Simulate drag
-      const mockEvent = {
-        currentTarget: document.createElement('div'),
-        clientX: 300,
-        target: document.createElement('div')
-      } as unknown as MouseEvent;
+      const mockEvent = createPointerEvent('mousemove', 300, { currentTarget: document.createElement('div') });
 
       Object.defineProperty(mockEvent.currentTarget, 'getBoundingClientRect', {
         value: () => ({ left: 0, top: 0, right: 1000, bottom: 100 })
@@ -276,7 +292,7 @@ describe('TimelineComponent', () => {
         component['draggedItemOriginalTrackId'] = track.id;
 
         // Move within same track
-        component.onTrackMouseMove(mockEvent, track);
+        component.onTrackPointerMove(mockEvent, track);
 
         // Item should still exist
         const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
@@ -337,7 +353,7 @@ describe('TimelineComponent', () => {
       component.state.update(s => ({ ...s, playheadPosition }));
 
       // Add new item
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
 
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
       expect(items.length).toBe(2);
@@ -369,7 +385,7 @@ describe('TimelineComponent', () => {
       component.state.update(s => ({ ...s, playheadPosition }));
 
       // Add new item
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
 
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
       expect(items.length).toBe(2);
@@ -402,7 +418,7 @@ describe('TimelineComponent', () => {
       component.state.update(s => ({ ...s, playheadPosition }));
 
       // Add new item
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
 
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
       expect(items.length).toBe(2);
@@ -435,7 +451,7 @@ describe('TimelineComponent', () => {
       component.state.update(s => ({ ...s, playheadPosition }));
 
       // Add new item
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
 
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
       expect(items.length).toBe(2);
@@ -468,7 +484,7 @@ describe('TimelineComponent', () => {
       component.state.update(s => ({ ...s, playheadPosition }));
 
       // Add new item
-      component.addMediaItem(MediaType.AUDIO, track.id);
+      component.addMediaItem(MediaType.VIDEO, track.id);
 
       const items = component.state().tracks.find(t => t.id === track.id)?.items || [];
       expect(items.length).toBe(2);
@@ -564,10 +580,11 @@ describe('TimelineComponent', () => {
       };
 
       // Access the private method using bracket notation for testing
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         5500, // Drop in the middle of the gap (5000-6000)
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should fit in the gap with adjusted duration
@@ -615,10 +632,11 @@ describe('TimelineComponent', () => {
       };
 
       // Gap is 5000ms (3000-8000), item is 3000ms - should fit
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         4500,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       expect(result.duration).toBe(3000); // Original duration preserved
@@ -665,10 +683,11 @@ describe('TimelineComponent', () => {
       };
 
       // Gap is only 50ms, but minimum duration is 100ms
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         5025,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       expect(result.startTime).toBe(5000);
@@ -694,10 +713,11 @@ describe('TimelineComponent', () => {
         isPlaceholder: true
       };
 
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         5000,
-        []
+        [],
+        component.state().totalDuration
       );
 
       expect(result.startTime).toBe(5000);
@@ -732,10 +752,11 @@ describe('TimelineComponent', () => {
         isPlaceholder: true
       };
 
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         8000,
-        track.items
+        track.items,
+        component.state().totalDuration
       );
 
       expect(result.startTime).toBe(8000);
@@ -788,10 +809,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Drag Item B left to 900ms (overlaps Item A)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         900,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should stay in closest gap (between A and B), not jump to end
@@ -839,10 +861,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Drag Item B right to 4500ms (overlaps Item C)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         4500,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should stay in closest gap (between B and C)
@@ -882,10 +905,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Drag Item B far left to negative position
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         -100,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should place in gap before Item A (closest gap)
@@ -932,10 +956,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Drag Item B into gap between A and B (valid position)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         1500,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should stay at requested position
@@ -975,10 +1000,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Drag Item B far right (after all items)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         6000,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should allow placement after last item
@@ -1035,10 +1061,11 @@ describe('TimelineComponent', () => {
       // The closest gap will be the infinite gap after item C (starts at 8000ms)
       // Bug was: Math.max(0, 4500) = 4500, which overlaps with B (3000-5000)
       // Fix: Math.max(gap.gapStart, 4500) = Math.max(8000, 4500) = 8000
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         4500,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should place at gap start (8000ms) to avoid overlap
@@ -1093,10 +1120,11 @@ describe('TimelineComponent', () => {
       const testPositions = [5500, 5000, 4500, 4000, 3500];
 
       for (const pos of testPositions) {
-        const result = (component as any).getValidDragPosition(
+        const result = component['dragDropService'].getValidDragPosition(
           draggedItem,
           pos,
-          updatedTrack.items
+          updatedTrack.items,
+          component.state().totalDuration
         );
 
         // Check no overlap with A (0-2000)
@@ -1155,10 +1183,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Try to drag B to position 500 (overlaps A at 0-1000)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         500,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should be placed in valid gap (between A and C)
@@ -1198,10 +1227,11 @@ describe('TimelineComponent', () => {
       const draggedItem = updatedTrack.items.find(i => i.id === 'item-b')!;
 
       // Drag B to position far to the right (in infinite gap)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         5000,
-        updatedTrack.items
+        updatedTrack.items,
+        component.state().totalDuration
       );
 
       // Should place at requested position in infinite gap
@@ -1263,10 +1293,11 @@ describe('TimelineComponent', () => {
       ];
 
       for (const testCase of testCases) {
-        const result = (component as any).getValidDragPosition(
+        const result = component['dragDropService'].getValidDragPosition(
           draggedItem,
           testCase.pos,
-          updatedTrack.items
+          updatedTrack.items,
+          component.state().totalDuration
         );
 
         // Verify no overlap with A (0-1000) or B (3000-5000)
@@ -1286,7 +1317,7 @@ describe('TimelineComponent', () => {
       component.state.update(s => ({ ...s, playheadPosition: 10000, totalDuration: 60000 }));
       fixture.detectChanges();
 
-      const timeDisplay = fixture.nativeElement.querySelector('[title*="изменить общую продолжительность"]');
+      const timeDisplay = fixture.nativeElement.querySelector('[title*="change total duration"]');
       expect(timeDisplay).toBeTruthy();
       // Should show something like "0:10.00 / 1:00.00"
       expect(timeDisplay.textContent).toContain('/');
@@ -1364,13 +1395,14 @@ describe('TimelineComponent', () => {
         } : t)
       }));
 
-      const draggedItem = track.items[0];
+      const draggedItem = component.state().tracks[0].items[0];
 
       // Try to drag to position that would exceed totalDuration
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         8000, // Start at 8000ms with 3000ms duration would exceed 10000ms
-        []
+        [],
+        component.state().totalDuration
       );
 
       // Duration should be adjusted to fit within totalDuration
@@ -1395,10 +1427,11 @@ describe('TimelineComponent', () => {
         } : t)
       }));
 
-      const item = track.items[0];
+      const trackItems = component.state().tracks[0].items;
+      const item = trackItems[0];
 
       // Get resize bounds for right edge
-      const bounds = (component as any).getResizeBounds(item, track.items, 'right');
+      const bounds = component['dragDropService'].getResizeBounds(item, trackItems, 'right', component.state().totalDuration);
 
       // Max time should not exceed totalDuration
       expect(bounds.maxTime).toBeLessThanOrEqual(10000);
@@ -1455,10 +1488,11 @@ describe('TimelineComponent', () => {
       };
 
       // Drag to position 10000ms with 8000ms duration (would be 18000ms total)
-      const result = (component as any).getValidDragPosition(
+      const result = component['dragDropService'].getValidDragPosition(
         draggedItem,
         10000,
-        track.items
+        track.items,
+        component.state().totalDuration
       );
 
       // Should be constrained to totalDuration
@@ -1487,4 +1521,1406 @@ describe('TimelineComponent', () => {
       expect(newItem.maxDuration).toBeLessThanOrEqual(5000);
     });
   });
+
+  describe('Project Files', () => {
+    it('should replace the timeline state when loading a project', async () => {
+      component.addMediaItem(MediaType.VIDEO, component.state().tracks[0].id);
+      const json = TestBed.inject(ProjectSerializerService).toJson(component.state());
+
+      component.state.update(s => ({ ...s, tracks: [{ id: 'x', name: 'X', order: 0, items: [] }] }));
+      await component.loadProjectJson(json);
+
+      expect(component.state().tracks.length).toBe(2);
+      expect(component.state().tracks[0].items.length).toBe(1);
+      expect(component.projectNotice()).toBeNull();
+    });
+
+    it('should keep the current state and show an error for an invalid project', async () => {
+      const before = component.state();
+
+      await component.loadProjectJson('not a project');
+
+      expect(component.state()).toBe(before);
+      expect(component.projectNotice()?.title).toBe('Could not open project');
+    });
+
+    it('should add the tracks of an imported EDL as one undoable step', async () => {
+      const trackCount = component.state().tracks.length;
+      component.edlFrameRate.set(25);
+
+      await component.importEdlText('001  TAPE1    V     C        00:00:00:00 00:00:02:00 00:00:01:00 00:00:03:00');
+
+      // The video track goes below the other video tracks and above the audio tracks
+      expect(component.state().tracks.length).toBe(trackCount + 1);
+      expect(component.state().tracks.map(t => t.kind)).toEqual(['video', 'video', 'audio']);
+      expect(component.state().tracks[1].items[0].startTime).toBe(1000);
+
+      component.undo();
+      expect(component.state().tracks.length).toBe(trackCount);
+    });
+
+    it('should use the sequence frame rate for EDLs until another rate is picked', () => {
+      component.state.update(s => ({ ...s, sequence: { frameRate: 29.97, dropFrame: true } }));
+      expect(component.edlFrameRate()).toBe(29.97);
+
+      const select = document.createElement('select');
+      select.innerHTML = '<option value="25" selected>25 fps</option>';
+      component.onEdlFrameRateChange({ target: select } as unknown as Event);
+      expect(component.edlFrameRate()).toBe(25);
+
+      component.state.update(s => ({ ...s, sequence: { frameRate: 24, dropFrame: false } }));
+      expect(component.edlFrameRate()).toBe(24);
+    });
+
+    it('should show an error for a file without EDL events', async () => {
+      const before = component.state();
+
+      await component.importEdlText('TITLE: Nothing here');
+
+      expect(component.state()).toBe(before);
+      expect(component.projectNotice()?.title).toBe('Could not import EDL');
+    });
+
+    it('should restore the same item positions from an exported OTIO timeline', async () => {
+      component.addMediaItem(MediaType.VIDEO, component.state().tracks[0].id);
+      const tracks = component.state().tracks;
+      const json = TestBed.inject(OtioService).toJson(component.state(), 'Timeline');
+
+      component.state.update(s => ({ ...s, tracks: [{ id: 'x', name: 'X', order: 0, items: [] }] }));
+      await component.importOtioJson(json);
+
+      expect(component.state().tracks).toEqual(tracks);
+      expect(component.history.canUndo()).toBe(true);
+    });
+  });
+
+  describe('Undo/Redo History', () => {
+    it('should undo and redo adding a track', () => {
+      const initialTrackCount = component.state().tracks.length;
+      component.addTrack();
+
+      component.undo();
+      expect(component.state().tracks.length).toBe(initialTrackCount);
+
+      component.redo();
+      expect(component.state().tracks.length).toBe(initialTrackCount + 1);
+    });
+
+    it('should record a whole drag gesture as one step', () => {
+      const track = component.state().tracks[0];
+      component.addMediaItem(MediaType.VIDEO, track.id);
+      const item = component.state().tracks[0].items[0];
+      const stepsBefore = component.history.undoStack().length;
+
+      const itemElement = document.createElement('div');
+      Object.defineProperty(itemElement, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 150, bottom: 50 })
+      });
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: itemElement }), item, track);
+
+      const trackElement = document.createElement('div');
+      Object.defineProperty(trackElement, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 1000, bottom: 60 })
+      });
+      for (const clientX of [100, 200, 300]) {
+        component.onTrackPointerMove(createPointerEvent('mousemove', clientX, { currentTarget: trackElement }), track);
+      }
+      component.onPointerUp(createPointerEvent('mouseup', 300));
+
+      expect(component.history.undoStack().length).toBe(stepsBefore + 1);
+
+      component.undo();
+      expect(component.state().tracks[0].items[0].startTime).toBe(item.startTime);
+    });
+
+    it('should keep playhead position when undoing', () => {
+      component.addTrack();
+      component.state.update(s => ({ ...s, playheadPosition: 12345 }));
+
+      component.undo();
+
+      expect(component.state().playheadPosition).toBe(12345);
+    });
+  });
+
+  describe('Split', () => {
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        playheadPosition: 2000,
+        tracks: s.tracks.map((t, index) => ({
+          ...t,
+          items: [{
+            id: `item-${index}`,
+            type: MediaType.VIDEO,
+            startTime: 1000,
+            duration: 3000,
+            maxDuration: 10000,
+            trackId: t.id,
+            name: 'Clip'
+          }]
+        }))
+      }));
+    });
+
+    it('should split every item under the playhead when nothing is selected', () => {
+      component.splitAtPlayhead();
+
+      for (const track of component.state().tracks) {
+        expect(track.items.length).toBe(2);
+        expect(track.items[1].startTime).toBe(2000);
+        expect(track.items[1].mediaStartTime).toBe(1000);
+      }
+    });
+
+    it('should only split the selected item when it is under the playhead', () => {
+      component.selectMediaItem('item-0');
+      component.splitAtPlayhead();
+
+      expect(component.state().tracks[0].items.length).toBe(2);
+      expect(component.state().tracks[1].items.length).toBe(1);
+    });
+
+    it('should split as a single undoable step', () => {
+      component.splitAtPlayhead();
+      component.undo();
+
+      expect(component.state().tracks.every(t => t.items.length === 1)).toBe(true);
+    });
+  });
+
+  describe('Multi-selection', () => {
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: s.tracks.map((t, trackIndex) => ({
+          ...t,
+          items: [0, 2000, 4000].map((startTime, index) => ({
+            id: `item-${trackIndex}-${index}`,
+            type: MediaType.VIDEO,
+            startTime,
+            duration: 1000,
+            trackId: t.id,
+            name: `Clip ${index}`
+          }))
+        }))
+      }));
+    });
+
+    it('should toggle items with ctrl-click', () => {
+      component.selectMediaItem('item-0-0');
+      component.toggleItemSelection('item-0-2');
+      expect(component.state().selectedItemIds).toEqual(['item-0-0', 'item-0-2']);
+
+      component.toggleItemSelection('item-0-0');
+      expect(component.state().selectedItemIds).toEqual(['item-0-2']);
+    });
+
+    it('should select a range within the track with shift-click', () => {
+      const track = component.state().tracks[0];
+      component.selectMediaItem('item-0-0');
+      component.selectRange('item-0-2', track.id);
+
+      expect(component.state().selectedItemIds.sort()).toEqual(['item-0-0', 'item-0-1', 'item-0-2']);
+    });
+
+    it('should select all items', () => {
+      component.selectAll();
+      expect(component.state().selectedItemIds.length).toBe(6);
+    });
+
+    it('should delete the whole selection as one step', () => {
+      component.selectMediaItem('item-0-0');
+      component.toggleItemSelection('item-1-1');
+      component.removeSelectedItems();
+
+      const ids = component.state().tracks.flatMap(t => t.items.map(i => i.id));
+      expect(ids).not.toContain('item-0-0');
+      expect(ids).not.toContain('item-1-1');
+      expect(ids.length).toBe(4);
+      expect(component.state().selectedItemIds).toEqual([]);
+
+      component.undo();
+      expect(component.state().tracks.flatMap(t => t.items).length).toBe(6);
+    });
+
+    it('should move every selected item by the same offset', () => {
+      const track = component.state().tracks[0];
+      const item = track.items[0];
+      component.selectMediaItem('item-0-0');
+      component.toggleItemSelection('item-1-0');
+
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 1000, bottom: 60 })
+      });
+
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: element }), item, track);
+      // 25px at 0.05 px/ms = 500ms
+      component.onTrackPointerMove(createPointerEvent('mousemove', 25, { currentTarget: element }), track);
+      component.onPointerUp(createPointerEvent('mouseup', 25));
+
+      const tracks = component.state().tracks;
+      expect(tracks[0].items.find(i => i.id === 'item-0-0')?.startTime).toBe(500);
+      expect(tracks[1].items.find(i => i.id === 'item-1-0')?.startTime).toBe(500);
+      expect(tracks[1].items.find(i => i.id === 'item-1-1')?.startTime).toBe(2000);
+    });
+  });
+
+  describe('Playback', () => {
+    it('should start and stop the playback engine', () => {
+      component.togglePlayback();
+      expect(component.isPlaying()).toBe(true);
+
+      component.togglePlayback();
+      expect(component.isPlaying()).toBe(false);
+    });
+
+    it('should move the playhead when the engine advances', () => {
+      component.togglePlayback();
+      component.playback['advance'](1500);
+      component.togglePlayback();
+
+      expect(component.state().playheadPosition).toBe(1500);
+    });
+
+    it('should keep skips within the timeline', () => {
+      component.skipBackward();
+      expect(component.state().playheadPosition).toBe(0);
+
+      component.state.update(s => ({ ...s, playheadPosition: 58000 }));
+      component.skipForward();
+      expect(component.state().playheadPosition).toBe(60000);
+    });
+  });
+
+  describe('Keyboard Shortcuts', () => {
+    const keydown = (key: string, init: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { key, cancelable: true, ...init });
+
+    it('should step the playhead by frames and jump to the start and end', () => {
+      component.onDocumentKeyDown(keydown('ArrowRight'));
+      expect(component.state().playheadPosition).toBeCloseTo(1000 / 30);
+
+      component.onDocumentKeyDown(keydown('End'));
+      expect(component.state().playheadPosition).toBe(60000);
+
+      component.onDocumentKeyDown(keydown('Home'));
+      expect(component.state().playheadPosition).toBe(0);
+    });
+
+    it('should mark in and out points at the playhead', () => {
+      component.playback.seek(2000);
+      component.onDocumentKeyDown(keydown('i'));
+      component.playback.seek(5000);
+      component.onDocumentKeyDown(keydown('o'));
+
+      expect(component.state().inPoint).toBe(2000);
+      expect(component.state().outPoint).toBe(5000);
+
+      // An in point after the out point drops the out point
+      component.playback.seek(6000);
+      component.markIn();
+      expect(component.state().outPoint).toBeUndefined();
+    });
+
+    it('should zoom with + and -', () => {
+      const zoom = component.state().zoomLevel;
+      component.onDocumentKeyDown(keydown('+', { shiftKey: true }));
+      expect(component.state().zoomLevel).toBeGreaterThan(zoom);
+
+      component.onDocumentKeyDown(keydown('-'));
+      expect(component.state().zoomLevel).toBe(zoom);
+    });
+
+    it('should leave shortcuts alone while the keymap editor is open', () => {
+      component.openKeymapEditor();
+      component.onDocumentKeyDown(keydown('End'));
+      expect(component.state().playheadPosition).toBe(0);
+
+      component.closeKeymapEditor();
+      component.onDocumentKeyDown(keydown('End'));
+      expect(component.state().playheadPosition).toBe(60000);
+    });
+  });
+
+  describe('Ripple mode', () => {
+    const setTrackItems = () => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [
+          {
+            ...s.tracks[0],
+            items: [
+              { id: 'first', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, trackId: s.tracks[0].id },
+              { id: 'second', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 0, trackId: s.tracks[0].id }
+            ]
+          },
+          {
+            ...s.tracks[1],
+            items: [{ id: 'sound', type: MediaType.AUDIO, startTime: 2000, duration: 2000, mediaStartTime: 0, trackId: s.tracks[1].id }]
+          }
+        ]
+      }));
+    };
+
+    it('should close the gap when deleting in ripple mode', () => {
+      setTrackItems();
+      component.toggleRippleMode();
+      component.selectMediaItem('first');
+
+      component.removeSelectedItems();
+
+      expect(component.state().tracks[0].items.map(i => [i.id, i.startTime])).toEqual([['second', 0]]);
+      expect(component.state().tracks[1].items[0].startTime).toBe(2000);
+    });
+
+    it('should ripple sync-locked tracks as one undoable step', () => {
+      setTrackItems();
+      component.toggleTrackSyncLock(component.state().tracks[1].id);
+      component.toggleRippleMode();
+
+      component.removeMediaItem('first', component.state().tracks[0].id);
+      expect(component.state().tracks[1].items[0].startTime).toBe(0);
+
+      component.undo();
+      expect(component.state().tracks[1].items[0].startTime).toBe(2000);
+      expect(component.state().tracks[0].items.length).toBe(2);
+    });
+
+    it('should push later items right when inserting at the playhead', () => {
+      setTrackItems();
+      component.toggleRippleMode();
+
+      component.addMediaItem(MediaType.IMAGE, component.state().tracks[0].id);
+
+      const items = [...component.state().tracks[0].items].sort((a, b) => a.startTime - b.startTime);
+      expect(items.map(i => i.startTime)).toEqual([0, 5000, 7000]);
+    });
+
+    it('should give items inserted one after another their own ids', () => {
+      component.toggleRippleMode();
+
+      component.addMediaItem(MediaType.IMAGE, component.state().tracks[0].id);
+      component.addMediaItem(MediaType.IMAGE, component.state().tracks[0].id);
+
+      const ids = component.state().tracks[0].items.map(i => i.id);
+      expect(new Set(ids).size).toBe(2);
+    });
+  });
+
+  describe('Drop modes', () => {
+    const element = document.createElement('div');
+    Object.defineProperty(element, 'getBoundingClientRect', {
+      value: () => ({ left: 0, top: 0, right: 1000, bottom: 60 })
+    });
+    const dragItem = (itemId: string, fromX: number, toX: number, modifiers: MouseEventInit) => {
+      const track = component.state().tracks[0];
+      const item = track.items.find(i => i.id === itemId)!;
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', fromX, { currentTarget: element }), item, track);
+      component.onTrackPointerMove(createPointerEvent('mousemove', toX, { currentTarget: element, ...modifiers }), track);
+    };
+    const sortedItems = () => [...component.state().tracks[0].items]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map(i => [i.id, i.startTime, i.duration]);
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [
+          {
+            ...s.tracks[0],
+            items: [
+              { id: 'first', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, trackId: s.tracks[0].id },
+              { id: 'second', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 0, trackId: s.tracks[0].id }
+            ]
+          },
+          ...s.tracks.slice(1)
+        ]
+      }));
+    });
+
+    it('should preview an overwrite without moving anything until the drop', () => {
+      // 150px at 0.05 px/ms = 3000ms
+      dragItem('first', 0, 150, { altKey: true });
+
+      expect(component.dropPreview()).toEqual({ trackId: component.state().tracks[0].id, startTime: 3000, duration: 2000, mode: 'overwrite' });
+      expect(sortedItems()).toEqual([['first', 0, 2000], ['second', 2000, 2000]]);
+
+      component.onPointerUp(createPointerEvent('mouseup', 150, { currentTarget: element }));
+
+      expect(component.dropPreview()).toBeNull();
+      expect(sortedItems()).toEqual([['second', 2000, 1000], ['first', 3000, 2000]]);
+    });
+
+    it('should split the track at the drop point when inserting', () => {
+      dragItem('second', 0, 50, { ctrlKey: true });
+      component.onPointerUp(createPointerEvent('mouseup', 50, { currentTarget: element }));
+
+      const items = sortedItems();
+      expect(items.slice(0, 2)).toEqual([['first', 0, 1000], ['second', 1000, 2000]]);
+      expect(items[2].slice(1)).toEqual([3000, 1000]);
+
+      component.undo();
+      expect(sortedItems()).toEqual([['first', 0, 2000], ['second', 2000, 2000]]);
+    });
+  });
+
+  describe('Slip, slide and roll tools', () => {
+    const element = document.createElement('div');
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [
+          {
+            ...s.tracks[0],
+            items: [
+              { id: 'first', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 5000, trackId: s.tracks[0].id },
+              { id: 'second', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 1000, maxDuration: 5000, trackId: s.tracks[0].id }
+            ]
+          },
+          ...s.tracks.slice(1)
+        ]
+      }));
+    });
+
+    it('should slip the source under an item and show its source in and out', () => {
+      const track = component.state().tracks[0];
+      component.setToolMode('slip');
+
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 100, { currentTarget: element }), track.items[1], track);
+      // Dragging 25px left at 0.05 px/ms shows 500ms later media
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 75, { currentTarget: element }));
+
+      expect(component.trimReadout()?.entries).toEqual([{ label: 'In', time: 1500 }, { label: 'Out', time: 3500 }]);
+
+      component.onPointerUp(createPointerEvent('mouseup', 75, { currentTarget: element }));
+      const slipped = component.state().tracks[0].items[1];
+      expect([slipped.startTime, slipped.duration, slipped.mediaStartTime]).toEqual([2000, 2000, 1500]);
+      expect(component.trimReadout()).toBeNull();
+
+      component.undo();
+      expect(component.state().tracks[0].items[1].mediaStartTime).toBe(1000);
+    });
+
+    it('should slide an item and trim the neighbour before it', () => {
+      const track = component.state().tracks[0];
+      component.setToolMode('slide');
+
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 100, { currentTarget: element }), track.items[1], track);
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 125, { currentTarget: element }));
+      component.onPointerUp(createPointerEvent('mouseup', 125, { currentTarget: element }));
+
+      const [first, second] = component.state().tracks[0].items;
+      expect(first.duration).toBe(2500);
+      expect(second.startTime).toBe(2500);
+    });
+
+    it('should roll the cut at the pressed edge between two items', () => {
+      const track = component.state().tracks[0];
+      const handle = document.createElement('div');
+      handle.classList.add('resize-handle', 'resize-handle-left');
+      component.setToolMode('roll');
+
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 100, { currentTarget: element, target: handle }), track.items[1], track);
+      // 20px left at 0.05 px/ms moves the cut 400ms earlier
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 80, { currentTarget: element }));
+
+      expect(component.trimReadout()?.entries).toEqual([{ label: 'Out', time: 1600 }, { label: 'In', time: 600 }]);
+
+      component.onPointerUp(createPointerEvent('mouseup', 80, { currentTarget: element }));
+      const [first, second] = component.state().tracks[0].items;
+      expect([first.duration, second.startTime, second.duration, second.mediaStartTime]).toEqual([1600, 1600, 2400, 600]);
+    });
+  });
+
+  describe('Transitions', () => {
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [
+          {
+            ...s.tracks[0],
+            items: [
+              { id: 'first', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 5000, trackId: s.tracks[0].id },
+              { id: 'second', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 1000, maxDuration: 5000, trackId: s.tracks[0].id }
+            ]
+          },
+          ...s.tracks.slice(1)
+        ]
+      }));
+    });
+
+    it('should add a transition at a cut and undo it', () => {
+      const track = component.state().tracks[0];
+      expect(component.getTrackCuts(track).map(cut => cut.time)).toEqual([2000]);
+
+      component.addTransition(track.id, 'first', 'second');
+
+      const transitions = component.state().tracks[0].transitions!;
+      expect(transitions.map(t => [t.type, t.duration, t.alignment])).toEqual([['dissolve', 1000, 'center']]);
+      expect(component.getTransitionOverlays(component.state().tracks[0])[0].left).toBe(75);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Add transition');
+
+      component.undo();
+      expect(component.state().tracks[0].transitions).toBeUndefined();
+    });
+
+    it('should resize a centred transition on both sides by dragging its edge', () => {
+      const trackId = component.state().tracks[0].id;
+      component.addTransition(trackId, 'first', 'second');
+      const transition = component.state().tracks[0].transitions![0];
+      const handle = document.createElement('div');
+      handle.classList.add('transition-handle', 'transition-handle-right');
+
+      component.onTransitionPointerDown(createPointerEvent('mousedown', 100, { target: handle }), transition);
+      // 10px right at 0.05 px/ms is 200ms on each side of the cut
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 110));
+      component.onPointerUp(createPointerEvent('mouseup', 110));
+
+      expect(component.state().tracks[0].transitions![0].duration).toBe(1400);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Resize transition');
+    });
+
+    it('should keep a transition on its cut when an item beside it is split', () => {
+      const trackId = component.state().tracks[0].id;
+      component.addTransition(trackId, 'first', 'second');
+
+      component.state.update(s => ({ ...s, playheadPosition: 1000 }));
+      component.splitAtPlayhead();
+
+      const track = component.state().tracks[0];
+      const [transition] = track.transitions!;
+      expect(transition.fromItemId).toBe(track.items.find(i => i.startTime === 1000)!.id);
+      expect(transition.toItemId).toBe('second');
+
+      component.removeTransition(transition.id);
+      expect(component.state().tracks[0].transitions).toBeUndefined();
+    });
+  });
+
+  describe('Keyframes', () => {
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        playheadPosition: 1000,
+        tracks: [
+          {
+            ...s.tracks[0],
+            items: [
+              { id: 'clip', type: MediaType.VIDEO, startTime: 0, duration: 4000, mediaStartTime: 2000, maxDuration: 10000, trackId: s.tracks[0].id }
+            ]
+          },
+          ...s.tracks.slice(1)
+        ]
+      }));
+    });
+
+    it('should open the lane of one item and add a keyframe at the playhead', () => {
+      component.toggleKeyframeLane('clip');
+      const track = component.state().tracks[0];
+      expect(component.getKeyframeLaneItem(track)?.id).toBe('clip');
+
+      component.addKeyframeAtPlayhead();
+
+      const item = component.state().tracks[0].items[0];
+      expect(item.keyframes?.opacity?.map(k => [k.time, k.value])).toEqual([[3000, 100]]);
+      expect(component.getSelectedKeyframe(item)?.time).toBe(3000);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Add keyframe');
+
+      component.undo();
+      expect(component.state().tracks[0].items[0].keyframes).toBeUndefined();
+
+      component.toggleKeyframeLane('clip');
+      expect(component.getKeyframeLaneItem(track)).toBeNull();
+    });
+
+    it('should drag a keyframe in time and value as one undoable step', () => {
+      component.toggleKeyframeLane('clip');
+      component.addKeyframeAtPlayhead();
+      const item = component.state().tracks[0].items[0];
+      const keyframe = item.keyframes!.opacity![0];
+
+      component.onKeyframePointerDown(createPointerEvent('mousedown', 100, { clientY: 100 }), item, keyframe);
+      // 25px right at 0.05 px/ms is 500ms, 10px down a graph of 40px for 0-100% is -25%
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 125, { clientY: 110 }));
+      component.onPointerUp(createPointerEvent('mouseup', 125, { clientY: 110 }));
+
+      const moved = component.state().tracks[0].items[0].keyframes!.opacity![0];
+      expect([moved.time, moved.value]).toEqual([3500, 75]);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Move keyframe');
+    });
+
+    it('should keep the animation of an image on its content when its left edge is trimmed', () => {
+      const trackId = component.state().tracks[0].id;
+      const image: MediaItem = {
+        id: 'image', type: MediaType.IMAGE, startTime: 1000, duration: 4000, trackId,
+        keyframes: { opacity: [
+          { id: 'k1', time: 0, value: 100, interpolation: 'linear' },
+          { id: 'k2', time: 2000, value: 0, interpolation: 'linear' }
+        ] }
+      };
+      component.state.update(s => ({ ...s, tracks: [{ ...s.tracks[0], items: [image] }, ...s.tracks.slice(1)] }));
+      const keyframeService = component['keyframeService'];
+      const expected = keyframeService.evaluate(image, 'opacity', 2500);
+      const element = document.createElement('div');
+      const handle = document.createElement('div');
+      handle.classList.add('resize-handle', 'resize-handle-left');
+
+      const track = component.state().tracks[0];
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 50, { currentTarget: element, target: handle }), image, track);
+      // 75px at 0.05 px/ms moves the start to 1500ms
+      component.onTrackPointerMove(createPointerEvent('mousemove', 75, { currentTarget: element }), track);
+      component.onPointerUp(createPointerEvent('mouseup', 75, { currentTarget: element }));
+
+      const trimmed = component.state().tracks[0].items[0];
+      expect(trimmed.startTime).toBe(1500);
+      expect(keyframeService.evaluate(trimmed, 'opacity', 2500)).toBe(expected);
+    });
+  });
+
+  describe('Frame rate and timecode', () => {
+    const addItem = (startTime: number, duration: number) => {
+      component.state.update(s => ({
+        ...s,
+        tracks: s.tracks.map((t, i) => i === 0
+          ? { ...t, items: [{ id: 'item-1', type: MediaType.VIDEO, startTime, duration, trackId: t.id, maxDuration: 60000 }] }
+          : t)
+      }));
+    };
+
+    const setFrameRate = (label: string) => {
+      const select = document.createElement('select');
+      const option = document.createElement('option');
+      option.value = label;
+      select.appendChild(option);
+      select.value = label;
+      component.onSequenceFrameRateChange({ target: select } as unknown as Event);
+    };
+
+    it('should show timecode, frames or seconds', () => {
+      expect(component.formatTime(1500)).toBe('00:00:01:15');
+
+      component.toggleTimeDisplayMode();
+      expect(component.formatTime(1500)).toBe('45f');
+
+      component.toggleTimeDisplayMode();
+      expect(component.formatTime(1500)).toBe('0:01.50');
+
+      component.toggleTimeDisplayMode();
+      expect(component.timeDisplayMode()).toBe('timecode');
+    });
+
+    it('should use drop-frame timecode for 29.97 DF', () => {
+      setFrameRate('29.97 fps DF');
+
+      expect(component.sequence()).toEqual({ frameRate: 29.97, dropFrame: true });
+      expect(component.formatTime(3600000)).toBe('01:00:00;00');
+      expect(component.history.canUndo()).toBe(true);
+    });
+
+    it('should step the playhead by frames of the project frame rate', () => {
+      setFrameRate('25 fps');
+
+      component.stepFrames(3);
+      expect(component.state().playheadPosition).toBe(120);
+
+      component.stepFrames(-1);
+      expect(component.state().playheadPosition).toBe(80);
+    });
+
+    it('should split on the frame nearest to the playhead', () => {
+      setFrameRate('25 fps');
+      addItem(0, 4000);
+      component.state.update(s => ({ ...s, playheadPosition: 1010 }));
+
+      component.splitAtPlayhead();
+
+      const items = component.state().tracks[0].items;
+      expect(items.map(i => i.duration)).toEqual([1000, 3000]);
+    });
+
+    it('should move dragged items to frame boundaries', () => {
+      setFrameRate('25 fps');
+      addItem(0, 2000);
+      const track = component.state().tracks[0];
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 3000, bottom: 60 })
+      });
+
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: element }), track.items[0], track);
+      // 151 px is 3020 ms at 0.05 pixels per millisecond, a frame at 25 fps is 40 ms
+      component.onTrackPointerMove(createPointerEvent('mousemove', 151, { currentTarget: element }), track);
+
+      expect(component.state().tracks[0].items[0].startTime).toBe(3040);
+    });
+
+    it('should move transition edges and keyframes to frame boundaries', () => {
+      setFrameRate('25 fps');
+      component.state.update(s => ({
+        ...s,
+        tracks: [{
+          ...s.tracks[0],
+          items: [
+            {
+              id: 'first', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 5000, trackId: s.tracks[0].id,
+              keyframes: { opacity: [{ id: 'k1', time: 500, value: 100, interpolation: 'linear' }] }
+            },
+            { id: 'second', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 1000, maxDuration: 5000, trackId: s.tracks[0].id }
+          ]
+        }, ...s.tracks.slice(1)]
+      }));
+      const trackId = component.state().tracks[0].id;
+      component.addTransition(trackId, 'first', 'second');
+      const handle = document.createElement('div');
+      handle.classList.add('transition-handle', 'transition-handle-right');
+
+      // 1.5px at 0.05 px/ms is 30ms, a frame at 25 fps is 40ms
+      component.onTransitionPointerDown(createPointerEvent('mousedown', 100, { target: handle }), component.state().tracks[0].transitions![0]);
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 101.5));
+      component.onPointerUp(createPointerEvent('mouseup', 101.5));
+      expect(component.state().tracks[0].transitions![0].duration).toBe(1040);
+
+      const item = component.state().tracks[0].items[0];
+      component.onKeyframePointerDown(createPointerEvent('mousedown', 100), item, item.keyframes!.opacity![0]);
+      component.onDocumentPointerMove(createPointerEvent('mousemove', 101.5));
+      component.onPointerUp(createPointerEvent('mouseup', 101.5));
+      expect(component.state().tracks[0].items[0].keyframes!.opacity![0].time).toBe(520);
+    });
+  });
+
+  describe('Zoom', () => {
+    const scrollElement = { scrollLeft: 0, clientWidth: 1000 };
+    const rulerElement = document.createElement('div');
+    Object.defineProperty(rulerElement, 'getBoundingClientRect', {
+      value: () => ({ left: 0, top: 0, right: 1000, bottom: 400 })
+    });
+    // Time shown at a position in pixels from the left of the scroll viewport
+    const timeAt = (x: number) => component.visibleTimeRange().end - (scrollElement.clientWidth - x) / component.pixelsPerMillisecond();
+
+    beforeEach(() => {
+      scrollElement.scrollLeft = 0;
+      component.timelineScroll = { nativeElement: scrollElement } as unknown as ElementRef<HTMLElement>;
+      component.updateViewport();
+    });
+
+    it('should zoom by a constant factor between an hour overview and single frames', () => {
+      for (let i = 0; i < 100; i++) component.zoomOut();
+      expect(component.state().zoomLevel).toBe(0.25);
+      expect(component.zoomSliderValue()).toBe(0);
+
+      for (let i = 0; i < 100; i++) component.zoomIn();
+      expect(component.state().zoomLevel).toBe(6000);
+      expect(component.zoomSliderValue()).toBe(component.ZOOM_SLIDER_STEPS);
+    });
+
+    it('should keep the time under the pointer in place when zooming with Ctrl+wheel', () => {
+      scrollElement.scrollLeft = 500;
+      component.updateViewport();
+      const anchorTime = timeAt(400);
+
+      const wheel = new WheelEvent('wheel', { deltaY: -100, clientX: 400, ctrlKey: true });
+      Object.defineProperty(wheel, 'currentTarget', { value: rulerElement });
+      component.onTimelineWheel(wheel);
+
+      expect(component.state().zoomLevel).toBeGreaterThan(50);
+      expect(timeAt(400)).toBeCloseTo(anchorTime);
+    });
+
+    it('should leave plain wheel scrolling alone', () => {
+      const wheel = new WheelEvent('wheel', { deltaY: -100, clientX: 400 });
+      Object.defineProperty(wheel, 'currentTarget', { value: rulerElement });
+      component.onTimelineWheel(wheel);
+
+      expect(component.state().zoomLevel).toBe(50);
+    });
+
+    it('should zoom with a two finger pinch', () => {
+      const pinch = (distance: number) => ({
+        touches: [{ clientX: 500 - distance / 2, clientY: 0 }, { clientX: 500 + distance / 2, clientY: 0 }],
+        currentTarget: rulerElement,
+        preventDefault: () => {},
+        stopPropagation: () => {}
+      }) as unknown as TouchEvent;
+
+      component.onTimelineTouchMove(pinch(100));
+      component.onTimelineTouchMove(pinch(200));
+      expect(component.state().zoomLevel).toBeCloseTo(100);
+
+      component.onTimelineTouchEnd({ touches: [] } as unknown as TouchEvent);
+      component.onTimelineTouchMove(pinch(50));
+      expect(component.state().zoomLevel).toBeCloseTo(100);
+    });
+
+    it('should fit the whole timeline in the view', () => {
+      component.zoomToFit();
+
+      // 1000 px view minus the track header and 20 px on each side for 60 seconds
+      expect(component.state().zoomLevel).toBeCloseTo(13.5);
+      expect(component.visibleTimeRange().start).toBe(0);
+    });
+
+    it('should fill the view with the selected items', () => {
+      component.state.update(s => ({
+        ...s,
+        tracks: s.tracks.map((t, i) => i === 0
+          ? { ...t, items: [{ id: 'item-1', type: MediaType.VIDEO, startTime: 10000, duration: 2000, trackId: t.id }] }
+          : t),
+        selectedItemIds: ['item-1']
+      }));
+
+      component.zoomToSelection();
+
+      expect(component.state().zoomLevel).toBeCloseTo(405);
+      expect(timeAt(170)).toBeCloseTo(10000);
+    });
+  });
+
+  describe('Snapping', () => {
+    const element = document.createElement('div');
+    Object.defineProperty(element, 'getBoundingClientRect', {
+      value: () => ({ left: 0, top: 0, right: 3000, bottom: 60 })
+    });
+    const dragItem = (toX: number, modifiers: MouseEventInit = {}) => {
+      const track = component.state().tracks[0];
+      const item = track.items.find(i => i.id === 'moving')!;
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: element }), item, track);
+      component.onTrackPointerMove(createPointerEvent('mousemove', toX, { currentTarget: element, ...modifiers }), track);
+    };
+    const movingItem = () => component.state().tracks[0].items.find(i => i.id === 'moving')!;
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: s.tracks.map((t, i) => i === 0
+          ? { ...t, items: [{ id: 'moving', type: MediaType.VIDEO, startTime: 0, duration: 1000, trackId: t.id }] }
+          : { ...t, items: [{ id: 'other', type: MediaType.VIDEO, startTime: 5000, duration: 1000, trackId: t.id }] })
+      }));
+    });
+
+    it('should snap to an item edge on another track and show the guide there', () => {
+      // 245 px is 4900 ms, 100 ms from the start of the other item
+      dragItem(245);
+
+      expect(movingItem().startTime).toBe(5000);
+      expect(component.snapGuide()).toBe(5000);
+
+      component.onPointerUp(createPointerEvent('mouseup', 245, { currentTarget: element }));
+      expect(component.snapGuide()).toBeNull();
+    });
+
+    it('should not snap while Shift is held', () => {
+      dragItem(245, { shiftKey: true });
+
+      expect(movingItem().startTime).toBe(4900);
+      expect(component.snapGuide()).toBeNull();
+    });
+
+    it('should turn snapping off with N', () => {
+      component.onDocumentKeyDown(new KeyboardEvent('keydown', { key: 'n' }));
+      expect(component.snapping.settings().enabled).toBe(false);
+
+      dragItem(245);
+      expect(movingItem().startTime).toBe(4900);
+    });
+
+    it('should snap the playhead to item edges while scrubbing', () => {
+      const ruler = document.createElement('div');
+      Object.defineProperty(ruler, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 3000, bottom: 40 })
+      });
+      const event = new MouseEvent('mousedown', { clientX: 303 });
+      Object.defineProperty(event, 'currentTarget', { value: ruler });
+
+      component.onRulerPointerDown(event);
+
+      expect(component.state().playheadPosition).toBe(6000);
+      expect(component.snapGuide()).toBe(6000);
+    });
+  });
+
+  describe('Markers', () => {
+    const dragMarker = (markerId: string, toX: number, modifiers: MouseEventInit = {}) => {
+      const marker = component.markers().find(m => m.id === markerId)!;
+      component.onMarkerPointerDown(createPointerEvent('mousedown', 0), marker);
+      component.onDocumentPointerMove(createPointerEvent('mousemove', toX, modifiers));
+      component.onPointerUp(createPointerEvent('mouseup', toX, modifiers));
+    };
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        playheadPosition: 2000,
+        tracks: s.tracks.map((t, i) => i === 0
+          ? { ...t, items: [{ id: 'item', type: MediaType.VIDEO, startTime: 5000, duration: 1000, trackId: t.id }] }
+          : t)
+      }));
+    });
+
+    it('should add a marker at the playhead with M', () => {
+      component.onDocumentKeyDown(new KeyboardEvent('keydown', { key: 'm' }));
+
+      expect(component.markers().length).toBe(1);
+      expect(component.markers()[0].time).toBe(2000);
+      expect(component.markers()[0].name).toBe('Marker 1');
+      expect(component.history.undoStack().at(-1)?.label).toBe('Add marker');
+    });
+
+    it('should move a dragged marker as one undoable step', () => {
+      component.addMarkerAtPlayhead();
+      const markerId = component.markers()[0].id;
+
+      // 50 px is 1000 ms at the default zoom
+      dragMarker(markerId, 50, { shiftKey: true });
+      expect(component.markers()[0].time).toBe(3000);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Move marker');
+
+      component.undo();
+      expect(component.markers()[0].time).toBe(2000);
+    });
+
+    it('should snap a dragged marker to item edges and items to markers', () => {
+      component.addMarkerAtPlayhead();
+      const markerId = component.markers()[0].id;
+
+      // 2000 + 145 px is 4900 ms, 100 ms from the start of the item
+      dragMarker(markerId, 145);
+      expect(component.markers()[0].time).toBe(5000);
+
+      component.state.update(s => ({ ...s, playheadPosition: 0 }));
+      component.addMarkerAtPlayhead();
+      const rangeMarkerId = component.markers()[0].id;
+      component.openMarkerEditor(rangeMarkerId);
+      const input = document.createElement('input');
+      input.value = '1';
+      component.onMarkerDurationChange({ target: input } as unknown as Event);
+      expect(component.markers()[0].duration).toBe(1000);
+
+      input.value = '2';
+      component.onMarkerDurationChange({ target: input } as unknown as Event);
+
+      // 195 px is 3900 ms, the end of the range is 100 ms from the end of the item
+      dragMarker(rangeMarkerId, 195);
+      expect(component.markers().find(m => m.id === rangeMarkerId)!.time).toBe(4000);
+
+      // 153 px puts the end of the item at 4060 ms, 60 ms from the start of the range marker
+      const element = document.createElement('div');
+      const track = component.state().tracks[0];
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: element }), track.items[0], track);
+      component.onTrackPointerMove(createPointerEvent('mousemove', 153, { currentTarget: element }), track);
+      component.onPointerUp(createPointerEvent('mouseup', 153, { currentTarget: element }));
+      expect(component.state().tracks[0].items[0].startTime).toBe(3000);
+    });
+
+    it('should jump to a marker from the panel', () => {
+      component.addMarkerAtPlayhead();
+      component.state.update(s => ({ ...s, playheadPosition: 0 }));
+
+      component.jumpToMarker(component.markers()[0]);
+      expect(component.state().playheadPosition).toBe(2000);
+    });
+  });
+
+  describe('Track states', () => {
+    const element = document.createElement('div');
+    Object.defineProperty(element, 'getBoundingClientRect', {
+      value: () => ({ left: 0, top: 0, right: 3000, bottom: 60 })
+    });
+    const itemIds = (trackIndex: number) => component.state().tracks[trackIndex].items.map(i => i.id);
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: s.tracks.map((t, i) => ({
+          ...t,
+          locked: i === 1,
+          items: [{ id: `item-${i}`, type: MediaType.VIDEO, startTime: 0, duration: 1000, trackId: t.id }]
+        }))
+      }));
+    });
+
+    it('should select but not move items on a locked track', () => {
+      const track = component.state().tracks[1];
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 10, { currentTarget: element }), track.items[0], track);
+      component.onTrackPointerMove(createPointerEvent('mousemove', 200, { currentTarget: element }), track);
+
+      expect(component.state().selectedItemIds).toEqual(['item-1']);
+      expect(component.state().tracks[1].items[0].startTime).toBe(0);
+    });
+
+    it('should not drop items onto a locked track', () => {
+      const [source, locked] = component.state().tracks;
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 10, { currentTarget: element }), source.items[0], source);
+      component.onTrackPointerMove(createPointerEvent('mousemove', 200, { currentTarget: element }), locked);
+      component.onPointerUp(createPointerEvent('mouseup', 200, { currentTarget: element }));
+
+      expect(itemIds(0)).toEqual(['item-0']);
+      expect(itemIds(1)).toEqual(['item-1']);
+    });
+
+    it('should keep items on locked tracks when deleting the selection', () => {
+      component.selectAll();
+      component.removeSelectedItems();
+
+      expect(itemIds(0)).toEqual([]);
+      expect(itemIds(1)).toEqual(['item-1']);
+      expect(component.state().selectedItemIds).toEqual(['item-1']);
+    });
+
+    it('should leave hidden tracks out of the preview as one undoable step', () => {
+      const trackId = component.state().tracks[0].id;
+      component.toggleTrackVisibility(trackId);
+
+      expect(component.outputTracks()[0].items).toEqual([]);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Toggle track visibility');
+
+      component.undo();
+      expect(component.outputTracks()[0].items.length).toBe(1);
+    });
+
+    describe('transitions and keyframes on a locked track', () => {
+      const lockedTrack = () => component.state().tracks[1];
+
+      beforeEach(() => {
+        component.state.update(s => ({
+          ...s,
+          playheadPosition: 500,
+          tracks: s.tracks.map((t, i) => i === 1
+            ? {
+                ...t,
+                items: [
+                  {
+                    id: 'first', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 5000, trackId: t.id,
+                    keyframes: { opacity: [{ id: 'k1', time: 1000, value: 100, interpolation: 'linear' }] }
+                  },
+                  { id: 'second', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 1000, maxDuration: 5000, trackId: t.id }
+                ],
+                transitions: [{ id: 'dissolve', type: 'dissolve', fromItemId: 'first', toItemId: 'second', duration: 1000, alignment: 'center' }]
+              }
+            : t)
+        }));
+        component.toggleKeyframeLane('first');
+      });
+
+      const valueEvent = (value: string) => {
+        const input = document.createElement('input');
+        input.value = value;
+        return { target: input } as unknown as Event;
+      };
+      const transition = () => lockedTrack().transitions![0];
+      const keyframes = () => lockedTrack().items[0].keyframes!.opacity!;
+
+      it('should not remove a transition', () => {
+        component.removeTransition('dissolve');
+        expect(lockedTrack().transitions?.length).toBe(1);
+      });
+
+      it('should not change the duration of a transition', () => {
+        component.openTransitionEditor('dissolve');
+        component.onTransitionDurationChange(valueEvent('2'));
+        expect(transition().duration).toBe(1000);
+      });
+
+      it('should not change the alignment of a transition', () => {
+        component.openTransitionEditor('dissolve');
+        component.onTransitionAlignmentChange(valueEvent('start'));
+        expect(transition().alignment).toBe('center');
+      });
+
+      it('should not resize a transition by its edge', () => {
+        const handle = document.createElement('div');
+        handle.classList.add('transition-handle', 'transition-handle-right');
+
+        component.onTransitionPointerDown(createPointerEvent('mousedown', 100, { target: handle }), transition());
+        component.onDocumentPointerMove(createPointerEvent('mousemove', 120));
+        component.onPointerUp(createPointerEvent('mouseup', 120));
+
+        expect(transition().duration).toBe(1000);
+      });
+
+      it('should not add a keyframe', () => {
+        component.addKeyframeAtPlayhead();
+        expect(keyframes().length).toBe(1);
+      });
+
+      it('should select but not remove a keyframe', () => {
+        const item = lockedTrack().items[0];
+        component.onKeyframePointerDown(createPointerEvent('mousedown', 100), item, keyframes()[0]);
+        component.onPointerUp(createPointerEvent('mouseup', 100));
+        expect(component.getSelectedKeyframe(item)?.id).toBe('k1');
+
+        component.removeSelectedKeyframe();
+        expect(keyframes().length).toBe(1);
+      });
+
+      it('should not drag a keyframe', () => {
+        component.onKeyframePointerDown(createPointerEvent('mousedown', 100, { clientY: 100 }), lockedTrack().items[0], keyframes()[0]);
+        component.onDocumentPointerMove(createPointerEvent('mousemove', 125, { clientY: 110 }));
+        component.onPointerUp(createPointerEvent('mouseup', 125, { clientY: 110 }));
+
+        expect([keyframes()[0].time, keyframes()[0].value]).toEqual([1000, 100]);
+      });
+
+      it('should not change the value of a keyframe', () => {
+        component.onKeyframePointerDown(createPointerEvent('mousedown', 100), lockedTrack().items[0], keyframes()[0]);
+        component.onKeyframeValueChange(valueEvent('50'));
+        expect(keyframes()[0].value).toBe(100);
+      });
+    });
+  });
+
+  describe('Track headers', () => {
+    const trackNames = () => component.state().tracks.map(t => t.name);
+    const nameEvent = (value: string) => {
+      const input = document.createElement('input');
+      input.value = value;
+      return { target: input } as unknown as Event;
+    };
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [1, 2].map((n, i) => ({
+          id: `${n}`,
+          name: `Video ${n}`,
+          order: i,
+          kind: 'video' as const,
+          items: [{ id: `item-${i}`, type: MediaType.VIDEO, startTime: 0, duration: 1000, trackId: `${n}` }]
+        }))
+      }));
+    });
+
+    it('should rename a track and keep the old name when the new one is empty', () => {
+      const trackId = component.state().tracks[0].id;
+
+      component.startTrackRename(trackId);
+      component.commitTrackRename(nameEvent('  Dialogue '));
+      expect(trackNames()[0]).toBe('Dialogue');
+      expect(component.editedTrackNameId()).toBeNull();
+      expect(component.history.undoStack().at(-1)?.label).toBe('Rename track');
+
+      component.startTrackRename(trackId);
+      component.commitTrackRename(nameEvent(''));
+      expect(trackNames()[0]).toBe('Dialogue');
+    });
+
+    it('should move a track with its items and renumber the order', () => {
+      component.moveTrackDown(component.state().tracks[0].id);
+
+      expect(trackNames()).toEqual(['Video 2', 'Video 1']);
+      expect(component.state().tracks.map(t => t.order)).toEqual([0, 1]);
+      expect(component.state().tracks[1].items.map(i => i.id)).toEqual(['item-0']);
+
+      component.undo();
+      expect(trackNames()).toEqual(['Video 1', 'Video 2']);
+    });
+
+    it('should drop a dragged header at the indicated boundary', () => {
+      fixture.detectChanges();
+      const header = fixture.nativeElement.querySelector('.track-header') as HTMLElement;
+      const down = new MouseEvent('mousedown', { clientY: 0 });
+      Object.defineProperty(down, 'target', { value: header });
+
+      component.onTrackHeaderPointerDown(down, component.state().tracks[0].id);
+      // Every header is above this point, so the track goes below the last one
+      component.onDocumentPointerMove(new MouseEvent('mousemove', { clientY: 10 }));
+      expect(component.trackDropIndex()).toBe(2);
+      fixture.detectChanges();
+      expect(fixture.nativeElement.querySelector('.track-drop-indicator')).toBeTruthy();
+
+      component.onPointerUp(new MouseEvent('mouseup', { clientY: 10 }));
+      expect(trackNames()).toEqual(['Video 2', 'Video 1']);
+      expect(component.trackDropIndex()).toBeNull();
+    });
+  });
+
+  describe('Track kinds', () => {
+    const trackNames = () => component.state().tracks.map(t => t.name);
+    const trackItems = (trackId: string) => component.state().tracks.find(t => t.id === trackId)?.items ?? [];
+    const clip = { id: 'video-1', name: 'Clip', type: MediaType.VIDEO, duration: 4000 };
+
+    beforeEach(() => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [
+          { id: 'v1', name: 'Video 1', order: 0, items: [], kind: 'video' },
+          { id: 'a1', name: 'Audio 1', order: 1, kind: 'audio', items: [
+            { id: 'music', type: MediaType.AUDIO, startTime: 0, duration: 5000, trackId: 'a1' }
+          ] },
+          { id: 'a2', name: 'Audio 2', order: 2, items: [], kind: 'audio' }
+        ]
+      }));
+    });
+
+    it('should add video tracks above and audio tracks below the others', () => {
+      component.addTrack('audio');
+      component.addTrack('video');
+
+      expect(trackNames()).toEqual(['Video 1', 'Video 2', 'Audio 1', 'Audio 2', 'Audio 3']);
+      expect(component.state().tracks.map(t => t.order)).toEqual([0, 1, 2, 3, 4]);
+      expect(component.history.undoStack().at(-1)?.label).toBe('Add video track');
+    });
+
+    it('should not move an audio track above a video track', () => {
+      const stepsBefore = component.history.undoStack().length;
+
+      component.moveTrackUp('a1');
+
+      expect(trackNames()).toEqual(['Video 1', 'Audio 1', 'Audio 2']);
+      expect(component.history.undoStack().length).toBe(stepsBefore);
+    });
+
+    it('should keep audio off video tracks when adding and dragging', () => {
+      component.addMediaItem(MediaType.AUDIO, 'v1');
+      expect(trackItems('v1').length).toBe(0);
+
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 1000, bottom: 60 })
+      });
+      const [videoTrack, audioTrack] = component.state().tracks;
+
+      component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: element }), trackItems('a1')[0], audioTrack);
+      component.onTrackPointerMove(createPointerEvent('mousemove', 100, { currentTarget: element }), videoTrack);
+      component.onPointerUp(new MouseEvent('mouseup'));
+
+      expect(trackItems('v1').length).toBe(0);
+      expect(trackItems('a1').map(i => i.id)).toEqual(['music']);
+    });
+
+    it('should only show the toggles that apply to the kind of a track', () => {
+      component.state.update(s => ({ ...s, tracks: [...s.tracks, { id: 'm', name: 'Mixed', order: 3, items: [] }] }));
+      fixture.detectChanges();
+
+      const toggles = [...fixture.nativeElement.querySelectorAll('.track-toggles')] as HTMLElement[];
+      const titles = (title: string) => toggles.map(t => !!t.querySelector(`[title="${title}"]`));
+      expect(titles('Mute audio')).toEqual([false, true, true, true]);
+      expect(titles('Hide video')).toEqual([true, false, false, true]);
+    });
+
+    it('should only offer the media a track takes in the library', () => {
+      component.openMediaLibrary('a1');
+      expect(component.getMediaLibraryAcceptedTypes()).toEqual([MediaType.AUDIO]);
+
+      component.openMediaLibrary('v1');
+      expect(component.getMediaLibraryAcceptedTypes()).toEqual([MediaType.VIDEO, MediaType.IMAGE]);
+    });
+
+    it('should put the linked audio of a video on the nearest free audio track', () => {
+      component.openMediaLibrary('v1');
+      component.onMediaSelected(clip);
+
+      const [video] = trackItems('v1');
+      const [audio] = trackItems('a2');
+      expect(video.linkId).toBeDefined();
+      expect(audio.linkId).toBe(video.linkId);
+      expect([audio.type, audio.startTime, audio.duration]).toEqual([MediaType.AUDIO, video.startTime, video.duration]);
+
+      component.undo();
+      expect(trackItems('v1').length).toBe(0);
+      expect(trackItems('a2').length).toBe(0);
+    });
+
+    it('should add an audio track for the linked audio when none is free and skip silent videos', () => {
+      component.removeTrack('a2');
+      component.openMediaLibrary('v1');
+      component.onMediaSelected(clip);
+
+      expect(trackNames()).toEqual(['Video 1', 'Audio 1', 'Audio 2']);
+      expect(component.state().tracks[2].kind).toBe('audio');
+      expect(component.state().tracks[2].items[0].linkId).toBe(trackItems('v1')[0].linkId);
+
+      component.openMediaLibrary('v1');
+      component.onMediaSelected({ ...clip, hasAudio: false });
+      expect(trackItems('v1').length).toBe(2);
+      expect(trackItems('v1')[1].linkId).toBeUndefined();
+      expect(component.state().tracks.length).toBe(3);
+    });
+
+    it('should put the linked audio on a free mixed track next to the video', () => {
+      component.state.update(s => ({
+        ...s,
+        tracks: [s.tracks[0], { id: 'm', name: 'Mixed', order: 1, items: [] }, ...s.tracks.slice(1)]
+      }));
+      component.openMediaLibrary('v1');
+      component.onMediaSelected({ ...clip, sourceId: 'asset-1' });
+
+      const [video] = trackItems('v1');
+      const [audio] = trackItems('m');
+      expect(trackItems('a2').length).toBe(0);
+      expect(audio).toEqual({
+        id: audio.id,
+        type: MediaType.AUDIO,
+        startTime: video.startTime,
+        duration: video.duration,
+        trackId: 'm',
+        name: 'Clip',
+        maxDuration: video.maxDuration,
+        sourceId: 'asset-1',
+        linkId: video.linkId
+      });
+    });
+
+    describe('linked items', () => {
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'getBoundingClientRect', {
+        value: () => ({ left: 0, top: 0, right: 1000, bottom: 60 })
+      });
+      const linkedPair = () => [trackItems('v1')[0], trackItems('a2')[0]];
+
+      beforeEach(() => {
+        component.openMediaLibrary('v1');
+        component.onMediaSelected(clip);
+      });
+
+      it('should move the linked audio with the video', () => {
+        const [video] = linkedPair();
+        const videoTrack = component.state().tracks[0];
+
+        component.onMediaItemPointerDown(createPointerEvent('mousedown', 0, { currentTarget: element }), video, videoTrack);
+        // 50px at 0.05 px/ms is 1000ms
+        component.onTrackPointerMove(createPointerEvent('mousemove', 50, { currentTarget: element }), videoTrack);
+        component.onPointerUp(createPointerEvent('mouseup', 50, { currentTarget: element }));
+
+        expect(linkedPair().map(i => i.startTime)).toEqual([1000, 1000]);
+      });
+
+      it('should delete the linked audio with the video', () => {
+        component.removeMediaItem(linkedPair()[0].id, 'v1');
+
+        expect(trackItems('v1').length).toBe(0);
+        expect(trackItems('a2').length).toBe(0);
+        expect(trackItems('a1').length).toBe(1);
+      });
+
+      it('should cut the linked audio with the video and link the pieces after the cut to each other', () => {
+        component.selectMediaItem(linkedPair()[0].id);
+        component.state.update(s => ({ ...s, playheadPosition: 1000 }));
+
+        component.splitAtPlayhead();
+
+        const [firstVideo, secondVideo] = trackItems('v1');
+        const [firstAudio, secondAudio] = trackItems('a2');
+        expect(trackItems('a2').map(i => [i.startTime, i.duration])).toEqual([[0, 1000], [1000, 3000]]);
+        expect(firstAudio.linkId).toBe(firstVideo.linkId);
+        expect(secondAudio.linkId).toBe(secondVideo.linkId);
+        expect(secondVideo.linkId).not.toBe(firstVideo.linkId);
+      });
+
+      it('should trim the linked audio with the video', () => {
+        const [video] = linkedPair();
+        const handle = document.createElement('div');
+        handle.classList.add('resize-handle', 'resize-handle-right');
+        const videoTrack = component.state().tracks[0];
+
+        component.onMediaItemPointerDown(createPointerEvent('mousedown', 200, { currentTarget: element, target: handle }), video, videoTrack);
+        // The end moves to 150px, 3000ms
+        component.onTrackPointerMove(createPointerEvent('mousemove', 150, { currentTarget: element }), videoTrack);
+        component.onPointerUp(createPointerEvent('mouseup', 150, { currentTarget: element }));
+
+        expect(linkedPair().map(i => i.duration)).toEqual([3000, 3000]);
+      });
+    });
+  });
 });
@@ -1,38 +1,91 @@
-import { Component, signal, computed, effect, ViewChild, ElementRef } from '@angular/core';
+import { Component, signal, computed, linkedSignal, effect, afterNextRender, Injector, ViewChild, ElementRef, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { MediaType, MediaItem, Track, TimelineState } from '../../models/timeline.models';
-import { MediaLibraryComponent, MediaLibraryItem } from '../media-library/media-library.component';
-import { TimelineDragDropService } from '../../services/timeline-drag-drop.service';
+import {
+  DEFAULT_SEQUENCE_SETTINGS,
+  MARKER_COLORS,
+  Marker,
+  MarkerColor,
+  MediaType,
+  MediaItem,
+  SEQUENCE_FRAME_RATES,
+  TRACK_KIND_MEDIA_TYPES,
+  TimeDisplayMode,
+  Track,
+  TrackFlag,
+  TimelineState,
+  ToolMode,
+  Transition,
+  TransitionAlignment
+} from '../../models/timeline.models';
+import { MediaLibraryComponent } from '../media-library/media-library.component';
+import type { MediaLibraryItem } from '../media-library/media-library.component';
+import { VideoPreviewComponent } from '../video-preview/video-preview.component';
+import { WaveformComponent } from '../waveform/waveform.component';
+import { FilmstripComponent } from '../filmstrip/filmstrip.component';
+import { KeymapEditorComponent } from '../keymap-editor/keymap-editor.component';
+import { DropMode, TimelineDragDropService } from '../../services/timeline-drag-drop.service';
+import type { ProjectSerializerService } from '../../services/project-serializer.service';
+import { TimelineHistoryService } from '../../services/timeline-history.service';
+import { TimelineEditService } from '../../services/timeline-edit.service';
+import { PlaybackEngineService, PlaybackHost } from '../../services/playback-engine.service';
+import type { EdlService } from '../../services/edl.service';
+import type { OtioService } from '../../services/otio.service';
+import { KeyboardShortcutService } from '../../services/keyboard-shortcut.service';
+import { TransitionService } from '../../services/transition.service';
+import { KeyframeService } from '../../services/keyframe.service';
+import { FilmstripService } from '../../services/filmstrip.service';
+import { TimecodeService } from '../../services/timecode.service';
+import { SnappingService } from '../../services/snapping.service';
+import { MarkerService } from '../../services/marker.service';
+import { TrackOutputService } from '../../services/track-output.service';
+import { Keyframe, KeyframeInterpolation, KEYFRAME_PARAMETERS, KeyframeParameter } from '../../models/keyframe.models';
+import { ProjectLoadError } from '../../models/project.models';
+import { EDL_FRAME_RATES, EdlParseError } from '../../models/edl.models';
+import { OtioParseError } from '../../models/otio.models';
+import { SNAP_CATEGORIES, SnapTarget } from '../../models/snapping.models';
 
 @Component({
   selector: 'app-timeline',
   standalone: true,
-  imports: [CommonModule, MediaLibraryComponent],
+  imports: [CommonModule, MediaLibraryComponent, VideoPreviewComponent, WaveformComponent, FilmstripComponent, KeymapEditorComponent],
   templateUrl: './timeline.component.html',
-  styleUrl: './timeline.component.css'
+  styleUrl: './timeline.component.css',
+  host: {
+    '(document:keydown)': 'onDocumentKeyDown($event)',
+    '(window:resize)': 'updateViewport()'
+  }
 })
-export class TimelineComponent {
-  // Zoom levels: pixels per second
-  private readonly MIN_ZOOM = 10;
-  private readonly MAX_ZOOM = 200;
-  private readonly ZOOM_STEP = 20;
+export class TimelineComponent implements OnDestroy {
+  // Zoom levels: pixels per second, changed by a factor so each step feels the same at every level
+  private readonly MIN_ZOOM = 0.25; // An hour fits in 900 pixels
+  private readonly MAX_ZOOM = 6000; // A frame at 30 fps is 200 pixels wide
+  private readonly ZOOM_FACTOR = 1.25;
+  private readonly WHEEL_ZOOM_SPEED = 0.002; // Zoom changes by e^(speed * pixels scrolled)
+  private readonly ZOOM_FIT_MARGIN_PX = 20; // Space left on both sides by zoom to fit and zoom to selection
+  readonly ZOOM_SLIDER_STEPS = 1000;
   readonly TRACK_HEADER_WIDTH = 150; // Width of track header in pixels
   private readonly SNAP_PROXIMITY_MS = 500; // Snap to item if playhead is within 500ms
   private readonly MIN_ITEM_DURATION = 100; // Minimum item duration in milliseconds
 
   // View references
   @ViewChild('timelineRuler') timelineRuler?: ElementRef<HTMLElement>;
+  @ViewChild('projectFileInput') projectFileInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('edlFileInput') edlFileInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('otioFileInput') otioFileInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('tracksContainer') tracksContainer?: ElementRef<HTMLElement>;
+  @ViewChild('timelineScroll') timelineScroll?: ElementRef<HTMLElement>;
+  @ViewChild('trackNameInput') trackNameInput?: ElementRef<HTMLInputElement>;
 
   // Timeline state
   readonly state = signal<TimelineState>({
     tracks: [
-      { id: '1', name: 'Track 1', order: 0, items: [] },
-      { id: '2', name: 'Track 2', order: 1, items: [] }
+      { id: '1', name: 'Video 1', order: 0, items: [], kind: 'video' },
+      { id: '2', name: 'Audio 1', order: 1, items: [], kind: 'audio' }
     ],
     playheadPosition: 0,
     zoomLevel: 50, // pixels per second
     totalDuration: 60000, // 60 seconds in milliseconds
-    selectedItemId: null
+    selectedItemIds: []
   });
 
   // Computed values
@@ -70,6 +123,43 @@ export class TimelineComponent {
     return this.playheadPosition() + this.TRACK_HEADER_WIDTH;
   });
 
+  // Horizontal scroll position and width of the timeline viewport in pixels
+  private readonly viewport = signal<{ scrollLeft: number; width: number }>({
+    scrollLeft: 0,
+    width: typeof window !== 'undefined' ? window.innerWidth : 1920
+  });
+
+  // Distance between the fingers (1 for trackpad gestures) and zoom level when a pinch started
+  private pinch: { distance: number; zoomLevel: number } | null = null;
+
+  // Part of the timeline currently scrolled into view, in milliseconds
+  readonly visibleTimeRange = computed(() => {
+    const { scrollLeft, width } = this.viewport();
+    const start = Math.max(0, scrollLeft - this.TRACK_HEADER_WIDTH) / this.pixelsPerMillisecond();
+    return { start, end: (scrollLeft + width - this.TRACK_HEADER_WIDTH) / this.pixelsPerMillisecond() };
+  });
+
+  // Zoom slider position, proportional to the logarithm of the zoom level
+  readonly zoomSliderValue = computed(() => {
+    const range = Math.log(this.MAX_ZOOM) - Math.log(this.MIN_ZOOM);
+    return Math.round((Math.log(this.state().zoomLevel) - Math.log(this.MIN_ZOOM)) / range * this.ZOOM_SLIDER_STEPS);
+  });
+
+  // Marked range on the ruler, open ends reach to the start or end of the timeline
+  readonly inOutRange = computed(() => {
+    const state = this.state();
+    if (state.inPoint === undefined && state.outPoint === undefined) return null;
+
+    const start = state.inPoint ?? 0;
+    const end = state.outPoint ?? state.totalDuration;
+    return {
+      left: start * this.pixelsPerMillisecond(),
+      width: Math.max(0, end - start) * this.pixelsPerMillisecond(),
+      hasIn: state.inPoint !== undefined,
+      hasOut: state.outPoint !== undefined
+    };
+  });
+
   // Dragging state
   private draggedItem: MediaItem | null = null;
   private draggedItemOriginalTrackId: string | null = null;
@@ -78,9 +168,84 @@ export class TimelineComponent {
   private isDraggingFromRuler = false;
   private resizingItem: { item: MediaItem; edge: 'left' | 'right' } | null = null;
   private mouseDownPosition: { x: number; y: number } | null = null; // Track mouse down position for click detection
+  private gestureStartState: TimelineState | null = null; // State before the current drag or resize gesture
+  private groupDragItems: MediaItem[] | null = null; // Selected items moving together with the dragged item
+  private dragSourceTrackId: string | null = null; // Track the dragged item was picked up from
+  // Where an insert or overwrite drop will land, shown as an overlay while dragging with a modifier held
+  readonly dropPreview = signal<{ trackId: string; startTime: number; duration: number; mode: Exclude<DropMode, 'fit'> } | null>(null);
+
+  // Selection state
+  private selectionAnchorId: string | null = null; // Item that shift-click range selection starts from
+  private marqueeStart: { x: number; y: number; additive: boolean } | null = null;
+  readonly marqueeRect = signal<{ left: number; top: number; width: number; height: number } | null>(null);
+
+  // Editing tool state: 'select' drags items, 'razor' splits items where they are clicked,
+  // 'slip', 'slide' and 'roll' edit an item relative to where the drag started
+  readonly toolMode = signal<ToolMode>('select');
+  // For a roll, itemId is the item before the cut and nextItemId the item after it
+  private trimGesture: { tool: 'slip' | 'slide' | 'roll'; itemId: string; startX: number; nextItemId?: string } | null = null;
+  // Source in/out points shown next to the pointer during a slip, slide or roll
+  readonly trimReadout = signal<{ x: number; y: number; entries: { label: string; time: number }[] } | null>(null);
+  // Ripple mode: deletes close gaps, trims and inserts move the later items
+  readonly rippleMode = signal<boolean>(false);
+  private generatedIdCounter = 0;
+
+  // Transition state
+  private transitionResize: {
+    transitionId: string;
+    edge: 'left' | 'right';
+    startX: number;
+    startDuration: number;
+    alignment: TransitionAlignment;
+  } | null = null;
+  readonly editedTransitionId = signal<string | null>(null);
+  readonly editedTransition = computed(() => {
+    const id = this.editedTransitionId();
+    for (const track of this.state().tracks) {
+      const transition = track.transitions?.find(t => t.id === id);
+      const items = transition ? this.transitionService.findItems(track, transition) : null;
+      if (transition && items) {
+        const maxDuration = this.transitionService.getMaxDuration(items.from, items.to, transition.alignment);
+        return { transition, from: items.from, to: items.to, maxDuration };
+      }
+    }
+    return null;
+  });
+
+  // Keyframe lane state: the lane opens under one item at a time and shows one parameter
+  readonly keyframeLaneItemId = signal<string | null>(null);
+  readonly keyframeParameter = signal<KeyframeParameter>('opacity');
+  readonly selectedKeyframeId = signal<string | null>(null);
+  readonly KEYFRAME_PARAMETERS = KEYFRAME_PARAMETERS;
+  readonly KEYFRAME_GRAPH_HEIGHT = 40; // pixels, from the lowest to the highest value of the parameter
+  private keyframeDrag: {
+    itemId: string;
+    keyframeId: string;
+    startX: number;
+    startY: number;
+    startTime: number;
+    startValue: number;
+  } | null = null;
+
+  // Track header state: one track name is edited at a time, headers are dragged to reorder the tracks
+  readonly editedTrackNameId = signal<string | null>(null);
+  readonly trackDropIndex = signal<number | null>(null); // Boundary the dragged track goes to, 0 is above the first track
+  private trackDrag: { trackId: string } | null = null;
+
+  // Tracks as seen in the preview, without hidden video and images
+  readonly outputTracks = computed(() => this.trackOutput.getOutputTracks(this.state().tracks));
+
+  // Marker state
+  readonly MARKER_COLORS = MARKER_COLORS;
+  readonly markers = computed(() => this.state().markers ?? []);
+  readonly showMarkerPanel = signal<boolean>(false);
+  readonly editedMarkerId = signal<string | null>(null);
+  readonly editedMarker = computed(() => this.markers().find(m => m.id === this.editedMarkerId()) ?? null);
+  private markerDrag: { markerId: string; startX: number; startTime: number } | null = null;
 
   // Video preview state
-  readonly isPlaying = signal<boolean>(false);
+  readonly isPlaying = computed(() => this.playback.isPlaying());
+  readonly PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2, 4];
 
   // Duration editor state
   readonly showDurationEditor = signal<boolean>(false);
@@ -90,32 +255,150 @@ export class TimelineComponent {
   readonly showMediaLibrary = signal<boolean>(false);
   private mediaLibraryTargetTrackId: string | null = null;
 
-  constructor(private dragDropService: TimelineDragDropService) {
+  // Project file state
+  readonly projectNotice = signal<{ title: string; messages: string[] } | null>(null);
+
+  // OTIO menu state
+  readonly showOtioMenu = signal<boolean>(false);
+
+  // EDL dialog state
+  readonly showEdlDialog = signal<boolean>(false);
+  readonly edlFrameRate = linkedSignal(() => this.sequence().frameRate); // Follows the sequence until another rate is picked
+  readonly edlTitle = signal<string>('Timeline');
+  readonly EDL_FRAME_RATES = EDL_FRAME_RATES;
+
+  // Sequence settings and time display
+  readonly SEQUENCE_FRAME_RATES = SEQUENCE_FRAME_RATES;
+  readonly sequence = computed(() => this.state().sequence ?? DEFAULT_SEQUENCE_SETTINGS);
+  readonly timeDisplayMode = signal<TimeDisplayMode>('timecode');
+
+  // Snapping state
+  readonly SNAP_CATEGORIES = SNAP_CATEGORIES;
+  readonly showSnapMenu = signal<boolean>(false);
+  readonly snapGuide = signal<number | null>(null); // milliseconds - where the current gesture snapped
+
+  // Keymap editor state
+  readonly showKeymapEditor = signal<boolean>(false);
+  private unregisterShortcuts: () => void;
+
+  // History panel state
+  readonly showHistoryPanel = signal<boolean>(false);
+
+  constructor(
+    private dragDropService: TimelineDragDropService,
+    readonly history: TimelineHistoryService,
+    private editService: TimelineEditService,
+    readonly playback: PlaybackEngineService,
+    readonly shortcuts: KeyboardShortcutService,
+    private transitionService: TransitionService,
+    private keyframeService: KeyframeService,
+    private filmstripService: FilmstripService,
+    private timecodeService: TimecodeService,
+    private injector: Injector,
+    readonly snapping: SnappingService,
+    private markerService: MarkerService,
+    private trackOutput: TrackOutputService
+  ) {
+    this.playback.attach(this.playbackHost);
+    this.unregisterShortcuts = this.shortcuts.register({
+      playPause: () => this.togglePlayback(),
+      shuttleReverse: () => this.playback.shuttleReverse(),
+      shuttleStop: () => this.playback.shuttleStop(),
+      shuttleForward: () => this.playback.shuttleForward(),
+      previousFrame: () => this.stepFrames(-1),
+      nextFrame: () => this.stepFrames(1),
+      goToStart: () => this.goToStart(),
+      goToEnd: () => this.goToEnd(),
+      markIn: () => this.markIn(),
+      markOut: () => this.markOut(),
+      clearInOut: () => this.clearInOut(),
+      zoomIn: () => this.zoomIn(),
+      zoomOut: () => this.zoomOut(),
+      zoomToFit: () => this.zoomToFit(),
+      zoomToSelection: () => this.zoomToSelection(),
+      toggleSnapping: () => this.snapping.toggleEnabled(),
+      addMarker: () => this.addMarkerAtPlayhead(),
+      split: () => this.splitAtPlayhead(),
+      removeSelected: () => this.removeSelectedItems(),
+      selectAll: () => this.selectAll(),
+      undo: () => this.undo(),
+      redo: () => this.redo(),
+      selectTool: () => this.setToolMode('select'),
+      razorTool: () => this.setToolMode(this.toolMode() === 'razor' ? 'select' : 'razor'),
+      slipTool: () => this.setToolMode(this.toolMode() === 'slip' ? 'select' : 'slip'),
+      slideTool: () => this.setToolMode(this.toolMode() === 'slide' ? 'select' : 'slide'),
+      rollTool: () => this.setToolMode(this.toolMode() === 'roll' ? 'select' : 'roll'),
+      toggleRipple: () => this.toggleRippleMode()
+    });
   }
 
-  // Track management
-  addTrack(): void {
-    const currentState = this.state();
-    const newTrack: Track = {
-      id: `track-${Date.now()}`,
-      name: `Track ${currentState.tracks.length + 1}`,
-      order: currentState.tracks.length,
-      items: []
-    };
+  ngOnDestroy(): void {
+    this.playback.detach(this.playbackHost);
+    this.unregisterShortcuts();
+  }
 
-    this.state.update(s => ({
+  // Lets the playback engine drive the playhead stored in the timeline state
+  private readonly playbackHost: PlaybackHost = {
+    getPosition: () => this.state().playheadPosition,
+    setPosition: (position: number) => this.state.update(s => ({ ...s, playheadPosition: position })),
+    getDuration: () => this.state().totalDuration
+  };
+
+  /**
+   * Apply an edit to the timeline and record it as one undoable step
+   */
+  private applyEdit(label: string, update: (state: TimelineState) => TimelineState): void {
+    const previousState = this.state();
+    this.state.update(s => this.withValidTransitions(update(s)));
+
+    if (this.hasDocumentChanged(previousState, this.state())) {
+      this.history.record(label, previousState);
+    }
+  }
+
+  // Transitions follow their cut, or are shortened or dropped, when an edit changes the items around it
+  private withValidTransitions(state: TimelineState): TimelineState {
+    const tracks = this.transitionService.normalizeTracks(state.tracks);
+    return tracks === state.tracks ? state : { ...state, tracks };
+  }
+
+  // Compare only the edited content, playhead, zoom and selection are not part of the history
+  private hasDocumentChanged(before: TimelineState, after: TimelineState): boolean {
+    return before.totalDuration !== after.totalDuration ||
+      before.sequence !== after.sequence ||
+      JSON.stringify(before.markers) !== JSON.stringify(after.markers) ||
+      JSON.stringify(before.tracks) !== JSON.stringify(after.tracks);
+  }
+
+  // Track management, video tracks go above and audio tracks below the others
+  addTrack(kind: 'video' | 'audio' = 'video'): void {
+    const newTrack = this.createTrack(kind, this.state().tracks);
+
+    this.applyEdit(kind === 'video' ? 'Add video track' : 'Add audio track', s => ({
       ...s,
-      tracks: [...s.tracks, newTrack]
+      tracks: this.dragDropService.sortTracksByKind([...s.tracks, newTrack])
     }));
   }
 
+  private createTrack(kind: 'video' | 'audio', tracks: Track[]): Track {
+    const count = tracks.filter(t => t.kind === kind).length;
+    return {
+      id: this.generateTrackId(),
+      name: `${kind === 'video' ? 'Video' : 'Audio'} ${count + 1}`,
+      order: tracks.length,
+      items: [],
+      kind
+    };
+  }
+
   removeTrack(trackId: string): void {
     const currentState = this.state();
     if (currentState.tracks.length <= 1) {
       return; // Keep at least one track
     }
+    if (currentState.tracks.find(t => t.id === trackId)?.locked) return;
 
-    this.state.update(s => ({
+    this.applyEdit('Remove track', s => ({
       ...s,
       tracks: s.tracks.filter(t => t.id !== trackId)
     }));
@@ -123,17 +406,134 @@ export class TimelineComponent {
 
   // Zoom controls
   zoomIn(): void {
-    this.state.update(s => ({
-      ...s,
-      zoomLevel: Math.min(s.zoomLevel + this.ZOOM_STEP, this.MAX_ZOOM)
-    }));
+    this.setZoom(this.state().zoomLevel * this.ZOOM_FACTOR);
   }
 
   zoomOut(): void {
-    this.state.update(s => ({
-      ...s,
-      zoomLevel: Math.max(s.zoomLevel - this.ZOOM_STEP, this.MIN_ZOOM)
-    }));
+    this.setZoom(this.state().zoomLevel / this.ZOOM_FACTOR);
+  }
+
+  /**
+   * Change the zoom level while the time under the anchor stays at the same place on screen
+   * The anchor is in pixels from the left of the scroll viewport, by default the playhead when it is in view
+   * and the middle of the view otherwise
+   */
+  setZoom(zoomLevel: number, anchorX: number = this.getDefaultZoomAnchor()): void {
+    const { scrollLeft } = this.viewport();
+    const anchorTime = (scrollLeft + anchorX - this.TRACK_HEADER_WIDTH) / this.pixelsPerMillisecond();
+
+    this.state.update(s => ({ ...s, zoomLevel: Math.max(this.MIN_ZOOM, Math.min(zoomLevel, this.MAX_ZOOM)) }));
+    this.scrollTimelineTo(anchorTime * this.pixelsPerMillisecond() + this.TRACK_HEADER_WIDTH - anchorX);
+  }
+
+  onZoomSliderInput(event: Event): void {
+    const position = Number((event.target as HTMLInputElement).value) / this.ZOOM_SLIDER_STEPS;
+    this.setZoom(Math.exp(Math.log(this.MIN_ZOOM) + position * (Math.log(this.MAX_ZOOM) - Math.log(this.MIN_ZOOM))));
+  }
+
+  // Show the whole timeline, up to the end of the last item
+  zoomToFit(): void {
+    this.zoomToRange(0, this.timelineWidth() / this.pixelsPerMillisecond());
+  }
+
+  zoomToSelection(): void {
+    const selectedIds = this.state().selectedItemIds;
+    const selected = this.state().tracks.flatMap(t => t.items).filter(i => selectedIds.includes(i.id));
+    if (selected.length === 0) return;
+
+    this.zoomToRange(
+      Math.min(...selected.map(i => i.startTime)),
+      Math.max(...selected.map(i => i.startTime + i.duration))
+    );
+  }
+
+  // Ctrl+wheel zooms around the pointer, trackpad pinches arrive as wheel events with the Ctrl key set
+  onTimelineWheel(event: WheelEvent): void {
+    if (!event.ctrlKey) return;
+    event.preventDefault();
+
+    const pixels = event.deltaMode === 1 ? event.deltaY * 16 : event.deltaY; // deltaMode 1 counts lines
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    this.setZoom(this.state().zoomLevel * Math.exp(-pixels * this.WHEEL_ZOOM_SPEED), event.clientX - rect.left);
+  }
+
+  // A second finger turns any touch gesture into a pinch zoom around the middle of the two fingers
+  onTimelineTouchMove(event: TouchEvent): void {
+    if (event.touches.length !== 2) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const [first, second] = [event.touches[0], event.touches[1]];
+    const distance = Math.hypot(second.clientX - first.clientX, second.clientY - first.clientY);
+    if (!this.pinch) {
+      this.cancelGesture();
+      this.pinch = { distance, zoomLevel: this.state().zoomLevel };
+      return;
+    }
+
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const centerX = (first.clientX + second.clientX) / 2 - rect.left;
+    this.setZoom(this.pinch.zoomLevel * distance / Math.max(1, this.pinch.distance), centerX);
+  }
+
+  onTimelineTouchEnd(event: TouchEvent): void {
+    if (event.touches.length < 2) {
+      this.pinch = null;
+    }
+  }
+
+  // Safari reports trackpad pinches as gesture events with a scale instead of Ctrl+wheel
+  onTimelineGestureStart(event: Event): void {
+    event.preventDefault();
+    this.pinch = { distance: 1, zoomLevel: this.state().zoomLevel };
+  }
+
+  onTimelineGestureChange(event: Event): void {
+    if (!this.pinch) return;
+    event.preventDefault();
+
+    const gesture = event as Event & { scale: number; clientX: number };
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    this.setZoom(this.pinch.zoomLevel * gesture.scale, gesture.clientX - rect.left);
+  }
+
+  onTimelineGestureEnd(): void {
+    this.pinch = null;
+  }
+
+  /**
+   * Zoom so the range fills the view and scroll it into place
+   */
+  private zoomToRange(start: number, end: number): void {
+    const available = this.viewport().width - this.TRACK_HEADER_WIDTH - 2 * this.ZOOM_FIT_MARGIN_PX;
+    if (end <= start || available <= 0) return;
+
+    const zoomLevel = Math.max(this.MIN_ZOOM, Math.min(available / (end - start) * 1000, this.MAX_ZOOM));
+    this.state.update(s => ({ ...s, zoomLevel }));
+    this.scrollTimelineTo(start * this.pixelsPerMillisecond() - this.ZOOM_FIT_MARGIN_PX);
+  }
+
+  private getDefaultZoomAnchor(): number {
+    const { scrollLeft, width } = this.viewport();
+    const playheadX = this.playheadVisualPosition() - scrollLeft;
+    return playheadX >= 0 && playheadX <= width ? playheadX : width / 2;
+  }
+
+  /**
+   * Scroll the timeline horizontally once the new zoom has been rendered
+   * The viewport is updated right away so that further zoom steps before the render start from the new position
+   */
+  private scrollTimelineTo(scrollLeft: number): void {
+    const position = Math.max(0, scrollLeft);
+    this.viewport.update(v => ({ ...v, scrollLeft: position }));
+
+    afterNextRender(() => {
+      const element = this.timelineScroll?.nativeElement;
+      if (element) {
+        element.scrollLeft = position;
+        this.updateViewport();
+      }
+    }, { injector: this.injector });
   }
 
   // Utility method to extract coordinates from mouse or touch events
@@ -160,10 +560,7 @@ export class TimelineComponent {
     const x = coords.clientX - rect.left;
     const newPosition = x / this.pixelsPerMillisecond();
 
-    this.state.update(s => ({
-      ...s,
-      playheadPosition: Math.max(0, Math.min(newPosition, s.totalDuration))
-    }));
+    this.seekToFrame(this.snapPlayhead(newPosition, event.shiftKey));
   }
 
   onPlayheadPointerDown(event: MouseEvent | TouchEvent): void {
@@ -177,8 +574,62 @@ export class TimelineComponent {
   onMediaItemPointerDown(event: MouseEvent | TouchEvent, item: MediaItem, track: Track): void {
     const target = event.target as HTMLElement;
 
+    // Items on a locked track can be selected but not cut, trimmed or moved
+    if (track.locked) {
+      if (event.shiftKey) {
+        this.selectRange(item.id, track.id);
+      } else if (event.ctrlKey || event.metaKey) {
+        this.toggleItemSelection(item.id);
+      } else {
+        this.selectMediaItem(item.id);
+      }
+      event.preventDefault();
+      return;
+    }
+
+    // Razor tool splits the item at the clicked time instead of starting a drag or resize
+    if (this.toolMode() === 'razor') {
+      const coords = this.getEventCoordinates(event);
+      const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+      const clickedTime = item.startTime + (coords.clientX - rect.left) / this.pixelsPerMillisecond();
+      this.splitItems(clickedTime, [item.id]);
+      event.preventDefault();
+      return;
+    }
+
+    // Slip and slide tools edit the item by the distance dragged, the item itself is not picked up
+    const tool = this.toolMode();
+    if (tool === 'slip' || tool === 'slide') {
+      const coords = this.getEventCoordinates(event);
+      this.gestureStartState = this.state();
+      this.trimGesture = { tool, itemId: item.id, startX: coords.clientX };
+      this.updateTrimReadout(coords);
+      event.preventDefault();
+      return;
+    }
+
+    // Roll tool moves the cut at the pressed edge handle, or at the nearer edge of the item
+    if (tool === 'roll') {
+      const coords = this.getEventCoordinates(event);
+      const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+      const isLeftEdge = target.classList.contains('resize-handle')
+        ? target.classList.contains('resize-handle-left')
+        : coords.clientX - rect.left < rect.width / 2;
+      const { previous, next } = this.editService.findAdjacentItems(track, item);
+      const [before, after] = isLeftEdge ? [previous, item] : [item, next];
+
+      if (before && after) {
+        this.gestureStartState = this.state();
+        this.trimGesture = { tool, itemId: before.id, startX: coords.clientX, nextItemId: after.id };
+        this.updateTrimReadout(coords);
+      }
+      event.preventDefault();
+      return;
+    }
+
     // Check if clicking/touching on resize handle
     if (target.classList.contains('resize-handle')) {
+      this.gestureStartState = this.state();
       this.resizingItem = {
         item,
         edge: target.classList.contains('resize-handle-left') ? 'left' : 'right'
@@ -187,6 +638,18 @@ export class TimelineComponent {
       return;
     }
 
+    // Shift-click selects a range within the track, ctrl/cmd-click toggles the item
+    if (event.shiftKey) {
+      this.selectRange(item.id, track.id);
+      event.preventDefault();
+      return;
+    }
+    if (event.ctrlKey || event.metaKey) {
+      this.toggleItemSelection(item.id);
+      event.preventDefault();
+      return;
+    }
+
     const coords = this.getEventCoordinates(event);
     // Track pointer down position for click vs drag detection
     this.mouseDownPosition = { x: coords.clientX, y: coords.clientY };
@@ -205,16 +668,35 @@ export class TimelineComponent {
     // Convert pixel offset to time offset
     this.dragOffsetTime = clickX / this.pixelsPerMillisecond();
 
+    this.gestureStartState = this.state();
     this.draggedItem = item;
     this.draggedItemOriginalTrackId = track.id;
+    this.dragSourceTrackId = track.id;
+
+    // Dragging a member of a multi-item selection moves the whole group, except what is on locked tracks.
+    // Linked items move with the dragged items
+    const selectedIds = this.state().selectedItemIds;
+    const movingIds = this.withLinkedItemIds(selectedIds.length > 1 && selectedIds.includes(item.id) ? selectedIds : [item.id]);
+    if (movingIds.length > 1) {
+      this.groupDragItems = this.state().tracks
+        .flatMap(t => t.locked ? [] : t.items)
+        .filter(i => movingIds.includes(i.id));
+    }
     event.preventDefault();
   }
 
   onTrackPointerDown(event: MouseEvent | TouchEvent): void {
     // Deselect when clicking/touching track background (not on media item)
+    // and start a marquee selection from that point
     const target = event.target as HTMLElement;
     if (target.classList.contains('track')) {
-      this.deselectMediaItem();
+      const additive = event.shiftKey || event.ctrlKey || event.metaKey;
+      if (!additive) {
+        this.deselectMediaItem();
+      }
+
+      const coords = this.getEventCoordinates(event);
+      this.marqueeStart = { x: coords.clientX, y: coords.clientY, additive };
     }
   }
 
@@ -234,7 +716,31 @@ export class TimelineComponent {
     const x = coords.clientX - rect.left;
     // Calculate the requested start time by subtracting the drag offset
     // This keeps the pointer at the same position within the item where dragging started
-    const requestedStartTime = Math.max(0, x / this.pixelsPerMillisecond() - this.dragOffsetTime);
+    const requestedStartTime = Math.max(0, this.quantizeToFrame(x / this.pixelsPerMillisecond() - this.dragOffsetTime));
+
+    // Either edge of the dragged item snaps, items moving with it are not targets
+    const movingItemIds = this.groupDragItems ? this.groupDragItems.map(m => m.id) : [this.draggedItem.id];
+    const snappedStartTime = this.snapPosition(
+      requestedStartTime,
+      [0, this.draggedItem.duration],
+      this.getSnapTargets(movingItemIds),
+      event.shiftKey
+    );
+
+    if (this.groupDragItems) {
+      this.moveGroup(snappedStartTime);
+      return;
+    }
+
+    // Locked tracks and tracks of another kind don't take drops, the item stays where it was last placed
+    if (track.locked || !this.dragDropService.canPlaceOnTrack(this.draggedItem.type, track)) return;
+
+    const dropMode = this.dragDropService.getDropMode(event);
+    if (dropMode !== 'fit') {
+      this.showDropPreview(dropMode, track, snappedStartTime);
+      return;
+    }
+    this.dropPreview.set(null);
 
     this.state.update(s => {
       const updatedTracks = s.tracks.map(t => {
@@ -242,21 +748,17 @@ export class TimelineComponent {
           // Get all items except the dragged one for collision detection
           const otherItems = t.items.filter(i => i.id !== this.draggedItem!.id);
 
-          // Fix for issue #81: Find snap targets (playhead and items on all tracks)
-          const snapTargets = this.dragDropService.findSnapTargets(
-            this.draggedItem!.id,
-            s.tracks,
-            s.playheadPosition
-          );
-
-          // Calculate valid position and duration considering collisions, gap fitting, and snapping
+          // Calculate valid position and duration considering collisions and gap fitting
           const validPosition = this.dragDropService.getValidDragPosition(
             this.draggedItem!,
-            requestedStartTime,
+            snappedStartTime,
             otherItems,
-            s.totalDuration,
-            snapTargets
+            s.totalDuration
           );
+          // A gap that moved the item away from the snapped position makes the guide misleading
+          if (validPosition.startTime !== snappedStartTime) {
+            this.snapGuide.set(null);
+          }
 
           // Check if item already exists in this track
           const itemExists = t.items.some(i => i.id === this.draggedItem!.id);
@@ -308,6 +810,81 @@ export class TimelineComponent {
     });
   }
 
+  /**
+   * Leave the dragged item where it was and show where an insert or overwrite would place it
+   */
+  private showDropPreview(mode: Exclude<DropMode, 'fit'>, track: Track, requestedStartTime: number): void {
+    const startState = this.gestureStartState;
+    const item = this.draggedItem;
+    if (!startState || !item) return;
+
+    // Undo any fit-mode movement made earlier in this gesture
+    if (this.state().tracks !== startState.tracks) {
+      this.state.update(s => ({ ...s, tracks: startState.tracks }));
+      this.draggedItemOriginalTrackId = this.dragSourceTrackId;
+    }
+
+    let startTime = requestedStartTime;
+
+    if (mode === 'insert') {
+      const targetTrack = startState.tracks.find(t => t.id === track.id) ?? track;
+      startTime = this.editService.resolveInsertTime(
+        { ...targetTrack, items: targetTrack.items.filter(i => i.id !== item.id) },
+        startTime
+      );
+    }
+
+    this.dropPreview.set({ trackId: track.id, startTime, duration: item.duration, mode });
+  }
+
+  /**
+   * Lift the dragged item from its track and insert or overwrite it at the previewed position
+   */
+  private applyDrop(
+    preview: { trackId: string; startTime: number; mode: Exclude<DropMode, 'fit'> },
+    item: MediaItem,
+    startState: TimelineState
+  ): void {
+    const lifted = startState.tracks.map(t => ({ ...t, items: t.items.filter(i => i.id !== item.id) }));
+    const dropped: MediaItem = { ...item, startTime: preview.startTime, trackId: preview.trackId };
+    const tracks = preview.mode === 'insert'
+      ? this.editService.rippleInsert(lifted, dropped, () => this.generateItemId())
+      : this.editService.overwriteItem(lifted, dropped, () => this.generateItemId());
+    const endTime = Math.max(0, ...tracks.flatMap(t => t.items.map(i => i.startTime + i.duration)));
+
+    this.state.update(s => ({ ...s, tracks, totalDuration: Math.max(s.totalDuration, endTime) }));
+  }
+
+  /**
+   * Move every selected item by the same offset, keeping each one on its own track
+   */
+  private moveGroup(requestedStartTime: number): void {
+    if (!this.draggedItem || !this.groupDragItems) return;
+
+    const members = this.groupDragItems;
+    const draggedItem = this.draggedItem;
+
+    this.state.update(s => {
+      const delta = this.dragDropService.getValidGroupDelta(
+        members,
+        requestedStartTime - draggedItem.startTime,
+        s.tracks,
+        s.totalDuration
+      );
+
+      return {
+        ...s,
+        tracks: s.tracks.map(t => ({
+          ...t,
+          items: t.items.map(i => {
+            const member = members.find(m => m.id === i.id);
+            return member ? { ...i, startTime: member.startTime + delta } : i;
+          })
+        }))
+      };
+    });
+  }
+
   private handleResize(event: MouseEvent | TouchEvent, track: Track): void {
     if (!this.resizingItem) return;
 
@@ -317,16 +894,28 @@ export class TimelineComponent {
     // Fix for issue #83: getBoundingClientRect() returns viewport-relative coordinates,
     // and coords.clientX is also viewport-relative, so we don't need to add scrollLeft
     const x = coords.clientX - rect.left;
-    const timeAtCursor = x / this.pixelsPerMillisecond();
+    const timeAtCursor = this.quantizeToFrame(x / this.pixelsPerMillisecond());
 
-    this.state.update(s => {
-      // Fix for issue #87: Find snap targets for resize operations
-      const snapTargets = this.dragDropService.findSnapTargets(
-        this.resizingItem!.item.id,
-        s.tracks,
-        s.playheadPosition
-      );
+    // Fix for issue #87: Find snap targets for resize operations
+    const snapTargets = this.getSnapTargets([this.resizingItem.item.id]);
+
+    // Ripple trims are recomputed from the state at the start of the gesture, the later items follow the edge
+    if (this.rippleMode() && this.gestureStartState) {
+      const startTracks = this.gestureStartState.tracks;
+      const { item, edge } = this.resizingItem;
+      const edgeTime = this.snapPosition(timeAtCursor, [0], snapTargets, event.shiftKey);
+      this.state.update(s => ({
+        ...s,
+        tracks: this.trimLinkedItems(
+          this.editService.rippleTrim(startTracks, item.id, edge, Math.max(0, edgeTime)),
+          startTracks,
+          item.id
+        )
+      }));
+      return;
+    }
 
+    this.state.update(s => {
       const updatedTracks = s.tracks.map(t => {
         if (t.id === track.id) {
           // Get resize bounds considering adjacent items
@@ -344,23 +933,7 @@ export class TimelineComponent {
                 if (this.resizingItem!.edge === 'left') {
                   // Fix for issue #89: Handle mediaStartTime when resizing from left
                   // Apply snapping to left edge (start time)
-                  let newStartTime = Math.max(
-                    bounds.minTime,
-                    Math.min(timeAtCursor, bounds.maxTime)
-                  );
-
-                  // Apply snapping if within snap distance
-                  let minDistance = this.dragDropService.SNAP_DISTANCE_MS;
-                  for (const target of snapTargets) {
-                    const distance = Math.abs(newStartTime - target);
-                    if (distance < minDistance) {
-                      minDistance = distance;
-                      // Only snap if within bounds
-                      if (target >= bounds.minTime && target <= bounds.maxTime) {
-                        newStartTime = target;
-                      }
-                    }
-                  }
+                  const newStartTime = this.snapEdgeWithinBounds(timeAtCursor, bounds, snapTargets, event.shiftKey);
 
                   // Calculate how much the timeline position is changing
                   const deltaTime = newStartTime - i.startTime;
@@ -379,58 +952,42 @@ export class TimelineComponent {
 
                     // Ensure we don't exceed maxDuration
                     if (i.maxDuration && finalDuration > i.maxDuration) {
-                      return {
+                      return this.keepImageKeyframes(i, {
                         ...i,
                         startTime: finalStartTime + (finalDuration - i.maxDuration),
                         duration: i.maxDuration,
                         mediaStartTime: 0
-                      };
+                      });
                     }
 
-                    return {
+                    return this.keepImageKeyframes(i, {
                       ...i,
                       startTime: finalStartTime,
                       duration: finalDuration,
                       mediaStartTime: 0
-                    };
+                    });
                   }
 
                   // Ensure media end doesn't exceed maxDuration
                   if (i.maxDuration && newMediaStartTime + newDuration > i.maxDuration) {
                     const maxAllowedDuration = i.maxDuration - newMediaStartTime;
-                    return {
+                    return this.keepImageKeyframes(i, {
                       ...i,
                       startTime: i.startTime + (i.duration - maxAllowedDuration),
                       duration: maxAllowedDuration,
                       mediaStartTime: newMediaStartTime
-                    };
+                    });
                   }
 
-                  return {
+                  return this.keepImageKeyframes(i, {
                     ...i,
                     startTime: newStartTime,
                     duration: newDuration,
                     mediaStartTime: newMediaStartTime
-                  };
+                  });
                 } else {
                   // Fix for issue #87: Apply snapping to right edge (end time)
-                  let newEndTime = Math.max(
-                    bounds.minTime,
-                    Math.min(timeAtCursor, bounds.maxTime)
-                  );
-
-                  // Apply snapping if within snap distance
-                  let minDistance = this.dragDropService.SNAP_DISTANCE_MS;
-                  for (const target of snapTargets) {
-                    const distance = Math.abs(newEndTime - target);
-                    if (distance < minDistance) {
-                      minDistance = distance;
-                      // Only snap if within bounds
-                      if (target >= bounds.minTime && target <= bounds.maxTime) {
-                        newEndTime = target;
-                      }
-                    }
-                  }
+                  const newEndTime = this.snapEdgeWithinBounds(timeAtCursor, bounds, snapTargets, event.shiftKey);
 
                   const newDuration = newEndTime - i.startTime;
 
@@ -449,11 +1006,23 @@ export class TimelineComponent {
         return t;
       });
 
-      return { ...s, tracks: updatedTracks };
+      return {
+        ...s,
+        tracks: this.gestureStartState
+          ? this.trimLinkedItems(updatedTracks, this.gestureStartState.tracks, this.resizingItem!.item.id)
+          : updatedTracks
+      };
     });
   }
 
   onPointerUp(event: MouseEvent | TouchEvent): void {
+    let isClick = false;
+
+    const trackDropIndex = this.trackDropIndex();
+    if (this.trackDrag && trackDropIndex !== null) {
+      this.dropTrack(this.trackDrag.trackId, trackDropIndex);
+    }
+
     // Detect if this was a click/tap (not a drag) on a media item
     if (this.draggedItem && this.mouseDownPosition) {
       const coords = this.getEventCoordinates(event);
@@ -463,12 +1032,68 @@ export class TimelineComponent {
 
       // If pointer moved less than 5 pixels, consider it a click/tap
       if (distance < 5) {
+        isClick = true;
         this.selectMediaItem(this.draggedItem.id);
       }
     }
 
+    if (this.marqueeStart) {
+      this.finishMarqueeSelection();
+    }
+
+    const preview = this.dropPreview();
+    if (preview && !isClick && this.draggedItem && this.gestureStartState) {
+      this.applyDrop(preview, this.draggedItem, this.gestureStartState);
+    }
+
+    if (this.gestureStartState) {
+      this.state.update(s => this.withValidTransitions(s));
+    }
+
+    // A whole drag or resize gesture is recorded as a single history step
+    if (this.gestureStartState && this.hasDocumentChanged(this.gestureStartState, this.state())) {
+      const resizeLabel = this.rippleMode() ? 'Ripple trim' : 'Resize item';
+      const moveLabel = preview
+        ? (preview.mode === 'insert' ? 'Insert item' : 'Overwrite item')
+        : this.groupDragItems ? 'Move items' : 'Move item';
+      const trimLabels = { slip: 'Slip item', slide: 'Slide item', roll: 'Roll edit' };
+      const trimLabel = this.trimGesture ? trimLabels[this.trimGesture.tool] : '';
+      const label = this.markerDrag ? 'Move marker'
+        : this.keyframeDrag ? 'Move keyframe'
+        : this.transitionResize ? 'Resize transition'
+        : this.trimGesture ? trimLabel : this.resizingItem ? resizeLabel : moveLabel;
+      this.history.record(label, this.gestureStartState);
+    }
+
+    this.resetGesture();
+  }
+
+  // Undo whatever the current pointer gesture changed and end it without recording history
+  private cancelGesture(): void {
+    if (this.gestureStartState) {
+      const startState = this.gestureStartState;
+      this.state.update(s => ({ ...s, tracks: startState.tracks }));
+    }
+    this.marqueeStart = null;
+    this.marqueeRect.set(null);
+    this.resetGesture();
+  }
+
+  private resetGesture(): void {
+    this.gestureStartState = null;
+    this.snapGuide.set(null);
+    this.groupDragItems = null;
     this.draggedItem = null;
     this.draggedItemOriginalTrackId = null;
+    this.dragSourceTrackId = null;
+    this.dropPreview.set(null);
+    this.trimGesture = null;
+    this.trimReadout.set(null);
+    this.transitionResize = null;
+    this.keyframeDrag = null;
+    this.markerDrag = null;
+    this.trackDrag = null;
+    this.trackDropIndex.set(null);
     this.dragOffsetTime = 0;
     this.isDraggingPlayhead = false;
     this.isDraggingFromRuler = false;
@@ -477,6 +1102,42 @@ export class TimelineComponent {
   }
 
   onDocumentPointerMove(event: MouseEvent | TouchEvent): void {
+    if (this.marqueeStart) {
+      const coords = this.getEventCoordinates(event);
+      this.marqueeRect.set({
+        left: Math.min(this.marqueeStart.x, coords.clientX),
+        top: Math.min(this.marqueeStart.y, coords.clientY),
+        width: Math.abs(coords.clientX - this.marqueeStart.x),
+        height: Math.abs(coords.clientY - this.marqueeStart.y)
+      });
+      return;
+    }
+
+    if (this.markerDrag) {
+      this.handleMarkerDrag(this.getEventCoordinates(event), event.shiftKey);
+      return;
+    }
+
+    if (this.trackDrag) {
+      this.trackDropIndex.set(this.findTrackBoundaryAt(this.getEventCoordinates(event).clientY));
+      return;
+    }
+
+    if (this.keyframeDrag) {
+      this.handleKeyframeDrag(this.getEventCoordinates(event));
+      return;
+    }
+
+    if (this.transitionResize) {
+      this.handleTransitionResize(this.getEventCoordinates(event));
+      return;
+    }
+
+    if (this.trimGesture) {
+      this.handleTrimGesture(this.getEventCoordinates(event), event.shiftKey);
+      return;
+    }
+
     if (this.isDraggingPlayhead || this.isDraggingFromRuler) {
       // Fix for issue #50: Use ViewChild reference to ensure we use the exact same element as onRulerPointerDown
       if (!this.timelineRuler) {
@@ -491,10 +1152,7 @@ export class TimelineComponent {
       const x = coords.clientX - rect.left;
       const newPosition = x / this.pixelsPerMillisecond();
 
-      this.state.update(s => ({
-        ...s,
-        playheadPosition: Math.max(0, Math.min(newPosition, s.totalDuration))
-      }));
+      this.seekToFrame(this.snapPlayhead(newPosition, event.shiftKey));
     }
 
     // Fix for issue #96: Handle media item dragging and resizing at document level for touch events
@@ -518,6 +1176,74 @@ export class TimelineComponent {
     }
   }
 
+  /**
+   * Slip, slide or roll from the state at the start of the gesture by the distance dragged
+   * Slipping moves the source with the pointer, so dragging right shows earlier media
+   */
+  private handleTrimGesture(coords: { clientX: number; clientY: number }, bypassSnapping = false): void {
+    const gesture = this.trimGesture;
+    const startState = this.gestureStartState;
+    if (!gesture || !startState) return;
+
+    const startTracks = startState.tracks;
+    const offset = this.quantizeToFrame((coords.clientX - gesture.startX) / this.pixelsPerMillisecond());
+    let tracks: Track[];
+    if (gesture.tool === 'slip') {
+      tracks = this.editService.slipItem(startTracks, gesture.itemId, -offset);
+    } else if (gesture.tool === 'slide') {
+      tracks = this.editService.slideItem(startTracks, gesture.itemId, offset);
+    } else {
+      const previous = startTracks.flatMap(t => t.items).find(i => i.id === gesture.itemId);
+      if (!previous) return;
+
+      // The cut snaps like an item edge, ignoring the two items it belongs to
+      const cutTime = this.snapPosition(
+        previous.startTime + previous.duration + offset,
+        [0],
+        this.getSnapTargets([previous.id, gesture.nextItemId!]),
+        bypassSnapping
+      );
+      tracks = this.editService.rollEdit(startTracks, previous.id, gesture.nextItemId!, cutTime);
+    }
+
+    this.state.update(s => ({ ...s, tracks }));
+    this.updateTrimReadout(coords);
+  }
+
+  /**
+   * Slip shows the item's source in and out, slide shows its position and the edit points of its neighbours,
+   * roll shows the source out and in on either side of the cut
+   */
+  private updateTrimReadout(coords: { clientX: number; clientY: number }): void {
+    const gesture = this.trimGesture;
+    const track = gesture ? this.findTrackContainingItem(gesture.itemId) : null;
+    const item = track?.items.find(i => i.id === gesture!.itemId);
+    if (!gesture || !track || !item) return;
+
+    const sourceIn = (i: MediaItem) => i.mediaStartTime || 0;
+    const entries: { label: string; time: number }[] = [];
+    if (gesture.tool === 'slip') {
+      entries.push({ label: 'In', time: sourceIn(item) }, { label: 'Out', time: sourceIn(item) + item.duration });
+    } else if (gesture.tool === 'roll') {
+      const next = track.items.find(i => i.id === gesture.nextItemId);
+      entries.push({ label: 'Out', time: sourceIn(item) + item.duration });
+      if (next) {
+        entries.push({ label: 'In', time: sourceIn(next) });
+      }
+    } else {
+      const { previous, next } = this.editService.findAdjacentItems(track, item);
+      if (previous) {
+        entries.push({ label: 'Previous out', time: sourceIn(previous) + previous.duration });
+      }
+      entries.push({ label: 'Start', time: item.startTime });
+      if (next) {
+        entries.push({ label: 'Next in', time: sourceIn(next) });
+      }
+    }
+
+    this.trimReadout.set({ x: coords.clientX, y: coords.clientY, entries });
+  }
+
   // Helper method to find which track is at the given Y coordinate
   private findTrackAtCoordinates(coords: { clientX: number; clientY: number }): Track | null {
     const trackElements = document.querySelectorAll('.track');
@@ -526,7 +1252,8 @@ export class TimelineComponent {
       if (coords.clientY >= rect.top && coords.clientY <= rect.bottom) {
         const trackIndex = Array.from(trackElements).indexOf(trackElement);
         const tracks = this.state().tracks;
-        if (trackIndex >= 0 && trackIndex < tracks.length) {
+        // Locked tracks are not drop targets
+        if (trackIndex >= 0 && trackIndex < tracks.length && !tracks[trackIndex].locked) {
           return tracks[trackIndex];
         }
       }
@@ -534,6 +1261,15 @@ export class TimelineComponent {
     return null;
   }
 
+  // The boundary between track headers closest to the given Y coordinate
+  private findTrackBoundaryAt(clientY: number): number {
+    const headers = Array.from(document.querySelectorAll('.track-header'));
+    return headers.filter(header => {
+      const rect = header.getBoundingClientRect();
+      return clientY > (rect.top + rect.bottom) / 2;
+    }).length;
+  }
+
   // Helper method to find the track containing a specific item
   private findTrackContainingItem(itemId: string): Track | null {
     const currentState = this.state();
@@ -546,6 +1282,18 @@ export class TimelineComponent {
   }
 
   // Helper methods
+  updateViewport(): void {
+    const element = this.timelineScroll?.nativeElement;
+    if (element) {
+      this.viewport.set({ scrollLeft: element.scrollLeft, width: element.clientWidth });
+    }
+  }
+
+  // Video items show their filmstrip in place of the icon once frames of their source are available
+  hasFilmstrip(item: MediaItem): boolean {
+    return item.type === MediaType.VIDEO && !!item.sourceId && this.filmstripService.sourcesWithFrames().has(item.sourceId);
+  }
+
   getItemStyle(item: MediaItem) {
     return {
       left: `${item.startTime * this.pixelsPerMillisecond()}px`,
@@ -557,7 +1305,19 @@ export class TimelineComponent {
     return `media-${type}`;
   }
 
+  /**
+   * Format a time for the toolbar, the ruler and item labels in the chosen display mode
+   */
   formatTime(milliseconds: number): string {
+    const mode = this.timeDisplayMode();
+    const { frameRate, dropFrame } = this.sequence();
+    if (mode === 'timecode') {
+      return this.timecodeService.msToTimecode(milliseconds, frameRate, dropFrame);
+    }
+    if (mode === 'frames') {
+      return `${this.timecodeService.msToFrames(milliseconds, frameRate)}f`;
+    }
+
     const seconds = Math.floor(milliseconds / 1000);
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
@@ -571,13 +1331,23 @@ export class TimelineComponent {
    */
   private getMarkerInterval(): number {
     // Minimum spacing between markers in pixels to prevent overlap
-    // Enough space for "0:00.000" text (about 50-60px)
-    const MIN_MARKER_SPACING_PX = 60;
+    // Enough space for "0:00.000" text (about 50-60px), timecodes need more
+    const MIN_MARKER_SPACING_PX = this.timeDisplayMode() === 'timecode' ? 80 : 60;
 
     // Calculate how much time represents MIN_MARKER_SPACING_PX at current zoom
     const pixelsPerMs = this.pixelsPerMillisecond();
     const minTimeSpacing = MIN_MARKER_SPACING_PX / pixelsPerMs;
 
+    // Timecode and frame markers step by whole frames so every label falls on a frame
+    if (this.timeDisplayMode() !== 'seconds') {
+      const { frameRate } = this.sequence();
+      const nominalRate = Math.round(frameRate);
+      const frameSteps = [1, 2, 5, 10, ...[1, 2, 5, 10, 30, 60].map(seconds => seconds * nominalRate)];
+      const frameStep = frameSteps.find(step => this.timecodeService.framesToMs(step, frameRate) >= minTimeSpacing)
+        ?? Math.ceil(minTimeSpacing / this.timecodeService.framesToMs(60 * nominalRate, frameRate)) * 60 * nominalRate;
+      return this.timecodeService.framesToMs(frameStep, frameRate);
+    }
+
     // Define possible intervals (in ms): 100ms, 250ms, 500ms, 1s, 2s, 5s, 10s, 30s, 60s
     const intervals = [100, 250, 500, 1000, 2000, 5000, 10000, 30000, 60000];
 
@@ -596,9 +1366,16 @@ export class TimelineComponent {
     const markers: { position: number; label: string }[] = [];
     const stepMs = this.getMarkerInterval(); // Dynamic interval based on zoom level
 
+    // Only markers in and around the view are created, a zoomed in hour would need thousands
+    const { start, end } = this.visibleTimeRange();
+    const margin = end - start;
+    const first = Math.max(0, Math.floor((start - margin) / stepMs));
+    const last = Math.min(this.state().totalDuration, end + margin);
+
     // Fix for issue #85: Do not show the last time mark at totalDuration
     // to prevent container expansion from the text label
-    for (let time = 0; time < this.state().totalDuration; time += stepMs) {
+    for (let index = first; index * stepMs < last; index++) {
+      const time = index * stepMs;
       markers.push({
         position: time * this.pixelsPerMillisecond(),
         label: this.formatTime(time)
@@ -613,12 +1390,31 @@ export class TimelineComponent {
     const currentState = this.state();
     const track = currentState.tracks.find(t => t.id === trackId);
 
-    if (!track) return;
+    if (!track || track.locked || !this.dragDropService.canPlaceOnTrack(type, track)) return;
 
     const playheadTime = currentState.playheadPosition;
     const totalDuration = currentState.totalDuration;
     const newItemDuration = type === MediaType.IMAGE ? 5000 : 3000;
 
+    if (this.rippleMode()) {
+      const insertedItem: MediaItem = {
+        id: this.generateItemId(),
+        type,
+        startTime: playheadTime,
+        duration: newItemDuration,
+        trackId,
+        name: `${type} placeholder`,
+        isPlaceholder: true
+      };
+      if (type === MediaType.VIDEO) {
+        insertedItem.maxDuration = 10000;
+      } else if (type === MediaType.AUDIO) {
+        insertedItem.maxDuration = 15000;
+      }
+      this.rippleInsertItem('Insert item', insertedItem);
+      return;
+    }
+
     // Determine the start time for the new item using the service
     const startTime = this.dragDropService.calculateNewItemStartTime(
       playheadTime,
@@ -666,7 +1462,7 @@ export class TimelineComponent {
       newItem.maxDuration = Math.min(15000, adjustedMaxAllowedDuration); // 15 seconds default for audio
     }
 
-    this.state.update(s => ({
+    this.applyEdit('Add item', s => ({
       ...s,
       tracks: s.tracks.map(t =>
         t.id === trackId
@@ -677,56 +1473,633 @@ export class TimelineComponent {
   }
 
   removeMediaItem(itemId: string, trackId: string): void {
-    this.state.update(s => ({
+    if (this.state().tracks.find(t => t.id === trackId)?.locked) return;
+    const itemIds = this.withLinkedItemIds([itemId]);
+
+    if (this.rippleMode()) {
+      this.applyEdit('Ripple delete item', s => ({
+        ...s,
+        tracks: this.editService.rippleDelete(s.tracks, itemIds),
+        selectedItemIds: s.selectedItemIds.filter(id => !itemIds.includes(id))
+      }));
+      return;
+    }
+
+    this.applyEdit('Delete item', s => ({
       ...s,
-      tracks: s.tracks.map(t =>
-        t.id === trackId
-          ? { ...t, items: t.items.filter(i => i.id !== itemId) }
-          : t
-      ),
+      tracks: s.tracks.map(t => ({ ...t, items: t.items.filter(i => !itemIds.includes(i.id)) })),
       // Deselect if removing selected item
-      selectedItemId: s.selectedItemId === itemId ? null : s.selectedItemId
+      selectedItemIds: s.selectedItemIds.filter(id => !itemIds.includes(id))
+    }));
+  }
+
+  removeSelectedItems(): void {
+    // Selected items on locked tracks stay, and stay selected
+    const selectedIds = this.withLinkedItemIds(this.getUnlockedItemIds(this.state().selectedItemIds));
+    if (selectedIds.length === 0) return;
+
+    const label = selectedIds.length > 1 ? 'Delete items' : 'Delete item';
+    this.applyEdit(this.rippleMode() ? `Ripple ${label.toLowerCase()}` : label, s => ({
+      ...s,
+      tracks: this.rippleMode()
+        ? this.editService.rippleDelete(s.tracks, selectedIds)
+        : s.tracks.map(t => ({
+            ...t,
+            items: t.items.filter(i => !selectedIds.includes(i.id))
+          })),
+      selectedItemIds: s.selectedItemIds.filter(id => !selectedIds.includes(id))
+    }));
+  }
+
+  // Items and transitions on a locked track can be looked at but not edited
+  private isOnLockedTrack(itemOrTransitionId: string): boolean {
+    return this.state().tracks.some(t => t.locked && (
+      t.items.some(i => i.id === itemOrTransitionId) ||
+      !!t.transitions?.some(transition => transition.id === itemOrTransitionId)
+    ));
+  }
+
+  private getUnlockedItemIds(itemIds: string[]): string[] {
+    return this.state().tracks
+      .filter(t => !t.locked)
+      .flatMap(t => t.items)
+      .filter(i => itemIds.includes(i.id))
+      .map(i => i.id);
+  }
+
+  /**
+   * Add the items linked to the given ones, items placed together from one source are moved, cut and deleted together
+   * Linked items on locked tracks stay where they are
+   */
+  private withLinkedItemIds(itemIds: string[]): string[] {
+    const linkIds = this.state().tracks
+      .flatMap(t => t.items)
+      .filter(i => i.linkId && itemIds.includes(i.id))
+      .map(i => i.linkId);
+    const linkedIds = this.state().tracks
+      .flatMap(t => t.locked ? [] : t.items)
+      .filter(i => linkIds.includes(i.linkId) && !itemIds.includes(i.id))
+      .map(i => i.id);
+    return [...itemIds, ...linkedIds];
+  }
+
+  /**
+   * Give the items linked to a trimmed item its new start, duration and source in point
+   * Only items that were in step with it when the trim started follow, and only where their track has room
+   */
+  private trimLinkedItems(tracks: Track[], startTracks: Track[], itemId: string): Track[] {
+    const startItems = startTracks.flatMap(t => t.items);
+    const original = startItems.find(i => i.id === itemId);
+    const trimmed = tracks.flatMap(t => t.items).find(i => i.id === itemId);
+    if (!original?.linkId || !trimmed) return tracks;
+
+    const followerIds = startItems
+      .filter(i => i.id !== itemId && i.linkId === original.linkId)
+      .filter(i => i.startTime === original.startTime && i.duration === original.duration &&
+        (i.mediaStartTime ?? 0) === (original.mediaStartTime ?? 0))
+      .map(i => i.id);
+
+    return tracks.map(t => t.locked || !t.items.some(i => followerIds.includes(i.id)) ? t : {
+      ...t,
+      items: t.items.map(i => {
+        if (!followerIds.includes(i.id)) return i;
+        const followed: MediaItem = { ...i, startTime: trimmed.startTime, duration: trimmed.duration };
+        if (trimmed.mediaStartTime !== undefined) followed.mediaStartTime = trimmed.mediaStartTime;
+        return t.items.some(other => other.id !== i.id && this.dragDropService.itemsOverlap(other, followed)) ? i : followed;
+      })
+    });
+  }
+
+  /**
+   * Insert an item and push everything after it right, growing the timeline when the items no longer fit
+   */
+  private rippleInsertItem(label: string, item: MediaItem, withLinkedAudio = false): void {
+    this.applyEdit(label, s => {
+      let tracks = this.editService.rippleInsert(s.tracks, item, () => this.generateItemId());
+      if (withLinkedAudio) {
+        tracks = this.addLinkedAudio(tracks, item);
+      }
+      const endTime = Math.max(...tracks.flatMap(t => t.items.map(i => i.startTime + i.duration)));
+      return { ...s, tracks, totalDuration: Math.max(s.totalDuration, endTime) };
+    });
+  }
+
+  /**
+   * Place the audio of a video item on the nearest audio or mixed track that is free over the item,
+   * adding an audio track at the bottom when there is none
+   */
+  private addLinkedAudio(tracks: Track[], videoItem: MediaItem): Track[] {
+    const fromIndex = tracks.findIndex(t => t.id === videoItem.trackId);
+    let audioTrack = this.dragDropService.findFreeTrack(tracks, fromIndex, MediaType.AUDIO, videoItem.startTime, videoItem.duration);
+    if (!audioTrack) {
+      audioTrack = this.createTrack('audio', tracks);
+      tracks = this.dragDropService.sortTracksByKind([...tracks, audioTrack]);
+    }
+
+    const audioItem: MediaItem = {
+      id: this.generateItemId(),
+      type: MediaType.AUDIO,
+      startTime: videoItem.startTime,
+      duration: videoItem.duration,
+      trackId: audioTrack.id,
+      name: videoItem.name
+    };
+    if (videoItem.mediaStartTime !== undefined) audioItem.mediaStartTime = videoItem.mediaStartTime;
+    if (videoItem.maxDuration !== undefined) audioItem.maxDuration = videoItem.maxDuration;
+    if (videoItem.sourceId) audioItem.sourceId = videoItem.sourceId;
+    if (videoItem.linkId) audioItem.linkId = videoItem.linkId;
+    return tracks.map(t => t.id === audioItem.trackId ? { ...t, items: [...t.items, audioItem] } : t);
+  }
+
+  toggleRippleMode(): void {
+    this.rippleMode.update(enabled => !enabled);
+  }
+
+  // Track name editing
+  startTrackRename(trackId: string): void {
+    this.editedTrackNameId.set(trackId);
+    afterNextRender(() => this.trackNameInput?.nativeElement.select(), { injector: this.injector });
+  }
+
+  // Called on Enter and on blur, an empty name keeps the old one
+  commitTrackRename(event: Event): void {
+    const trackId = this.editedTrackNameId();
+    if (!trackId) return;
+    this.editedTrackNameId.set(null);
+
+    const name = (event.target as HTMLInputElement).value.trim();
+    const track = this.state().tracks.find(t => t.id === trackId);
+    if (!track || !name || name === track.name) return;
+
+    this.applyEdit('Rename track', s => ({
+      ...s,
+      tracks: s.tracks.map(t => t.id === trackId ? { ...t, name } : t)
     }));
   }
 
+  cancelTrackRename(): void {
+    this.editedTrackNameId.set(null);
+  }
+
+  // Track reordering, items move along with their track
+  moveTrackUp(trackId: string): void {
+    this.moveTrack(trackId, this.state().tracks.findIndex(t => t.id === trackId) - 1);
+  }
+
+  moveTrackDown(trackId: string): void {
+    this.moveTrack(trackId, this.state().tracks.findIndex(t => t.id === trackId) + 1);
+  }
+
+  onTrackHeaderPointerDown(event: MouseEvent | TouchEvent, trackId: string): void {
+    // Buttons and the name field keep their own behaviour
+    if ((event.target as HTMLElement).closest('button, input')) return;
+
+    this.trackDrag = { trackId };
+    this.trackDropIndex.set(null);
+  }
+
+  // A boundary below the dragged track is one higher than the index the track ends up at
+  private dropTrack(trackId: string, boundary: number): void {
+    const index = this.state().tracks.findIndex(t => t.id === trackId);
+    this.moveTrack(trackId, boundary > index ? boundary - 1 : boundary);
+  }
+
+  // Moves that would put a video track below an audio track, or the other way round, are refused
+  private moveTrack(trackId: string, toIndex: number): void {
+    const tracks = this.state().tracks;
+    const fromIndex = tracks.findIndex(t => t.id === trackId);
+    if (fromIndex < 0 || toIndex < 0 || toIndex >= tracks.length || toIndex === fromIndex) return;
+
+    const reordered = tracks.filter(t => t.id !== trackId);
+    reordered.splice(toIndex, 0, tracks[fromIndex]);
+    if (!this.dragDropService.isInKindOrder(reordered)) return;
+
+    this.applyEdit('Move track', s => ({
+      ...s,
+      tracks: reordered.map((t, order) => t.order === order ? t : { ...t, order })
+    }));
+  }
+
+  toggleTrackSyncLock(trackId: string): void {
+    this.toggleTrackFlag('Toggle sync lock', trackId, 'syncLocked');
+  }
+
+  toggleTrackLock(trackId: string): void {
+    this.toggleTrackFlag('Toggle track lock', trackId, 'locked');
+  }
+
+  toggleTrackMute(trackId: string): void {
+    this.toggleTrackFlag('Toggle mute', trackId, 'muted');
+  }
+
+  toggleTrackSolo(trackId: string): void {
+    this.toggleTrackFlag('Toggle solo', trackId, 'solo');
+  }
+
+  toggleTrackVisibility(trackId: string): void {
+    this.toggleTrackFlag('Toggle track visibility', trackId, 'hidden');
+  }
+
+  // Items left out of the preview and exports are dimmed
+  isItemOutput(item: MediaItem, track: Track): boolean {
+    return this.trackOutput.isItemOutput(item, track, this.state().tracks);
+  }
+
+  private toggleTrackFlag(label: string, trackId: string, flag: TrackFlag): void {
+    this.applyEdit(label, s => ({
+      ...s,
+      tracks: s.tracks.map(t => t.id === trackId ? { ...t, [flag]: !t[flag] } : t)
+    }));
+  }
+
+  // Transition methods
+  getTrackCuts(track: Track): { from: MediaItem; to: MediaItem; time: number }[] {
+    return this.transitionService.getOpenCuts(track);
+  }
+
+  getTransitionOverlays(track: Track): { transition: Transition; left: number; width: number }[] {
+    return (track.transitions ?? []).flatMap(transition => {
+      const items = this.transitionService.findItems(track, transition);
+      if (!items) return [];
+      const range = this.transitionService.getRange(transition, items.from);
+      return [{
+        transition,
+        left: range.start * this.pixelsPerMillisecond(),
+        width: transition.duration * this.pixelsPerMillisecond()
+      }];
+    });
+  }
+
+  addTransition(trackId: string, fromItemId: string, toItemId: string): void {
+    if (this.state().tracks.find(t => t.id === trackId)?.locked) return;
+
+    this.applyEdit('Add transition', s => ({
+      ...s,
+      tracks: this.transitionService.addTransition(s.tracks, trackId, fromItemId, toItemId, this.generateTransitionId())
+    }));
+  }
+
+  openTransitionEditor(transitionId: string): void {
+    this.editedTransitionId.set(transitionId);
+  }
+
+  closeTransitionEditor(): void {
+    this.editedTransitionId.set(null);
+  }
+
+  onTransitionDurationChange(event: Event): void {
+    const seconds = parseFloat((event.target as HTMLInputElement).value);
+    const transitionId = this.editedTransitionId();
+    if (!transitionId || !Number.isFinite(seconds) || this.isOnLockedTrack(transitionId)) return;
+
+    this.applyEdit('Change transition duration', s => ({
+      ...s,
+      tracks: this.transitionService.updateTransition(s.tracks, transitionId, { duration: seconds * 1000 })
+    }));
+  }
+
+  onTransitionAlignmentChange(event: Event): void {
+    const alignment = (event.target as HTMLSelectElement).value as TransitionAlignment;
+    const transitionId = this.editedTransitionId();
+    if (!transitionId || this.isOnLockedTrack(transitionId)) return;
+
+    this.applyEdit('Change transition alignment', s => ({
+      ...s,
+      tracks: this.transitionService.updateTransition(s.tracks, transitionId, { alignment })
+    }));
+  }
+
+  removeTransition(transitionId: string): void {
+    if (this.isOnLockedTrack(transitionId)) return;
+
+    this.applyEdit('Remove transition', s => ({
+      ...s,
+      tracks: this.transitionService.removeTransition(s.tracks, transitionId)
+    }));
+    if (this.editedTransitionId() === transitionId) {
+      this.closeTransitionEditor();
+    }
+  }
+
+  onTransitionPointerDown(event: MouseEvent | TouchEvent, transition: Transition): void {
+    event.stopPropagation();
+    const target = event.target as HTMLElement;
+
+    if (target.classList.contains('transition-handle')) {
+      if (this.isOnLockedTrack(transition.id)) return;
+      this.gestureStartState = this.state();
+      this.transitionResize = {
+        transitionId: transition.id,
+        edge: target.classList.contains('transition-handle-left') ? 'left' : 'right',
+        startX: this.getEventCoordinates(event).clientX,
+        startDuration: transition.duration,
+        alignment: transition.alignment
+      };
+      event.preventDefault();
+      return;
+    }
+
+    this.openTransitionEditor(transition.id);
+  }
+
+  /**
+   * Resize a transition from the state at the start of the gesture by the distance its edge was dragged
+   * A centred transition grows on both sides of the cut, so it changes by twice the distance
+   */
+  private handleTransitionResize(coords: { clientX: number; clientY: number }): void {
+    const resize = this.transitionResize;
+    const startState = this.gestureStartState;
+    if (!resize || !startState) return;
+
+    const delta = (coords.clientX - resize.startX) / this.pixelsPerMillisecond();
+    const signedDelta = resize.edge === 'right' ? delta : -delta;
+    // The dragged edge lands on a frame, a centred transition grows by whole frames on both sides of the cut
+    const sides = resize.alignment === 'center' ? 2 : 1;
+    const duration = this.quantizeToFrame(resize.startDuration / sides + signedDelta) * sides;
+
+    this.state.update(s => ({
+      ...s,
+      tracks: this.transitionService.updateTransition(startState.tracks, resize.transitionId, { duration })
+    }));
+  }
+
+  // Keyframe methods
+  toggleKeyframeLane(itemId: string): void {
+    this.keyframeLaneItemId.update(current => current === itemId ? null : itemId);
+    this.selectedKeyframeId.set(null);
+  }
+
+  getKeyframeLaneItem(track: Track): MediaItem | null {
+    const itemId = this.keyframeLaneItemId();
+    return track.items.find(i => i.id === itemId) ?? null;
+  }
+
+  onKeyframeParameterChange(event: Event): void {
+    this.keyframeParameter.set((event.target as HTMLSelectElement).value as KeyframeParameter);
+    this.selectedKeyframeId.set(null);
+  }
+
+  /**
+   * Keyframes of the shown parameter inside the visible part of the item, positioned in the lane's value graph
+   */
+  getKeyframeMarkers(item: MediaItem): { keyframe: Keyframe; left: number; top: number }[] {
+    const parameter = this.keyframeParameter();
+    return (item.keyframes?.[parameter] ?? []).flatMap(keyframe => {
+      const offset = this.keyframeService.toTimelineTime(item, keyframe.time) - item.startTime;
+      if (offset < 0 || offset > item.duration) return [];
+      return [{ keyframe, left: offset * this.pixelsPerMillisecond(), top: this.getKeyframeY(parameter, keyframe.value) }];
+    });
+  }
+
+  // SVG polyline points of the shown parameter across the item, sampled about every 4 pixels
+  getKeyframeCurve(item: MediaItem): string {
+    const parameter = this.keyframeParameter();
+    const width = item.duration * this.pixelsPerMillisecond();
+    const samples = Math.max(2, Math.min(200, Math.ceil(width / 4)));
+    const points: string[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const time = item.startTime + item.duration * i / samples;
+      const value = this.keyframeService.evaluate(item, parameter, time);
+      points.push(`${width * i / samples},${this.getKeyframeY(parameter, value)}`);
+    }
+    return points.join(' ');
+  }
+
+  getKeyframeUnit(): string {
+    return this.keyframeService.getDefinition(this.keyframeParameter()).unit;
+  }
+
+  getSelectedKeyframe(item: MediaItem): Keyframe | null {
+    const keyframeId = this.selectedKeyframeId();
+    return item.keyframes?.[this.keyframeParameter()]?.find(k => k.id === keyframeId) ?? null;
+  }
+
+  addKeyframeAtPlayhead(): void {
+    const itemId = this.keyframeLaneItemId();
+    if (!itemId || this.isOnLockedTrack(itemId)) return;
+
+    const id = this.generateKeyframeId();
+    this.applyEdit('Add keyframe', s => ({
+      ...s,
+      tracks: this.keyframeService.addKeyframe(s.tracks, itemId, this.keyframeParameter(), s.playheadPosition, id)
+    }));
+    const item = this.state().tracks.flatMap(t => t.items).find(i => i.id === itemId);
+    if (item?.keyframes?.[this.keyframeParameter()]?.some(k => k.id === id)) {
+      this.selectedKeyframeId.set(id);
+    }
+  }
+
+  onKeyframeValueChange(event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (Number.isFinite(value)) {
+      this.updateSelectedKeyframe('Change keyframe value', { value });
+    }
+  }
+
+  onKeyframeInterpolationChange(event: Event): void {
+    const interpolation = (event.target as HTMLSelectElement).value as KeyframeInterpolation;
+    this.updateSelectedKeyframe('Change keyframe interpolation', { interpolation });
+  }
+
+  removeSelectedKeyframe(): void {
+    const itemId = this.keyframeLaneItemId();
+    const keyframeId = this.selectedKeyframeId();
+    if (!itemId || !keyframeId || this.isOnLockedTrack(itemId)) return;
+
+    this.applyEdit('Remove keyframe', s => ({
+      ...s,
+      tracks: this.keyframeService.removeKeyframe(s.tracks, itemId, this.keyframeParameter(), keyframeId)
+    }));
+    this.selectedKeyframeId.set(null);
+  }
+
+  onKeyframePointerDown(event: MouseEvent | TouchEvent, item: MediaItem, keyframe: Keyframe): void {
+    event.stopPropagation();
+    event.preventDefault();
+    const coords = this.getEventCoordinates(event);
+
+    this.selectedKeyframeId.set(keyframe.id);
+    // A keyframe on a locked track can still be selected to read its value
+    if (this.isOnLockedTrack(item.id)) return;
+
+    this.gestureStartState = this.state();
+    this.keyframeDrag = {
+      itemId: item.id,
+      keyframeId: keyframe.id,
+      startX: coords.clientX,
+      startY: coords.clientY,
+      startTime: keyframe.time,
+      startValue: keyframe.value
+    };
+  }
+
+  /**
+   * Move a keyframe from the state at the start of the gesture: sideways changes its time, up and down its value
+   */
+  private handleKeyframeDrag(coords: { clientX: number; clientY: number }): void {
+    const drag = this.keyframeDrag;
+    const startState = this.gestureStartState;
+    if (!drag || !startState) return;
+
+    const parameter = this.keyframeParameter();
+    const definition = this.keyframeService.getDefinition(parameter);
+    const valuePerPixel = (definition.max - definition.min) / this.KEYFRAME_GRAPH_HEIGHT;
+    const item = startState.tracks.flatMap(t => t.items).find(i => i.id === drag.itemId);
+    if (!item) return;
+    // The keyframe lands on a frame of the timeline, its time is kept in the time base of the item's keyframes
+    const timelineTime = this.keyframeService.toTimelineTime(item, drag.startTime) +
+      (coords.clientX - drag.startX) / this.pixelsPerMillisecond();
+    const time = this.keyframeService.toKeyframeTime(item, this.quantizeToFrame(timelineTime));
+    // Values are kept to one decimal, finer steps cannot be dragged to anyway
+    const value = Math.round((drag.startValue - (coords.clientY - drag.startY) * valuePerPixel) * 10) / 10;
+
+    this.state.update(s => ({
+      ...s,
+      tracks: this.keyframeService.updateKeyframe(startState.tracks, drag.itemId, parameter, drag.keyframeId, { time, value })
+    }));
+  }
+
+  private updateSelectedKeyframe(label: string, changes: Partial<Pick<Keyframe, 'value' | 'interpolation'>>): void {
+    const itemId = this.keyframeLaneItemId();
+    const keyframeId = this.selectedKeyframeId();
+    if (!itemId || !keyframeId || this.isOnLockedTrack(itemId)) return;
+
+    this.applyEdit(label, s => ({
+      ...s,
+      tracks: this.keyframeService.updateKeyframe(s.tracks, itemId, this.keyframeParameter(), keyframeId, changes)
+    }));
+  }
+
+  private getKeyframeY(parameter: KeyframeParameter, value: number): number {
+    const definition = this.keyframeService.getDefinition(parameter);
+    return (1 - (value - definition.min) / (definition.max - definition.min)) * this.KEYFRAME_GRAPH_HEIGHT;
+  }
+
   // Media selection
   selectMediaItem(itemId: string): void {
+    this.selectionAnchorId = itemId;
     this.state.update(s => ({
       ...s,
-      selectedItemId: itemId
+      selectedItemIds: [itemId]
+    }));
+  }
+
+  toggleItemSelection(itemId: string): void {
+    this.selectionAnchorId = itemId;
+    this.state.update(s => ({
+      ...s,
+      selectedItemIds: s.selectedItemIds.includes(itemId)
+        ? s.selectedItemIds.filter(id => id !== itemId)
+        : [...s.selectedItemIds, itemId]
+    }));
+  }
+
+  /**
+   * Select every item on the track between the selection anchor and the given item
+   * Falls back to a single selection when the anchor is on another track
+   */
+  selectRange(itemId: string, trackId: string): void {
+    const track = this.state().tracks.find(t => t.id === trackId);
+    const anchor = track?.items.find(i => i.id === this.selectionAnchorId);
+    const target = track?.items.find(i => i.id === itemId);
+
+    if (!track || !anchor || !target) {
+      this.selectMediaItem(itemId);
+      return;
+    }
+
+    const rangeStart = Math.min(anchor.startTime, target.startTime);
+    const rangeEnd = Math.max(anchor.startTime, target.startTime);
+    const rangeIds = track.items
+      .filter(i => i.startTime >= rangeStart && i.startTime <= rangeEnd)
+      .map(i => i.id);
+
+    this.state.update(s => ({
+      ...s,
+      selectedItemIds: [...s.selectedItemIds.filter(id => !rangeIds.includes(id)), ...rangeIds]
+    }));
+  }
+
+  selectAll(): void {
+    this.state.update(s => ({
+      ...s,
+      selectedItemIds: s.tracks.flatMap(t => t.items.map(i => i.id))
     }));
   }
 
   deselectMediaItem(): void {
+    this.selectionAnchorId = null;
     this.state.update(s => ({
       ...s,
-      selectedItemId: null
+      selectedItemIds: []
     }));
   }
 
   isItemSelected(itemId: string): boolean {
-    return this.state().selectedItemId === itemId;
+    return this.state().selectedItemIds.includes(itemId);
+  }
+
+  // Select every item whose element intersects the marquee rectangle
+  private finishMarqueeSelection(): void {
+    const rect = this.marqueeRect();
+    const additive = this.marqueeStart?.additive ?? false;
+    this.marqueeStart = null;
+    this.marqueeRect.set(null);
+
+    if (!rect || !this.tracksContainer) return;
+
+    const hitIds: string[] = [];
+    const itemElements = this.tracksContainer.nativeElement.querySelectorAll<HTMLElement>('.media-item');
+    for (const element of Array.from(itemElements)) {
+      const itemRect = element.getBoundingClientRect();
+      const intersects = itemRect.left < rect.left + rect.width &&
+        itemRect.right > rect.left &&
+        itemRect.top < rect.top + rect.height &&
+        itemRect.bottom > rect.top;
+      const itemId = element.dataset['itemId'];
+      if (intersects && itemId) {
+        hitIds.push(itemId);
+      }
+    }
+
+    this.state.update(s => ({
+      ...s,
+      selectedItemIds: additive
+        ? [...s.selectedItemIds.filter(id => !hitIds.includes(id)), ...hitIds]
+        : hitIds
+    }));
   }
 
   readonly MediaType = MediaType;
 
   // Video preview controls
   togglePlayback(): void {
-    this.isPlaying.update(playing => !playing);
+    this.playback.toggle();
   }
 
   skipBackward(): void {
-    this.state.update(s => ({
-      ...s,
-      playheadPosition: Math.max(0, s.playheadPosition - 5000)
-    }));
+    this.seekToFrame(this.state().playheadPosition - 5000);
   }
 
   skipForward(): void {
-    this.state.update(s => ({
-      ...s,
-      playheadPosition: Math.min(s.totalDuration, s.playheadPosition + 5000)
-    }));
+    this.seekToFrame(this.state().playheadPosition + 5000);
+  }
+
+  onPlaybackRateChange(event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const speed = parseFloat(select.value);
+    if (!isNaN(speed)) {
+      const direction = this.playback.rate() < 0 ? -1 : 1;
+      this.playback.setRate(direction * speed);
+    }
+  }
+
+  toggleReversePlayback(): void {
+    this.playback.setRate(-this.playback.rate());
+  }
+
+  toggleLoopPlayback(): void {
+    this.playback.setLoop(!this.playback.loop());
   }
 
   // Duration editor methods
@@ -749,7 +2122,7 @@ export class TimelineComponent {
 
   saveDuration(): void {
     const newDurationMs = Math.max(1000, this.editedDuration * 1000); // At least 1 second
-    this.state.update(s => ({
+    this.applyEdit('Change duration', s => ({
       ...s,
       totalDuration: newDurationMs,
       // Ensure playhead doesn't exceed new duration
@@ -764,6 +2137,12 @@ export class TimelineComponent {
     this.showMediaLibrary.set(true);
   }
 
+  // The library only lists what the track it was opened for takes
+  getMediaLibraryAcceptedTypes(): MediaType[] {
+    const track = this.state().tracks.find(t => t.id === this.mediaLibraryTargetTrackId);
+    return TRACK_KIND_MEDIA_TYPES[track?.kind ?? 'mixed'];
+  }
+
   closeMediaLibrary(): void {
     this.showMediaLibrary.set(false);
     this.mediaLibraryTargetTrackId = null;
@@ -775,10 +2154,37 @@ export class TimelineComponent {
     const currentState = this.state();
     const track = currentState.tracks.find(t => t.id === this.mediaLibraryTargetTrackId);
 
-    if (!track) return;
+    if (!track || track.locked || !this.dragDropService.canPlaceOnTrack(media.type, track)) return;
 
     const playheadTime = currentState.playheadPosition;
     const totalDuration = currentState.totalDuration;
+    // The audio of a video goes on an audio track next to it, unless the video is known to be silent
+    const withLinkedAudio = media.type === MediaType.VIDEO && media.hasAudio !== false;
+    const linkId = withLinkedAudio ? this.generateLinkId() : undefined;
+
+    if (this.rippleMode()) {
+      const insertedItem: MediaItem = {
+        id: this.generateItemId(),
+        type: media.type,
+        startTime: playheadTime,
+        duration: media.duration,
+        trackId: this.mediaLibraryTargetTrackId,
+        name: media.name,
+        isPlaceholder: false
+      };
+      if (media.sourceId) {
+        insertedItem.sourceId = media.sourceId;
+      }
+      if (media.type !== MediaType.IMAGE) {
+        insertedItem.maxDuration = media.duration;
+      }
+      if (linkId) {
+        insertedItem.linkId = linkId;
+      }
+      this.rippleInsertItem(`Insert ${media.name}`, insertedItem, withLinkedAudio);
+      this.closeMediaLibrary();
+      return;
+    }
 
     // Determine the start time for the new item using the service
     const startTime = this.dragDropService.calculateNewItemStartTime(
@@ -820,6 +2226,13 @@ export class TimelineComponent {
       isPlaceholder: false
     };
 
+    if (media.sourceId) {
+      newItem.sourceId = media.sourceId;
+    }
+    if (linkId) {
+      newItem.linkId = linkId;
+    }
+
     // Set maxDuration for audio and video
     if (media.type === MediaType.VIDEO) {
       newItem.maxDuration = Math.min(media.duration, adjustedMaxAllowedDuration);
@@ -827,16 +2240,624 @@ export class TimelineComponent {
       newItem.maxDuration = Math.min(media.duration, adjustedMaxAllowedDuration);
     }
 
-    this.state.update(s => ({
-      ...s,
-      tracks: s.tracks.map(t =>
+    this.applyEdit(`Add ${media.name}`, s => {
+      const tracks = s.tracks.map(t =>
         t.id === this.mediaLibraryTargetTrackId
           ? { ...t, items: [...t.items, newItem] }
           : t
-      )
-    }));
+      );
+      return { ...s, tracks: withLinkedAudio ? this.addLinkedAudio(tracks, newItem) : tracks };
+    });
 
     // Close the media library after selection
     this.closeMediaLibrary();
   }
+
+  // Project file methods
+  async saveProject(): Promise<void> {
+    const projectSerializer = await this.loadProjectSerializer();
+    const json = projectSerializer.toJson(this.state());
+    this.downloadFile(json, 'project.vtproj.json', 'application/json');
+  }
+
+  openProject(): void {
+    this.projectFileInput?.nativeElement.click();
+  }
+
+  async onProjectFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset the input so selecting the same file again triggers another change event
+    input.value = '';
+
+    if (!file) return;
+
+    await this.loadProjectJson(await file.text());
+  }
+
+  async loadProjectJson(json: string): Promise<void> {
+    const projectSerializer = await this.loadProjectSerializer();
+    try {
+      const result = projectSerializer.parse(json);
+      this.state.set(result.state);
+      this.history.clear();
+
+      if (result.warnings.length > 0) {
+        this.projectNotice.set({
+          title: 'Project loaded with repairs',
+          messages: result.warnings
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof ProjectLoadError)) {
+        throw error;
+      }
+      this.projectNotice.set({
+        title: 'Could not open project',
+        messages: [error.message]
+      });
+    }
+  }
+
+  closeProjectNotice(): void {
+    this.projectNotice.set(null);
+  }
+
+  // Project files are only read and written on request, so the serializer is loaded once it is used
+  private async loadProjectSerializer(): Promise<ProjectSerializerService> {
+    const { ProjectSerializerService } = await import('../../services/project-serializer.service');
+    return this.injector.get(ProjectSerializerService);
+  }
+
+  // EDL methods
+  openEdlDialog(): void {
+    this.showEdlDialog.set(true);
+  }
+
+  closeEdlDialog(): void {
+    this.showEdlDialog.set(false);
+  }
+
+  onEdlFrameRateChange(event: Event): void {
+    this.edlFrameRate.set(Number((event.target as HTMLSelectElement).value));
+  }
+
+  onEdlTitleChange(event: Event): void {
+    this.edlTitle.set((event.target as HTMLInputElement).value);
+  }
+
+  async exportEdl(): Promise<void> {
+    const edlService = await this.loadEdlService();
+    const edl = edlService.exportEdl(this.state(), {
+      title: this.edlTitle(),
+      frameRate: this.edlFrameRate(),
+      dropFrame: this.sequence().dropFrame
+    });
+    const fileName = (this.edlTitle().trim() || 'timeline').replace(/[^\w-]+/g, '_');
+    this.downloadFile(edl, `${fileName}.edl`, 'text/plain');
+    this.closeEdlDialog();
+  }
+
+  openEdlFile(): void {
+    this.edlFileInput?.nativeElement.click();
+  }
+
+  async onEdlFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset the input so selecting the same file again triggers another change event
+    input.value = '';
+
+    if (!file) return;
+
+    await this.importEdlText(await file.text());
+  }
+
+  /**
+   * Add the tracks of an EDL below the existing tracks of their kind as one undoable edit
+   */
+  async importEdlText(text: string): Promise<void> {
+    const edlService = await this.loadEdlService();
+    try {
+      const result = edlService.importEdl(text, this.edlFrameRate(), () => this.generateItemId());
+
+      this.applyEdit('Import EDL', s => {
+        const tracks = this.dragDropService.sortTracksByKind([...s.tracks, ...result.tracks]);
+        const endTime = Math.max(
+          s.totalDuration,
+          ...result.tracks.flatMap(t => t.items.map(item => item.startTime + item.duration))
+        );
+        return { ...s, tracks, totalDuration: endTime };
+      });
+      this.closeEdlDialog();
+
+      if (result.warnings.length > 0) {
+        this.projectNotice.set({
+          title: 'EDL imported with warnings',
+          messages: result.warnings
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof EdlParseError)) {
+        throw error;
+      }
+      this.projectNotice.set({
+        title: 'Could not import EDL',
+        messages: [error.message]
+      });
+    }
+  }
+
+  // The EDL and OTIO converters are only loaded once they are used, which keeps them out of the initial bundle
+  private async loadEdlService(): Promise<EdlService> {
+    const { EdlService } = await import('../../services/edl.service');
+    return this.injector.get(EdlService);
+  }
+
+  private async loadOtioService(): Promise<OtioService> {
+    const { OtioService } = await import('../../services/otio.service');
+    return this.injector.get(OtioService);
+  }
+
+  // OTIO methods
+  toggleOtioMenu(): void {
+    this.showOtioMenu.update(show => !show);
+  }
+
+  async exportOtio(): Promise<void> {
+    const otioService = await this.loadOtioService();
+    const json = otioService.toJson(this.state(), 'Timeline');
+    this.downloadFile(json, 'timeline.otio', 'application/json');
+    this.showOtioMenu.set(false);
+  }
+
+  openOtioFile(): void {
+    this.otioFileInput?.nativeElement.click();
+    this.showOtioMenu.set(false);
+  }
+
+  async onOtioFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset the input so selecting the same file again triggers another change event
+    input.value = '';
+
+    if (!file) return;
+
+    await this.importOtioJson(await file.text());
+  }
+
+  /**
+   * Replace the tracks with those of an OTIO timeline as one undoable edit
+   */
+  async importOtioJson(json: string): Promise<void> {
+    const otioService = await this.loadOtioService();
+    try {
+      const result = otioService.parse(json, () => this.generateItemId());
+
+      this.applyEdit('Import OTIO', s => {
+        const endTime = Math.max(
+          0,
+          ...result.tracks.flatMap(t => t.items.map(item => item.startTime + item.duration))
+        );
+        return {
+          ...s,
+          tracks: this.dragDropService.sortTracksByKind(result.tracks),
+          totalDuration: Math.max(result.totalDuration ?? s.totalDuration, endTime),
+          selectedItemIds: []
+        };
+      });
+
+      if (result.warnings.length > 0) {
+        this.projectNotice.set({
+          title: 'OTIO imported with warnings',
+          messages: result.warnings
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof OtioParseError)) {
+        throw error;
+      }
+      this.projectNotice.set({
+        title: 'Could not import OTIO',
+        messages: [error.message]
+      });
+    }
+  }
+
+  private downloadFile(content: string, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  // History methods
+  undo(): void {
+    const restored = this.history.undo(this.state());
+    if (restored) {
+      this.restoreSnapshot(restored);
+    }
+  }
+
+  redo(): void {
+    const restored = this.history.redo(this.state());
+    if (restored) {
+      this.restoreSnapshot(restored);
+    }
+  }
+
+  jumpToUndoStep(index: number): void {
+    const restored = this.history.undoTo(index, this.state());
+    if (restored) {
+      this.restoreSnapshot(restored);
+    }
+  }
+
+  jumpToRedoStep(index: number): void {
+    const restored = this.history.redoTo(index, this.state());
+    if (restored) {
+      this.restoreSnapshot(restored);
+    }
+  }
+
+  toggleHistoryPanel(): void {
+    this.showHistoryPanel.update(show => !show);
+  }
+
+  onHistoryDepthChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const value = parseInt(input.value, 10);
+    if (!isNaN(value) && value > 0) {
+      this.history.setMaxDepth(value);
+    }
+  }
+
+  // Restore edited content while keeping the current playhead and zoom
+  private restoreSnapshot(snapshot: TimelineState): void {
+    this.state.update(s => {
+      const existingIds = new Set(snapshot.tracks.flatMap(t => t.items.map(i => i.id)));
+      return {
+        ...snapshot,
+        playheadPosition: Math.min(s.playheadPosition, snapshot.totalDuration),
+        zoomLevel: s.zoomLevel,
+        inPoint: s.inPoint,
+        outPoint: s.outPoint,
+        selectedItemIds: s.selectedItemIds.filter(id => existingIds.has(id))
+      };
+    });
+  }
+
+  onDocumentKeyDown(event: KeyboardEvent): void {
+    // Shortcuts stay inactive while they are being edited
+    if (this.showKeymapEditor()) return;
+    this.shortcuts.handleKeyDown(event);
+  }
+
+  // Keymap editor methods
+  openKeymapEditor(): void {
+    this.showKeymapEditor.set(true);
+  }
+
+  closeKeymapEditor(): void {
+    this.showKeymapEditor.set(false);
+  }
+
+  // Marker methods
+  addMarkerAtPlayhead(): void {
+    const marker: Marker = {
+      id: this.generateMarkerId(),
+      time: this.quantizeToFrame(this.state().playheadPosition),
+      name: `Marker ${this.markers().length + 1}`,
+      color: 'blue'
+    };
+    this.applyEdit('Add marker', s => ({ ...s, markers: this.markerService.addMarker(s.markers ?? [], marker) }));
+  }
+
+  removeMarker(markerId: string): void {
+    this.applyEdit('Remove marker', s => ({ ...s, markers: this.markerService.removeMarker(s.markers ?? [], markerId) }));
+    if (this.editedMarkerId() === markerId) {
+      this.closeMarkerEditor();
+    }
+  }
+
+  jumpToMarker(marker: Marker): void {
+    this.seekToFrame(marker.time);
+  }
+
+  toggleMarkerPanel(): void {
+    this.showMarkerPanel.update(show => !show);
+  }
+
+  openMarkerEditor(markerId: string): void {
+    this.editedMarkerId.set(markerId);
+  }
+
+  closeMarkerEditor(): void {
+    this.editedMarkerId.set(null);
+  }
+
+  getMarkerColor(color: MarkerColor): string {
+    return MARKER_COLORS.find(c => c.id === color)?.hex ?? MARKER_COLORS[0].hex;
+  }
+
+  onMarkerNameChange(event: Event): void {
+    this.editMarker('Rename marker', { name: (event.target as HTMLInputElement).value });
+  }
+
+  onMarkerColorChange(color: MarkerColor): void {
+    this.editMarker('Change marker colour', { color });
+  }
+
+  onMarkerNoteChange(event: Event): void {
+    this.editMarker('Edit marker note', { note: (event.target as HTMLTextAreaElement).value });
+  }
+
+  // A duration of 0 turns a range marker back into a point marker
+  onMarkerDurationChange(event: Event): void {
+    const seconds = parseFloat((event.target as HTMLInputElement).value);
+    if (!Number.isFinite(seconds) || seconds < 0) return;
+
+    this.editMarker('Change marker duration', { duration: seconds > 0 ? this.quantizeToFrame(seconds * 1000) : undefined });
+  }
+
+  onMarkerPointerDown(event: MouseEvent | TouchEvent, marker: Marker): void {
+    // The ruler underneath would move the playhead
+    event.preventDefault();
+    event.stopPropagation();
+
+    this.gestureStartState = this.state();
+    this.markerDrag = { markerId: marker.id, startX: this.getEventCoordinates(event).clientX, startTime: marker.time };
+  }
+
+  async exportMarkers(format: 'vtt' | 'youtube' | 'csv'): Promise<void> {
+    // Like the other exporters, the chapter exporter is only loaded once it is used
+    const { ChapterExportService } = await import('../../services/chapter-export.service');
+    const chapterExport = this.injector.get(ChapterExportService);
+    const markers = this.markers();
+    if (format === 'vtt') {
+      this.downloadFile(chapterExport.toWebVtt(markers, this.state().totalDuration), 'chapters.vtt', 'text/vtt');
+    } else if (format === 'youtube') {
+      this.downloadFile(chapterExport.toYouTubeChapters(markers), 'chapters.txt', 'text/plain');
+    } else {
+      this.downloadFile(chapterExport.toCsv(markers, this.sequence()), 'markers.csv', 'text/csv');
+    }
+  }
+
+  private editMarker(label: string, changes: Partial<Omit<Marker, 'id'>>): void {
+    const markerId = this.editedMarkerId();
+    if (!markerId) return;
+
+    this.applyEdit(label, s => ({
+      ...s,
+      markers: this.markerService.updateMarker(s.markers ?? [], markerId, changes, s.totalDuration)
+    }));
+  }
+
+  // Moves the marker from where it was when the drag started, both ends of a range snap
+  private handleMarkerDrag(coords: { clientX: number; clientY: number }, bypassSnapping: boolean): void {
+    const drag = this.markerDrag;
+    const marker = this.markers().find(m => m.id === drag?.markerId);
+    if (!drag || !marker) return;
+
+    const requestedTime = this.quantizeToFrame(drag.startTime + (coords.clientX - drag.startX) / this.pixelsPerMillisecond());
+    const time = this.snapPosition(
+      requestedTime,
+      marker.duration !== undefined ? [0, marker.duration] : [0],
+      this.getSnapTargets([], true, marker.id),
+      bypassSnapping
+    );
+
+    this.state.update(s => ({
+      ...s,
+      markers: this.markerService.updateMarker(s.markers ?? [], marker.id, { time }, s.totalDuration)
+    }));
+  }
+
+  // Snapping methods
+  toggleSnapMenu(): void {
+    this.showSnapMenu.update(show => !show);
+  }
+
+  onSnapToleranceChange(event: Event): void {
+    this.snapping.setTolerance(Number((event.target as HTMLInputElement).value));
+  }
+
+  private getSnapTargets(excludedItemIds: string[], includePlayhead = true, excludedMarkerId?: string): SnapTarget[] {
+    const s = this.state();
+    return this.snapping.collectTargets({
+      tracks: s.tracks,
+      excludedItemIds,
+      playheadPosition: includePlayhead ? s.playheadPosition : undefined,
+      inPoint: s.inPoint,
+      outPoint: s.outPoint,
+      markers: this.markers()
+        .filter(m => m.id !== excludedMarkerId)
+        .flatMap(m => m.duration !== undefined ? [m.time, m.time + m.duration] : [m.time])
+    });
+  }
+
+  /**
+   * Snap a position whose edges sit at the given offsets from it and show the guide where it snapped
+   * Holding Shift bypasses snapping for as long as it is held
+   */
+  private snapPosition(position: number, edgeOffsets: number[], targets: SnapTarget[], bypass: boolean): number {
+    const result = this.snapping.snap(position, edgeOffsets, targets, this.pixelsPerMillisecond(), this.sequence().frameRate, bypass);
+    this.snapGuide.set(result.guide);
+    return result.position;
+  }
+
+  // A resized edge only snaps to targets it can actually reach
+  private snapEdgeWithinBounds(
+    time: number,
+    bounds: { minTime: number; maxTime: number },
+    targets: SnapTarget[],
+    bypass: boolean
+  ): number {
+    const clamped = Math.max(bounds.minTime, Math.min(time, bounds.maxTime));
+    const snapped = this.snapPosition(clamped, [0], targets, bypass);
+    if (snapped < bounds.minTime || snapped > bounds.maxTime) {
+      this.snapGuide.set(null);
+      return clamped;
+    }
+    return snapped;
+  }
+
+  // Image keyframes count from the item start, moving the start shifts them so they stay on the same content
+  private keepImageKeyframes(before: MediaItem, after: MediaItem): MediaItem {
+    if (before.type !== MediaType.IMAGE || !before.keyframes || after.startTime === before.startTime) return after;
+    return { ...after, keyframes: this.editService.shiftKeyframes(before.keyframes, before.startTime - after.startTime) };
+  }
+
+  private snapPlayhead(position: number, bypass: boolean): number {
+    return this.snapPosition(position, [0], this.getSnapTargets([], false), bypass);
+  }
+
+  // Sequence settings methods
+  onSequenceFrameRateChange(event: Event): void {
+    const label = (event.target as HTMLSelectElement).value;
+    const preset = SEQUENCE_FRAME_RATES.find(p => p.label === label);
+    if (!preset) return;
+
+    this.applyEdit('Change frame rate', s => ({ ...s, sequence: preset.settings }));
+    this.seekToFrame(this.state().playheadPosition);
+  }
+
+  getSequenceFrameRateLabel(): string {
+    const { frameRate, dropFrame } = this.sequence();
+    return SEQUENCE_FRAME_RATES.find(p => p.settings.frameRate === frameRate && p.settings.dropFrame === dropFrame)?.label ?? '';
+  }
+
+  // Cycles timecode -> frames -> seconds
+  toggleTimeDisplayMode(): void {
+    const modes: TimeDisplayMode[] = ['timecode', 'frames', 'seconds'];
+    this.timeDisplayMode.update(mode => modes[(modes.indexOf(mode) + 1) % modes.length]);
+  }
+
+  private quantizeToFrame(milliseconds: number): number {
+    return this.timecodeService.quantize(milliseconds, this.sequence().frameRate);
+  }
+
+  // Moves of the playhead by the user land on a frame, playback itself runs between frames
+  private seekToFrame(position: number): void {
+    this.playback.seek(this.quantizeToFrame(position));
+  }
+
+  // Navigation and in/out point methods
+  stepFrames(frames: number): void {
+    const { frameRate } = this.sequence();
+    const currentFrame = this.timecodeService.msToFrames(this.state().playheadPosition, frameRate);
+    this.playback.seek(this.timecodeService.framesToMs(currentFrame + frames, frameRate));
+  }
+
+  goToStart(): void {
+    this.playback.seek(0);
+  }
+
+  goToEnd(): void {
+    this.playback.seek(this.state().totalDuration);
+  }
+
+  markIn(): void {
+    this.state.update(s => ({
+      ...s,
+      inPoint: s.playheadPosition,
+      // An out point before the new in point no longer describes a range
+      outPoint: s.outPoint !== undefined && s.outPoint <= s.playheadPosition ? undefined : s.outPoint
+    }));
+  }
+
+  markOut(): void {
+    this.state.update(s => ({
+      ...s,
+      outPoint: s.playheadPosition,
+      inPoint: s.inPoint !== undefined && s.inPoint >= s.playheadPosition ? undefined : s.inPoint
+    }));
+  }
+
+  clearInOut(): void {
+    this.state.update(s => ({ ...s, inPoint: undefined, outPoint: undefined }));
+  }
+
+  // Split methods
+  setToolMode(mode: ToolMode): void {
+    this.toolMode.set(mode);
+  }
+
+  /**
+   * Split the selected items at the playhead, or every item under the playhead if no selected item is under it
+   */
+  splitAtPlayhead(): void {
+    const currentState = this.state();
+    const playheadTime = currentState.playheadPosition;
+    const selectedIdsUnderPlayhead = currentState.tracks
+      .flatMap(t => t.items)
+      .filter(i => currentState.selectedItemIds.includes(i.id))
+      .filter(i => this.editService.canSplitItem(i, playheadTime))
+      .map(i => i.id);
+
+    this.splitItems(playheadTime, selectedIdsUnderPlayhead.length > 0 ? selectedIdsUnderPlayhead : null);
+  }
+
+  private splitItems(time: number, itemIds: string[] | null): void {
+    // The playhead lies between frames while playing, the cut goes to the nearest frame
+    const splitTime = this.quantizeToFrame(time);
+    const ids = itemIds && this.withLinkedItemIds(itemIds);
+    this.applyEdit('Split item', s => ({
+      ...s,
+      tracks: this.relinkSplitPieces(
+        s.tracks,
+        this.editService.splitItemsAt(s.tracks, splitTime, ids, () => this.generateItemId())
+      )
+    }));
+  }
+
+  // The pieces after a cut are linked to each other, not to the pieces before it
+  private relinkSplitPieces(before: Track[], after: Track[]): Track[] {
+    const existingIds = new Set(before.flatMap(t => t.items.map(i => i.id)));
+    const newLinkIds = new Map<string, string>();
+    return after.map(t => ({
+      ...t,
+      items: t.items.map(i => {
+        if (!i.linkId || existingIds.has(i.id)) return i;
+        if (!newLinkIds.has(i.linkId)) newLinkIds.set(i.linkId, this.generateLinkId());
+        return { ...i, linkId: newLinkIds.get(i.linkId) };
+      })
+    }));
+  }
+
+  private generateKeyframeId(): string {
+    this.generatedIdCounter++;
+    return `keyframe-${Date.now()}-${this.generatedIdCounter}`;
+  }
+
+  private generateMarkerId(): string {
+    this.generatedIdCounter++;
+    return `marker-${Date.now()}-${this.generatedIdCounter}`;
+  }
+
+  private generateTransitionId(): string {
+    this.generatedIdCounter++;
+    return `transition-${Date.now()}-${this.generatedIdCounter}`;
+  }
+
+  private generateItemId(): string {
+    this.generatedIdCounter++;
+    return `item-${Date.now()}-${this.generatedIdCounter}`;
+  }
+
+  private generateTrackId(): string {
+    this.generatedIdCounter++;
+    return `track-${Date.now()}-${this.generatedIdCounter}`;
+  }
+
+  private generateLinkId(): string {
+    this.generatedIdCounter++;
+    return `link-${Date.now()}-${this.generatedIdCounter}`;
+  }
 }
@@ -0,0 +1,94 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { VideoPreviewComponent } from './video-preview.component';
+import { MediaItem, MediaType, Track } from '../../models/timeline.models';
+
+describe('VideoPreviewComponent', () => {
+  let component: VideoPreviewComponent;
+  let fixture: ComponentFixture<VideoPreviewComponent>;
+
+  const createItem = (id: string, type: MediaType, startTime: number, duration: number, trackId: string): MediaItem => ({
+    id,
+    type,
+    startTime,
+    duration,
+    trackId,
+    name: id
+  });
+
+  const tracks: Track[] = [
+    { id: 't1', name: 'Track 1', order: 0, items: [createItem('top', MediaType.IMAGE, 1000, 2000, 't1')] },
+    { id: 't2', name: 'Track 2', order: 1, items: [createItem('bottom', MediaType.VIDEO, 0, 5000, 't2')] },
+    { id: 't3', name: 'Track 3', order: 2, items: [createItem('music', MediaType.AUDIO, 0, 5000, 't3')] }
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [VideoPreviewComponent],
+      providers: [provideZonelessChangeDetection()]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(VideoPreviewComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('tracks', tracks);
+    fixture.componentRef.setInput('playheadPosition', 0);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should return active visual items with the top track last', () => {
+    const activeItems = component.getActiveItems(tracks, 1500);
+    expect(activeItems.map(i => i.id)).toEqual(['bottom', 'top']);
+  });
+
+  it('should skip audio items and items outside the time', () => {
+    const activeItems = component.getActiveItems(tracks, 4000);
+    expect(activeItems.map(i => i.id)).toEqual(['bottom']);
+  });
+
+  it('should dissolve from the outgoing to the incoming item across a transition', () => {
+    const dissolveTracks: Track[] = [{
+      id: 't1',
+      name: 'Track 1',
+      order: 0,
+      items: [
+        { ...createItem('out', MediaType.VIDEO, 0, 2000, 't1'), mediaStartTime: 0 },
+        { ...createItem('in', MediaType.VIDEO, 2000, 2000, 't1'), mediaStartTime: 1000 }
+      ],
+      transitions: [{ id: 'x', type: 'dissolve', fromItemId: 'out', toItemId: 'in', duration: 1000, alignment: 'center' }]
+    }];
+
+    const layers = component.getActiveLayers(dissolveTracks, 2250);
+
+    expect(layers.map(l => [l.item.id, l.opacity])).toEqual([['out', 1], ['in', 0.75]]);
+    expect(component.getActiveItems(dissolveTracks, 1400).map(i => i.id)).toEqual(['out']);
+  });
+
+  it('should crossfade audio items and scale them by their volume', () => {
+    const crossfadeTracks: Track[] = [{
+      id: 't1',
+      name: 'Track 1',
+      order: 0,
+      items: [
+        { ...createItem('out', MediaType.AUDIO, 0, 2000, 't1'), mediaStartTime: 0 },
+        {
+          ...createItem('in', MediaType.AUDIO, 2000, 2000, 't1'),
+          mediaStartTime: 1000,
+          keyframes: { volume: [{ id: 'k', time: 0, value: 50, interpolation: 'hold' }] }
+        }
+      ],
+      transitions: [{ id: 'x', type: 'crossfade', fromItemId: 'out', toItemId: 'in', duration: 1000, alignment: 'center' }]
+    }];
+
+    expect(component.getActiveAudio(crossfadeTracks, 2250).map(a => [a.item.id, a.gain])).toEqual([['out', 0.25], ['in', 0.375]]);
+    expect(component.getActiveAudio(tracks, 1500).map(a => [a.item.id, a.gain])).toEqual([['music', 1]]);
+  });
+
+  it('should map timeline time to source time', () => {
+    const item = { ...createItem('clip', MediaType.VIDEO, 2000, 3000, 't1'), mediaStartTime: 1500 };
+    expect(component.getSourceTime(item, 2500)).toBe(2000);
+  });
+});
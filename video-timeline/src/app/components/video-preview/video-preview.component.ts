@@ -0,0 +1,346 @@
+import { Component, ElementRef, OnDestroy, ViewChild, effect, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MediaItem, MediaType, Track } from '../../models/timeline.models';
+import { MediaAssetService } from '../../services/media-asset.service';
+import { TransitionService } from '../../services/transition.service';
+import { KeyframeService } from '../../services/keyframe.service';
+import { KeyframeParameter } from '../../models/keyframe.models';
+
+// Element playing an audio item and the gain node it is heard through
+interface AudioOutput {
+  element: HTMLAudioElement;
+  gain: GainNode;
+}
+
+@Component({
+  selector: 'app-video-preview',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './video-preview.component.html',
+  styleUrl: './video-preview.component.css'
+})
+export class VideoPreviewComponent implements OnDestroy {
+  readonly PREVIEW_WIDTH = 640;
+  readonly PREVIEW_HEIGHT = 360;
+  private readonly SEEK_TOLERANCE_MS = 40; // About one frame, smaller differences are not re-seeked
+  private readonly PLAYBACK_DRIFT_MS = 150; // Correct playing videos that drift further than this
+
+  // Inputs
+  readonly tracks = input.required<Track[]>();
+  readonly playheadPosition = input.required<number>(); // milliseconds
+  readonly isPlaying = input<boolean>(false);
+  readonly playbackRate = input<number>(1);
+
+  @ViewChild('previewCanvas', { static: true }) previewCanvas!: ElementRef<HTMLCanvasElement>;
+
+  // Backing elements keyed by item id so the same source can play on two tracks at once
+  private readonly videoElements = new Map<string, HTMLVideoElement>();
+  private readonly imageElements = new Map<string, HTMLImageElement>();
+  // Audio items play through a gain node each, so crossfades and volumes above 100% are heard
+  private readonly audioOutputs = new Map<string, AudioOutput>();
+  private audioContext: AudioContext | null = null;
+
+  constructor(
+    private mediaAssetService: MediaAssetService,
+    private transitionService: TransitionService,
+    private keyframeService: KeyframeService
+  ) {
+    // Re-render whenever the playhead, the tracks or the play state change
+    effect(() => {
+      this.render(this.tracks(), this.playheadPosition(), this.isPlaying(), this.playbackRate());
+    });
+  }
+
+  ngOnDestroy(): void {
+    for (const video of this.videoElements.values()) {
+      this.releaseMedia(video);
+    }
+    for (const output of this.audioOutputs.values()) {
+      this.releaseAudio(output);
+    }
+    this.videoElements.clear();
+    this.imageElements.clear();
+    this.audioOutputs.clear();
+    this.audioContext?.close().catch(() => {
+      // Already closed
+    });
+  }
+
+  /**
+   * Find the visual items under the given time
+   * Returned bottom-most first: later tracks in the list are drawn first so the top track ends up on top
+   */
+  getActiveItems(tracks: Track[], time: number): MediaItem[] {
+    return this.getActiveLayers(tracks, time).map(layer => layer.item);
+  }
+
+  /**
+   * The visual items under the given time with the opacity to draw them at, in drawing order
+   * Inside a dissolve the outgoing item is drawn opaque and the incoming item over it at the transition's progress
+   */
+  getActiveLayers(tracks: Track[], time: number): { item: MediaItem; opacity: number }[] {
+    const layers: { item: MediaItem; opacity: number }[] = [];
+
+    for (let i = tracks.length - 1; i >= 0; i--) {
+      const trackLayers = this.transitionService.getLayersAt(tracks[i], time)
+        .filter(layer => layer.item.type !== MediaType.AUDIO);
+
+      // Drawing each layer over the previous ones at weight / (weights so far) gives every item its share
+      let drawnWeight = 0;
+      for (const { item, weight } of trackLayers) {
+        drawnWeight += weight;
+        if (weight > 0) {
+          layers.push({ item, opacity: weight / drawnWeight });
+        }
+      }
+    }
+
+    return layers;
+  }
+
+  /**
+   * The audio items heard at the given time with the gain to play them at
+   * Each item's share of a crossfade is scaled by its volume, where 100% is a gain of 1
+   */
+  getActiveAudio(tracks: Track[], time: number): { item: MediaItem; gain: number }[] {
+    return tracks.flatMap(track => this.transitionService.getLayersAt(track, time)
+      .filter(layer => layer.item.type === MediaType.AUDIO)
+      .map(({ item, weight }) => ({ item, gain: weight * this.keyframeService.evaluate(item, 'volume', time) / 100 }))
+    );
+  }
+
+  /**
+   * Convert a timeline time into the time inside the item's source media
+   * Times outside the item, as in a transition, map to the handles before or after it
+   */
+  getSourceTime(item: MediaItem, time: number): number {
+    return (item.mediaStartTime || 0) + (time - item.startTime);
+  }
+
+  private render(tracks: Track[], time: number, isPlaying: boolean, playbackRate: number): void {
+    this.syncAudioOutputs(this.getActiveAudio(tracks, time), time, isPlaying, playbackRate);
+
+    const context = this.previewCanvas.nativeElement.getContext('2d');
+    if (!context) return;
+
+    const layers = this.getActiveLayers(tracks, time);
+    this.syncVideoElements(layers.map(layer => layer.item), time, isPlaying, playbackRate);
+
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, this.PREVIEW_WIDTH, this.PREVIEW_HEIGHT);
+
+    for (const { item, opacity } of layers) {
+      const values = this.keyframeService.evaluateAll(item, time);
+      context.save();
+      context.globalAlpha = opacity * values.opacity / 100;
+      this.applyTransform(context, values);
+      const asset = item.sourceId ? this.mediaAssetService.getAsset(item.sourceId) : undefined;
+
+      if (asset && item.type === MediaType.VIDEO) {
+        const video = this.videoElements.get(item.id);
+        // HAVE_CURRENT_DATA: the frame at currentTime is available
+        if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          this.drawContained(context, video, video.videoWidth, video.videoHeight);
+        }
+      } else if (asset && item.type === MediaType.IMAGE) {
+        const image = this.getImageElement(item, asset.url);
+        if (image.complete && image.naturalWidth > 0) {
+          this.drawContained(context, image, image.naturalWidth, image.naturalHeight);
+        }
+      } else {
+        this.drawPlaceholder(context, item);
+      }
+      context.restore();
+    }
+  }
+
+  // Move, rotate and scale around the centre of the preview
+  private applyTransform(context: CanvasRenderingContext2D, values: Record<KeyframeParameter, number>): void {
+    const centerX = this.PREVIEW_WIDTH / 2;
+    const centerY = this.PREVIEW_HEIGHT / 2;
+    context.translate(centerX + values.positionX, centerY + values.positionY);
+    context.rotate(values.rotation * Math.PI / 180);
+    context.scale(values.scale / 100, values.scale / 100);
+    context.translate(-centerX, -centerY);
+  }
+
+  /**
+   * Create, seek, play or pause the video elements backing the active video items
+   * and release the ones that are no longer under the playhead
+   */
+  private syncVideoElements(activeItems: MediaItem[], time: number, isPlaying: boolean, playbackRate: number): void {
+    const activeVideoIds = new Set<string>();
+
+    for (const item of activeItems) {
+      if (item.type !== MediaType.VIDEO || !item.sourceId) continue;
+      const asset = this.mediaAssetService.getAsset(item.sourceId);
+      if (!asset) continue;
+
+      activeVideoIds.add(item.id);
+      this.syncPlayback(this.getVideoElement(item, asset.url), this.getSourceTime(item, time), isPlaying, playbackRate);
+    }
+
+    for (const [itemId, video] of this.videoElements) {
+      if (!activeVideoIds.has(itemId)) {
+        this.releaseMedia(video);
+        this.videoElements.delete(itemId);
+      }
+    }
+  }
+
+  /**
+   * Create, play or pause the audio elements of the audible items and set their gain,
+   * releasing the ones that are no longer under the playhead
+   */
+  private syncAudioOutputs(activeAudio: { item: MediaItem; gain: number }[], time: number, isPlaying: boolean, playbackRate: number): void {
+    const activeAudioIds = new Set<string>();
+
+    for (const { item, gain } of activeAudio) {
+      if (!item.sourceId) continue;
+      const asset = this.mediaAssetService.getAsset(item.sourceId);
+      if (!asset) continue;
+
+      activeAudioIds.add(item.id);
+      const output = this.getAudioOutput(item, asset.url);
+      output.gain.gain.value = gain;
+      this.syncPlayback(output.element, this.getSourceTime(item, time), isPlaying, playbackRate);
+    }
+
+    for (const [itemId, output] of this.audioOutputs) {
+      if (!activeAudioIds.has(itemId)) {
+        this.releaseAudio(output);
+        this.audioOutputs.delete(itemId);
+      }
+    }
+  }
+
+  // Seek, play or pause a media element to follow the playhead
+  private syncPlayback(media: HTMLMediaElement, sourceTime: number, isPlaying: boolean, playbackRate: number): void {
+    const drift = Math.abs(media.currentTime * 1000 - sourceTime);
+
+    // Media elements cannot play backwards, reverse playback seeks on every frame instead
+    if (isPlaying && playbackRate > 0) {
+      media.playbackRate = playbackRate;
+      if (drift > this.PLAYBACK_DRIFT_MS) {
+        media.currentTime = sourceTime / 1000;
+      }
+      if (media.paused) {
+        media.play().catch(() => {
+          // Autoplay can be refused, video frames are still drawn from seeking
+        });
+      }
+    } else {
+      if (!media.paused) {
+        media.pause();
+      }
+      if (drift > this.SEEK_TOLERANCE_MS) {
+        media.currentTime = sourceTime / 1000;
+      }
+    }
+  }
+
+  private getVideoElement(item: MediaItem, url: string): HTMLVideoElement {
+    let video = this.videoElements.get(item.id);
+    if (!video || video.src !== url) {
+      if (video) {
+        this.releaseMedia(video);
+      }
+      video = document.createElement('video');
+      // The sound of a video is played from its linked audio item
+      video.muted = true;
+      video.preload = 'auto';
+      video.playsInline = true;
+      video.src = url;
+      // Draw again once the requested frame is decoded
+      video.onseeked = () => this.redraw();
+      video.onloadeddata = () => this.redraw();
+      this.videoElements.set(item.id, video);
+    }
+    return video;
+  }
+
+  private getAudioOutput(item: MediaItem, url: string): AudioOutput {
+    let output = this.audioOutputs.get(item.id);
+    if (!output || output.element.src !== url) {
+      if (output) {
+        this.releaseAudio(output);
+      }
+      const context = this.getAudioContext();
+      const element = document.createElement('audio');
+      element.preload = 'auto';
+      element.src = url;
+      const gain = context.createGain();
+      context.createMediaElementSource(element).connect(gain).connect(context.destination);
+      output = { element, gain };
+      this.audioOutputs.set(item.id, output);
+    }
+    return output;
+  }
+
+  // Created on first use, browsers start it suspended until the page has been interacted with
+  private getAudioContext(): AudioContext {
+    this.audioContext ??= new AudioContext();
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(() => {
+        // Stays silent until the next attempt after a user gesture
+      });
+    }
+    return this.audioContext;
+  }
+
+  private getImageElement(item: MediaItem, url: string): HTMLImageElement {
+    let image = this.imageElements.get(item.id);
+    if (!image || image.src !== url) {
+      image = new Image();
+      image.onload = () => this.redraw();
+      image.src = url;
+      this.imageElements.set(item.id, image);
+    }
+    return image;
+  }
+
+  private redraw(): void {
+    this.render(this.tracks(), this.playheadPosition(), this.isPlaying(), this.playbackRate());
+  }
+
+  private releaseMedia(media: HTMLMediaElement): void {
+    media.onseeked = null;
+    media.onloadeddata = null;
+    media.pause();
+    media.removeAttribute('src');
+    media.load();
+  }
+
+  private releaseAudio(output: AudioOutput): void {
+    output.gain.disconnect();
+    this.releaseMedia(output.element);
+  }
+
+  // Scale the source to fit the preview keeping its aspect ratio
+  private drawContained(context: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number): void {
+    if (width === 0 || height === 0) return;
+
+    const scale = Math.min(this.PREVIEW_WIDTH / width, this.PREVIEW_HEIGHT / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    context.drawImage(
+      source,
+      (this.PREVIEW_WIDTH - drawWidth) / 2,
+      (this.PREVIEW_HEIGHT - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+  }
+
+  // Items without an imported source are shown as a coloured slate with their name
+  private drawPlaceholder(context: CanvasRenderingContext2D, item: MediaItem): void {
+    context.fillStyle = item.type === MediaType.IMAGE ? '#4facfe' : '#667eea';
+    context.fillRect(0, 0, this.PREVIEW_WIDTH, this.PREVIEW_HEIGHT);
+
+    context.fillStyle = '#fff';
+    context.font = '20px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(item.name || item.type, this.PREVIEW_WIDTH / 2, this.PREVIEW_HEIGHT / 2);
+  }
+}
@@ -0,0 +1,33 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { WaveformComponent } from './waveform.component';
+
+describe('WaveformComponent', () => {
+  let component: WaveformComponent;
+  let fixture: ComponentFixture<WaveformComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WaveformComponent],
+      providers: [provideZonelessChangeDetection()]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(WaveformComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('sourceId', 'asset-1');
+    fixture.componentRef.setInput('duration', 2000);
+    fixture.componentRef.setInput('width', 100);
+    fixture.detectChanges();
+  });
+
+  it('should size the canvas to the item width', () => {
+    expect(component.waveformCanvas.nativeElement.width).toBe(100);
+  });
+
+  it('should cap the canvas width for very wide items', () => {
+    fixture.componentRef.setInput('width', 100000);
+    fixture.detectChanges();
+
+    expect(component.waveformCanvas.nativeElement.width).toBe(component.MAX_CANVAS_WIDTH);
+  });
+});
@@ -0,0 +1,54 @@
+import { Component, ElementRef, ViewChild, computed, effect, input } from '@angular/core';
+import { WaveformData } from '../../models/waveform.models';
+import { WaveformService } from '../../services/waveform.service';
+
+/**
+ * Waveform of the part of a source shown by a timeline item
+ * Redraws only when the source range or the on-screen width changes, not when the item is moved
+ */
+@Component({
+  selector: 'app-waveform',
+  standalone: true,
+  templateUrl: './waveform.component.html',
+  styleUrl: './waveform.component.css'
+})
+export class WaveformComponent {
+  readonly MAX_CANVAS_WIDTH = 4096; // Wider items stretch the canvas instead of exceeding browser canvas limits
+  readonly CANVAS_HEIGHT = 40;
+
+  readonly sourceId = input.required<string>();
+  readonly mediaStartTime = input<number>(0); // milliseconds
+  readonly duration = input.required<number>(); // milliseconds
+  readonly width = input.required<number>(); // pixels on the timeline
+
+  private readonly columns = computed(() => Math.max(1, Math.min(Math.round(this.width()), this.MAX_CANVAS_WIDTH)));
+
+  @ViewChild('waveformCanvas', { static: true }) waveformCanvas!: ElementRef<HTMLCanvasElement>;
+
+  constructor(private waveformService: WaveformService) {
+    effect(() => this.waveformService.load(this.sourceId()));
+
+    effect(() => {
+      this.draw(this.waveformService.getWaveform(this.sourceId()), this.mediaStartTime(), this.duration(), this.columns());
+    });
+  }
+
+  private draw(data: WaveformData | undefined, mediaStartTime: number, duration: number, columns: number): void {
+    const canvas = this.waveformCanvas.nativeElement;
+    canvas.width = columns;
+    canvas.height = this.CANVAS_HEIGHT;
+
+    const context = canvas.getContext('2d');
+    if (!context || !data) return;
+
+    const peaks = this.waveformService.getColumns(data, mediaStartTime, duration, columns);
+    const center = this.CANVAS_HEIGHT / 2;
+    context.fillStyle = 'rgba(255, 255, 255, 0.45)';
+    for (let x = 0; x < columns; x++) {
+      const top = center - peaks[x * 2 + 1] * center;
+      const bottom = center - peaks[x * 2] * center;
+      // Keep silence visible as a thin centre line
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Track } from './timeline.models';
+
+/**
+ * Frame rates offered for EDL timecodes
+ */
+export const EDL_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+export interface EdlExportOptions {
+  title: string;
+  frameRate: number; // frames per second used for all timecodes
+  dropFrame?: boolean; // write drop-frame timecode, only used at 29.97 and 59.94
+}
+
+export interface EdlImportResult {
+  title: string | null;
+  tracks: Track[];
+  warnings: string[]; // events that were skipped or adjusted
+}
+
+/**
+ * Thrown when a file cannot be read as an EDL at all
+ */
+export class EdlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EdlParseError';
+  }
+}
@@ -0,0 +1,72 @@
+export type ShortcutActionId =
+  | 'playPause'
+  | 'shuttleReverse'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'previousFrame'
+  | 'nextFrame'
+  | 'goToStart'
+  | 'goToEnd'
+  | 'markIn'
+  | 'markOut'
+  | 'clearInOut'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomToFit'
+  | 'zoomToSelection'
+  | 'toggleSnapping'
+  | 'addMarker'
+  | 'split'
+  | 'removeSelected'
+  | 'selectAll'
+  | 'undo'
+  | 'redo'
+  | 'selectTool'
+  | 'razorTool'
+  | 'slipTool'
+  | 'slideTool'
+  | 'rollTool'
+  | 'toggleRipple';
+
+/**
+ * An action that can be triggered from the keyboard
+ * Bindings are key combinations such as "Space", "Ctrl+Shift+Z" or "ArrowLeft"
+ */
+export interface ShortcutAction {
+  id: ShortcutActionId;
+  label: string;
+  defaultBindings: string[];
+}
+
+export type ShortcutBindings = Record<ShortcutActionId, string[]>;
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: 'playPause', label: 'Play / pause', defaultBindings: ['Space'] },
+  { id: 'shuttleReverse', label: 'Shuttle reverse', defaultBindings: ['J'] },
+  { id: 'shuttleStop', label: 'Shuttle stop', defaultBindings: ['K'] },
+  { id: 'shuttleForward', label: 'Shuttle forward', defaultBindings: ['L'] },
+  { id: 'previousFrame', label: 'Previous frame', defaultBindings: ['ArrowLeft'] },
+  { id: 'nextFrame', label: 'Next frame', defaultBindings: ['ArrowRight'] },
+  { id: 'goToStart', label: 'Go to start', defaultBindings: ['Home'] },
+  { id: 'goToEnd', label: 'Go to end', defaultBindings: ['End'] },
+  { id: 'markIn', label: 'Mark in point', defaultBindings: ['I'] },
+  { id: 'markOut', label: 'Mark out point', defaultBindings: ['O'] },
+  { id: 'clearInOut', label: 'Clear in and out points', defaultBindings: ['Alt+X'] },
+  { id: 'zoomIn', label: 'Zoom in', defaultBindings: ['+', '='] },
+  { id: 'zoomOut', label: 'Zoom out', defaultBindings: ['-'] },
+  { id: 'zoomToFit', label: 'Zoom to fit', defaultBindings: ['Shift+Z'] },
+  { id: 'zoomToSelection', label: 'Zoom to selection', defaultBindings: ['Z'] },
+  { id: 'toggleSnapping', label: 'Toggle snapping', defaultBindings: ['N'] },
+  { id: 'addMarker', label: 'Add marker at playhead', defaultBindings: ['M'] },
+  { id: 'split', label: 'Split at playhead', defaultBindings: ['S'] },
+  { id: 'removeSelected', label: 'Remove selected items', defaultBindings: ['Delete', 'Backspace'] },
+  { id: 'selectAll', label: 'Select all', defaultBindings: ['Ctrl+A'] },
+  { id: 'undo', label: 'Undo', defaultBindings: ['Ctrl+Z'] },
+  { id: 'redo', label: 'Redo', defaultBindings: ['Ctrl+Shift+Z', 'Ctrl+Y'] },
+  { id: 'selectTool', label: 'Selection tool', defaultBindings: ['V'] },
+  { id: 'razorTool', label: 'Razor tool', defaultBindings: ['C'] },
+  { id: 'slipTool', label: 'Slip tool', defaultBindings: ['Y'] },
+  { id: 'slideTool', label: 'Slide tool', defaultBindings: ['U'] },
+  { id: 'rollTool', label: 'Roll tool', defaultBindings: ['E'] },
+  { id: 'toggleRipple', label: 'Toggle ripple mode', defaultBindings: ['R'] }
+];
@@ -0,0 +1,45 @@
+export type KeyframeParameter = 'opacity' | 'volume' | 'positionX' | 'positionY' | 'scale' | 'rotation';
+
+// How the value moves towards the next keyframe: in a straight line, not at all until it is reached,
+// or along an easing curve
+export type KeyframeInterpolation = 'linear' | 'hold' | 'bezier';
+
+// Control points (x1, y1, x2, y2) of a CSS style cubic-bezier easing curve
+export type BezierEasing = [number, number, number, number];
+
+export const DEFAULT_BEZIER_EASING: BezierEasing = [0.42, 0, 0.58, 1]; // ease-in-out
+
+/**
+ * The value of an animated parameter at one point of an item
+ * Times are in the item's source media, so trimming, splitting or slipping an item keeps its animation on the content.
+ * Images have no source offset, their keyframe times count from the start of the item.
+ */
+export interface Keyframe {
+  id: string;
+  time: number; // milliseconds into the source media
+  value: number;
+  interpolation: KeyframeInterpolation; // Applies to the segment up to the next keyframe
+  easing?: BezierEasing; // Curve of a 'bezier' segment, ease-in-out when not set
+}
+
+// Keyframes of each animated parameter, ordered by time
+export type ItemKeyframes = Partial<Record<KeyframeParameter, Keyframe[]>>;
+
+export interface KeyframeParameterDefinition {
+  id: KeyframeParameter;
+  label: string;
+  unit: string;
+  defaultValue: number; // Value of the parameter when it has no keyframes
+  min: number;
+  max: number;
+}
+
+// Positions are offsets in pixels of the preview frame, the other parameters are in percent or degrees
+export const KEYFRAME_PARAMETERS: KeyframeParameterDefinition[] = [
+  { id: 'opacity', label: 'Opacity', unit: '%', defaultValue: 100, min: 0, max: 100 },
+  { id: 'volume', label: 'Volume', unit: '%', defaultValue: 100, min: 0, max: 200 },
+  { id: 'positionX', label: 'Position X', unit: 'px', defaultValue: 0, min: -640, max: 640 },
+  { id: 'positionY', label: 'Position Y', unit: 'px', defaultValue: 0, min: -360, max: 360 },
+  { id: 'scale', label: 'Scale', unit: '%', defaultValue: 100, min: 0, max: 400 },
+  { id: 'rotation', label: 'Rotation', unit: '°', defaultValue: 0, min: -360, max: 360 }
+];
@@ -0,0 +1,24 @@
+import { MediaType } from './timeline.models';
+
+/**
+ * A local media file imported into the media library
+ * The file stays addressable through its object URL for the lifetime of the page
+ */
+export interface MediaAsset {
+  id: string;
+  name: string;
+  type: MediaType;
+  mimeType: string;
+  size: number; // bytes
+  duration: number; // milliseconds - probed for audio/video, default display duration for images
+  width?: number; // pixels - video and image only
+  height?: number; // pixels - video and image only
+  hasAudio?: boolean; // video only - missing when the browser can't tell
+  url: string; // object URL of the file
+  thumbnail?: string; // data URL of a preview frame
+}
+
+export interface MediaImportResult {
+  imported: MediaAsset[];
+  failed: { name: string; reason: string }[];
+}
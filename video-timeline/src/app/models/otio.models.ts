@@ -0,0 +1,106 @@
+import { Track } from './timeline.models';
+
+/**
+ * Subset of the OpenTimelineIO JSON schema read and written by the OTIO converter
+ * Times are written at rate 1000 so milliseconds convert without rounding
+ */
+export const OTIO_TIME_RATE = 1000;
+export const OTIO_METADATA_KEY = 'video_timeline'; // namespace of our fields in OTIO metadata
+
+export interface OtioRationalTime {
+  OTIO_SCHEMA: 'RationalTime.1';
+  rate: number;
+  value: number;
+}
+
+export interface OtioTimeRange {
+  OTIO_SCHEMA: 'TimeRange.1';
+  start_time: OtioRationalTime;
+  duration: OtioRationalTime;
+}
+
+export interface OtioMediaReference {
+  OTIO_SCHEMA: string; // ExternalReference.1, MissingReference.1, ...
+  name?: string;
+  target_url?: string;
+  available_range: OtioTimeRange | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface OtioClip {
+  OTIO_SCHEMA: 'Clip.1';
+  name: string;
+  enabled?: boolean; // Absent means enabled
+  source_range: OtioTimeRange | null;
+  media_reference: OtioMediaReference;
+  metadata: Record<string, unknown>;
+  effects: unknown[];
+  markers: unknown[];
+}
+
+export interface OtioGap {
+  OTIO_SCHEMA: 'Gap.1';
+  name: string;
+  source_range: OtioTimeRange;
+  metadata: Record<string, unknown>;
+  effects: unknown[];
+  markers: unknown[];
+}
+
+/**
+ * Overlap of the clips either side of it; in_offset reaches back before the cut, out_offset past it
+ */
+export interface OtioTransition {
+  OTIO_SCHEMA: 'Transition.1';
+  name: string;
+  transition_type: string; // e.g. SMPTE_Dissolve
+  in_offset: OtioRationalTime;
+  out_offset: OtioRationalTime;
+  metadata: Record<string, unknown>;
+}
+
+export interface OtioTrack {
+  OTIO_SCHEMA: 'Track.1';
+  name: string;
+  kind: 'Video' | 'Audio';
+  source_range: OtioTimeRange | null;
+  children: (OtioClip | OtioGap | OtioTransition)[];
+  metadata: Record<string, unknown>;
+  effects: unknown[];
+  markers: unknown[];
+}
+
+export interface OtioStack {
+  OTIO_SCHEMA: 'Stack.1';
+  name: string;
+  source_range: OtioTimeRange | null;
+  children: OtioTrack[]; // bottom-most track first
+  metadata: Record<string, unknown>;
+  effects: unknown[];
+  markers: unknown[];
+}
+
+export interface OtioTimeline {
+  OTIO_SCHEMA: 'Timeline.1';
+  name: string;
+  global_start_time: OtioRationalTime | null;
+  tracks: OtioStack;
+  metadata: Record<string, unknown>;
+}
+
+export interface OtioImportResult {
+  name: string;
+  tracks: Track[];
+  totalDuration: number | null; // milliseconds, when written by this editor
+  warnings: string[];
+}
+
+/**
+ * Thrown when a file cannot be read as an OTIO timeline at all
+ */
+export class OtioParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OtioParseError';
+  }
+}
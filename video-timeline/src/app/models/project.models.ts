@@ -0,0 +1,32 @@
+import { Marker, SequenceSettings, Track } from './timeline.models';
+
+export const PROJECT_FORMAT = 'video-timeline-project';
+export const PROJECT_SCHEMA_VERSION = 1;
+
+/**
+ * Versioned JSON document written by "Save project" and read by "Open project"
+ */
+export interface ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  schemaVersion: number;
+  savedAt: string; // ISO 8601 date
+  tracks: Track[];
+  playheadPosition: number; // milliseconds
+  zoomLevel: number; // pixels per second
+  totalDuration: number; // milliseconds
+  inPoint?: number; // milliseconds
+  outPoint?: number; // milliseconds
+  sequence?: SequenceSettings; // Projects saved before sequence settings existed use 30 fps
+  markers?: Marker[];
+}
+
+/**
+ * Thrown when a project document cannot be loaded at all
+ * (invalid JSON, wrong format, unsupported schema version)
+ */
+export class ProjectLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectLoadError';
+  }
+}
@@ -0,0 +1,57 @@
+import { Track } from './timeline.models';
+
+// Kinds of points an edge or the playhead can snap to
+export type SnapCategory = 'playhead' | 'itemEdges' | 'markers' | 'inOutPoints' | 'frames' | 'seconds';
+
+export const SNAP_CATEGORIES: { id: SnapCategory; label: string }[] = [
+  { id: 'playhead', label: 'Playhead' },
+  { id: 'itemEdges', label: 'Item edges' },
+  { id: 'markers', label: 'Markers' },
+  { id: 'inOutPoints', label: 'In and out points' },
+  { id: 'frames', label: 'Frame lines' },
+  { id: 'seconds', label: 'Whole seconds' }
+];
+
+// Grid lines are everywhere, so they only catch an edge that no other target is close to
+export const SNAP_GRID_CATEGORIES: SnapCategory[] = ['frames', 'seconds'];
+
+export interface SnapSettings {
+  enabled: boolean;
+  tolerance: number; // pixels on screen, so snapping feels the same at every zoom level
+  categories: Record<SnapCategory, boolean>;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  tolerance: 10,
+  categories: {
+    playhead: true,
+    itemEdges: true,
+    markers: true,
+    inOutPoints: true,
+    frames: false,
+    seconds: false
+  }
+};
+
+export interface SnapTarget {
+  time: number; // milliseconds
+  category: SnapCategory;
+}
+
+/**
+ * What snap targets are collected from
+ */
+export interface SnapContext {
+  tracks: Track[];
+  excludedItemIds: string[]; // Items being moved, their own edges are not targets
+  playheadPosition?: number; // Left out while the playhead itself is moved
+  inPoint?: number;
+  outPoint?: number;
+  markers?: number[]; // milliseconds
+}
+
+export interface SnapResult {
+  position: number; // Adjusted position, unchanged when nothing was in reach
+  guide: number | null; // Time of the edge that snapped, where the snap guide is drawn
+}
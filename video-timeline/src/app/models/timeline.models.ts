@@ -1,3 +1,5 @@
+import { ItemKeyframes } from './keyframe.models';
+
 export enum MediaType {
   VIDEO = 'video',
   AUDIO = 'audio',
@@ -14,19 +16,120 @@ export interface MediaItem {
   trackId: string;
   name?: string;
   isPlaceholder?: boolean;
+  sourceId?: string; // ID of the imported media asset this item plays
+  linkId?: string; // Shared by the video and audio items placed together from one source
+  keyframes?: ItemKeyframes; // Animated parameters, unanimated ones keep their default value
+}
+
+// Video and image items dissolve into each other, audio items crossfade
+export type TransitionType = 'dissolve' | 'crossfade';
+
+// Where the transition sits relative to the cut: centred on it, starting on it or ending on it
+export type TransitionAlignment = 'center' | 'start' | 'end';
+
+/**
+ * A transition across the cut between two touching items on a track
+ * The outgoing item plays on past the cut and the incoming item starts before it,
+ * using media outside their trimmed ranges (handles)
+ */
+export interface Transition {
+  id: string;
+  type: TransitionType;
+  fromItemId: string; // Item that ends at the cut
+  toItemId: string; // Item that starts at the cut
+  duration: number; // milliseconds
+  alignment: TransitionAlignment;
 }
 
+// Video tracks hold video and images, audio tracks hold audio, mixed tracks hold anything
+export type TrackKind = 'video' | 'audio' | 'mixed';
+
+export const TRACK_KIND_MEDIA_TYPES: Record<TrackKind, MediaType[]> = {
+  video: [MediaType.VIDEO, MediaType.IMAGE],
+  audio: [MediaType.AUDIO],
+  mixed: [MediaType.VIDEO, MediaType.AUDIO, MediaType.IMAGE]
+};
+
 export interface Track {
   id: string;
   name: string;
   order: number;
   items: MediaItem[];
+  kind?: TrackKind; // 'mixed' when missing, as in projects saved before tracks had a kind
+  syncLocked?: boolean; // Follows ripple edits made on other tracks
+  locked?: boolean; // Items can't be moved, trimmed, dropped onto or deleted
+  muted?: boolean; // Audio items are left out of playback and exports
+  solo?: boolean; // While any track is soloed, only the audio of soloed tracks is heard
+  hidden?: boolean; // Video and image items are left out of the preview and exports
+  transitions?: Transition[];
 }
 
+// On/off settings of a track, saved as `true` only
+export const TRACK_FLAGS = ['syncLocked', 'locked', 'muted', 'solo', 'hidden'] as const;
+export type TrackFlag = typeof TRACK_FLAGS[number];
+
 export interface TimelineState {
   tracks: Track[];
   playheadPosition: number; // milliseconds
   zoomLevel: number; // pixels per millisecond
   totalDuration: number; // milliseconds
-  selectedItemId: string | null; // ID of selected media item
+  selectedItemIds: string[]; // IDs of selected media items
+  inPoint?: number; // milliseconds - start of the marked range
+  outPoint?: number; // milliseconds - end of the marked range
+  sequence?: SequenceSettings; // DEFAULT_SEQUENCE_SETTINGS when missing
+  markers?: Marker[];
 }
+
+export type MarkerColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export const MARKER_COLORS: { id: MarkerColor; label: string; hex: string }[] = [
+  { id: 'red', label: 'Red', hex: '#ef4444' },
+  { id: 'orange', label: 'Orange', hex: '#f97316' },
+  { id: 'yellow', label: 'Yellow', hex: '#eab308' },
+  { id: 'green', label: 'Green', hex: '#22c55e' },
+  { id: 'blue', label: 'Blue', hex: '#3b82f6' },
+  { id: 'purple', label: 'Purple', hex: '#a855f7' }
+];
+
+/**
+ * A named point in time on the ruler, or a range when it has a duration
+ * Markers also mark the chapters of the chapter exports
+ */
+export interface Marker {
+  id: string;
+  time: number; // milliseconds
+  duration?: number; // milliseconds - range markers only
+  name: string;
+  color: MarkerColor;
+  note?: string;
+}
+
+/**
+ * Frame rate of the project, edits and the playhead land on its frame boundaries
+ */
+export interface SequenceSettings {
+  frameRate: number; // frames per second, e.g. 29.97
+  dropFrame: boolean; // Drop-frame timecode, only used with 29.97 and 59.94
+}
+
+export const DEFAULT_SEQUENCE_SETTINGS: SequenceSettings = { frameRate: 30, dropFrame: false };
+
+// Frame rates offered in the sequence settings
+export const SEQUENCE_FRAME_RATES: { label: string; settings: SequenceSettings }[] = [
+  { label: '23.976 fps', settings: { frameRate: 23.976, dropFrame: false } },
+  { label: '24 fps', settings: { frameRate: 24, dropFrame: false } },
+  { label: '25 fps', settings: { frameRate: 25, dropFrame: false } },
+  { label: '29.97 fps DF', settings: { frameRate: 29.97, dropFrame: true } },
+  { label: '29.97 fps NDF', settings: { frameRate: 29.97, dropFrame: false } },
+  { label: '30 fps', settings: { frameRate: 30, dropFrame: false } },
+  { label: '50 fps', settings: { frameRate: 50, dropFrame: false } },
+  { label: '59.94 fps', settings: { frameRate: 59.94, dropFrame: false } },
+  { label: '60 fps', settings: { frameRate: 60, dropFrame: false } }
+];
+
+// How times are shown in the toolbar, the ruler and item labels
+export type TimeDisplayMode = 'timecode' | 'frames' | 'seconds';
+
+// Editing tools: 'select' drags items, 'razor' splits them, 'slip' moves the source under an item,
+// 'slide' moves an item between its neighbours, 'roll' moves the cut between two touching items
+export type ToolMode = 'select' | 'razor' | 'slip' | 'slide' | 'roll';
@@ -0,0 +1,27 @@
+/**
+ * Peaks of a source at one resolution
+ * Every peak covers samplesPerPeak samples and is stored as its minimum and maximum sample value (-1..1),
+ * interleaved as [min0, max0, min1, max1, ...]
+ */
+export interface WaveformPeakLevel {
+  samplesPerPeak: number;
+  peaks: Float32Array;
+}
+
+export interface WaveformData {
+  sampleRate: number; // Hz of the decoded audio the peaks were computed from
+  levels: WaveformPeakLevel[]; // Finest resolution first
+}
+
+// Messages exchanged with the peak worker
+export interface WaveformWorkerRequest {
+  sourceId: string;
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface WaveformWorkerResponse {
+  sourceId: string;
+  sampleRate: number;
+  levels: WaveformPeakLevel[];
+}
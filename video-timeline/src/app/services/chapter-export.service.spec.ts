@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ChapterExportService } from './chapter-export.service';
+import { Marker } from '../models/timeline.models';
+
+describe('ChapterExportService', () => {
+  let service: ChapterExportService;
+
+  const markers: Marker[] = [
+    { id: 'credits', time: 90000, name: 'Credits', color: 'green' },
+    { id: 'opening', time: 0, name: 'Opening', color: 'blue' },
+    { id: 'interview', time: 65000, duration: 5000, name: 'Interview', color: 'red', note: 'Says "hi", waves' }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(ChapterExportService);
+  });
+
+  it('should end chapters at the end of the range or at the next marker', () => {
+    expect(service.getChapters(markers, 120000)).toEqual([
+      { start: 0, end: 65000, name: 'Opening' },
+      { start: 65000, end: 70000, name: 'Interview' },
+      { start: 90000, end: 120000, name: 'Credits' }
+    ]);
+  });
+
+  it('should export a WebVTT chapter track', () => {
+    expect(service.toWebVtt(markers, 120000)).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:01:05.000\nOpening\n\n' +
+      '2\n00:01:05.000 --> 00:01:10.000\nInterview\n\n' +
+      '3\n00:01:30.000 --> 00:02:00.000\nCredits\n'
+    );
+  });
+
+  it('should export YouTube chapters starting at 0:00', () => {
+    expect(service.toYouTubeChapters(markers)).toBe('0:00 Opening\n1:05 Interview\n1:30 Credits\n');
+    expect(service.toYouTubeChapters(markers.filter(m => m.id !== 'opening'))).toBe('0:00 Intro\n1:05 Interview\n1:30 Credits\n');
+  });
+
+  it('should export CSV with timecodes and escaped fields', () => {
+    const lines = service.toCsv(markers, { frameRate: 25, dropFrame: false }).split('\r\n');
+
+    expect(lines[0]).toBe('Name,Start,End,Duration,Color,Note');
+    expect(lines[1]).toBe('Opening,00:00:00:00,,,blue,');
+    expect(lines[2]).toBe('Interview,00:01:05:00,00:01:10:00,00:00:05:00,red,"Says ""hi"", waves"');
+    expect(lines[4]).toBe('');
+  });
+});
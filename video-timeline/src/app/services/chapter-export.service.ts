@@ -0,0 +1,95 @@
+import { Injectable } from '@angular/core';
+import { Marker, SequenceSettings } from '../models/timeline.models';
+import { TimecodeService } from './timecode.service';
+
+/**
+ * Service responsible for exporting the marker list as chapters and as a spreadsheet
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChapterExportService {
+  constructor(private timecodeService: TimecodeService) {}
+
+  /**
+   * Chapters start at each marker and last for the range of range markers,
+   * or up to the next marker (or the end of the timeline) for point markers
+   */
+  getChapters(markers: Marker[], totalDuration: number): { start: number; end: number; name: string }[] {
+    const sorted = this.sort(markers);
+    return sorted.map((marker, index) => {
+      const next = sorted.slice(index + 1).find(m => m.time > marker.time);
+      const end = marker.duration !== undefined ? marker.time + marker.duration : next?.time ?? totalDuration;
+      return { start: marker.time, end: Math.max(marker.time, end), name: marker.name };
+    });
+  }
+
+  /**
+   * WebVTT chapter track, as used by HTML video players
+   */
+  toWebVtt(markers: Marker[], totalDuration: number): string {
+    const cues = this.getChapters(markers, totalDuration).map((chapter, index) =>
+      `${index + 1}\n${this.formatVttTime(chapter.start)} --> ${this.formatVttTime(chapter.end)}\n${chapter.name}`
+    );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+
+  /**
+   * Chapter list for a YouTube video description
+   * YouTube only shows chapters when the first one starts at 0:00, so one is added when the first marker is later
+   */
+  toYouTubeChapters(markers: Marker[]): string {
+    const sorted = this.sort(markers);
+    const lines = sorted.map(marker => `${this.formatYouTubeTime(marker.time)} ${marker.name}`);
+    if (sorted.length > 0 && this.formatYouTubeTime(sorted[0].time) !== '0:00') {
+      lines.unshift('0:00 Intro');
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Spreadsheet friendly marker list with timecodes of the project frame rate
+   */
+  toCsv(markers: Marker[], sequence: SequenceSettings): string {
+    const timecode = (time: number) => this.timecodeService.msToTimecode(time, sequence.frameRate, sequence.dropFrame);
+    const rows = this.sort(markers).map(marker => [
+      marker.name,
+      timecode(marker.time),
+      marker.duration !== undefined ? timecode(marker.time + marker.duration) : '',
+      marker.duration !== undefined ? timecode(marker.duration) : '',
+      marker.color,
+      marker.note ?? ''
+    ]);
+    return [['Name', 'Start', 'End', 'Duration', 'Color', 'Note'], ...rows]
+      .map(row => row.map(value => this.escapeCsv(value)).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  private sort(markers: Marker[]): Marker[] {
+    return [...markers].sort((a, b) => a.time - b.time);
+  }
+
+  // HH:MM:SS.mmm
+  private formatVttTime(milliseconds: number): string {
+    const total = Math.round(milliseconds);
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor(total / 60000) % 60;
+    const seconds = Math.floor(total / 1000) % 60;
+    const ms = total % 1000;
+    return `${[hours, minutes, seconds].map(v => v.toString().padStart(2, '0')).join(':')}.${ms.toString().padStart(3, '0')}`;
+  }
+
+  // M:SS, or H:MM:SS from one hour on
+  private formatYouTubeTime(milliseconds: number): string {
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  }
+
+  // Quote fields containing separators, quotes or line breaks, doubling the quotes inside
+  private escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
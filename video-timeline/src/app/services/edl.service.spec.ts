@@ -0,0 +1,190 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { EdlService } from './edl.service';
+import { TimecodeService } from './timecode.service';
+import { MediaType, TimelineState } from '../models/timeline.models';
+import { EdlParseError } from '../models/edl.models';
+
+describe('EdlService', () => {
+  let service: EdlService;
+  let idCounter: number;
+  const generateId = () => `id-${++idCounter}`;
+
+  const createState = (): TimelineState => ({
+    tracks: [
+      {
+        id: 'track-1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          { id: 'a', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 1000, trackId: 'track-1', name: 'Interview cam A.mov' },
+          { id: 'b', type: MediaType.VIDEO, startTime: 2000, duration: 1000, mediaStartTime: 0, trackId: 'track-1', name: 'B-roll' }
+        ]
+      },
+      {
+        id: 'track-2',
+        name: 'Track 2',
+        order: 1,
+        items: [
+          { id: 'c', type: MediaType.AUDIO, startTime: 480, duration: 1520, mediaStartTime: 0, trackId: 'track-2', name: 'Music' }
+        ]
+      }
+    ],
+    playheadPosition: 0,
+    zoomLevel: 50,
+    totalDuration: 60000,
+    selectedItemIds: []
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(EdlService);
+    idCounter = 0;
+  });
+
+  it('should write a CMX3600 header and numbered events ordered by record in', () => {
+    const lines = service.exportEdl(createState(), { title: 'My Cut', frameRate: 25 }).split('\n');
+
+    expect(lines[0]).toBe('TITLE: My Cut');
+    expect(lines[1]).toBe('FCM: NON-DROP FRAME');
+    expect(lines[3]).toBe('001  INTERVIE V     C        00:00:01:00 00:00:03:00 00:00:00:00 00:00:02:00');
+    expect(lines[4]).toBe('* FROM CLIP NAME: Interview cam A.mov');
+    expect(lines[6]).toBe('002  MUSIC    A     C        00:00:00:00 00:00:01:13 00:00:00:12 00:00:02:00');
+    expect(lines[9]).toBe('003  BROLL    V     C        00:00:00:00 00:00:01:00 00:00:02:00 00:00:03:00');
+  });
+
+  it('should leave out muted audio and hidden video', () => {
+    const state = createState();
+    state.tracks[1].muted = true;
+    let edl = service.exportEdl(state, { title: 'My Cut', frameRate: 25 });
+    expect(edl).not.toContain('MUSIC');
+    expect(edl).toContain('BROLL');
+
+    state.tracks[0].hidden = true;
+    state.tracks[1].muted = false;
+    edl = service.exportEdl(state, { title: 'My Cut', frameRate: 25 });
+    expect(edl.split('\n')[3]).toBe('001  MUSIC    A     C        00:00:00:00 00:00:01:13 00:00:00:12 00:00:02:00');
+    expect(edl).not.toContain('BROLL');
+  });
+
+  it('should round-trip exported events back into tracks', () => {
+    const edl = service.exportEdl(createState(), { title: 'My Cut', frameRate: 25 });
+    const result = service.importEdl(edl, 25, generateId);
+
+    expect(result.title).toBe('My Cut');
+    expect(result.warnings).toEqual([]);
+    expect(result.tracks.map(t => t.name)).toEqual(['V1', 'A1']);
+    expect(result.tracks.map(t => t.kind)).toEqual(['video', 'audio']);
+
+    const [video, audio] = result.tracks;
+    expect(video.items.map(i => [i.name, i.startTime, i.duration, i.mediaStartTime])).toEqual([
+      ['Interview cam A.mov', 0, 2000, 1000],
+      ['B-roll', 2000, 1000, 0]
+    ]);
+    expect(audio.items[0].type).toBe(MediaType.AUDIO);
+    expect(audio.items[0].startTime).toBe(480);
+    expect(audio.items[0].trackId).toBe(audio.id);
+  });
+
+  it('should place the timeline start at 01:00:00:00 and spread overlapping events over tracks', () => {
+    const edl = [
+      'TITLE: Other NLE',
+      'FCM: NON-DROP FRAME',
+      '001  TAPE1    V     C        00:00:10:00 00:00:12:00 01:00:00:00 01:00:02:00',
+      '002  TAPE2    V     C        00:00:00:00 00:00:01:00 01:00:01:00 01:00:02:00',
+      '003  TAPE3    AA    C        00:00:00:00 00:00:02:00 01:00:00:00 01:00:02:00'
+    ].join('\n');
+
+    const result = service.importEdl(edl, 24, generateId);
+
+    expect(result.tracks.map(t => t.name)).toEqual(['V2', 'V1', 'A1', 'A2']);
+    expect(result.tracks[1].items[0].startTime).toBe(0);
+    expect(result.tracks[1].items[0].mediaStartTime).toBe(10000);
+    expect(result.tracks[0].items[0].startTime).toBe(1000);
+  });
+
+  it('should keep imported times on the frame grid at 23.976 fps', () => {
+    const edl = [
+      'TITLE: Film',
+      'FCM: NON-DROP FRAME',
+      '001  TAPE1    V     C        00:00:00:05 00:00:01:00 01:00:00:00 01:00:00:19',
+      '002  TAPE2    V     C        00:00:00:00 00:00:01:00 01:00:00:19 01:00:01:19'
+    ].join('\n');
+    const frames = (count: number) => TestBed.inject(TimecodeService).framesToMs(count, 23.976);
+
+    const result = service.importEdl(edl, 23.976, generateId);
+
+    expect(result.tracks.length).toBe(1);
+    expect(result.tracks[0].items.map(i => [i.startTime, i.startTime + i.duration, i.mediaStartTime])).toEqual([
+      [0, frames(19), frames(5)],
+      [frames(19), frames(43), 0]
+    ]);
+  });
+
+  it('should write and read drop-frame timecode at 29.97 fps', () => {
+    const timecode = TestBed.inject(TimecodeService);
+    const state = createState();
+    // 00:01:00;02 is the first frame number of the second minute in drop-frame timecode
+    const startTime = timecode.timecodeToMs('00:01:00;02', 29.97, true)!;
+    state.tracks = [{ ...state.tracks[0], items: [{ ...state.tracks[0].items[0], startTime, mediaStartTime: 0 }] }];
+
+    const edl = service.exportEdl(state, { title: 'NTSC', frameRate: 29.97, dropFrame: true });
+    const lines = edl.split('\n');
+    expect(lines[1]).toBe('FCM: DROP FRAME');
+    expect(lines[3]).toContain('00:01:00;02 00:01:02;02');
+
+    const result = service.importEdl(edl, 29.97, generateId);
+    expect(result.warnings).toEqual([]);
+    expect(result.tracks[0].items[0].startTime).toBeCloseTo(startTime, 6);
+    expect(result.tracks[0].items[0].duration).toBeCloseTo(timecode.framesToMs(60, 29.97), 6);
+  });
+
+  it('should skip black events and warn about unsupported lines', () => {
+    const edl = [
+      '001  BL       V     C        00:00:00:00 00:00:01:00 00:00:00:00 00:00:01:00',
+      '002  TAPE1    V     D    025 00:00:00:00 00:00:02:00 00:00:01:00 00:00:03:00',
+      'M2   TAPE1       050.0                00:00:00:00',
+      'garbage'
+    ].join('\n');
+
+    const result = service.importEdl(edl, 25, generateId);
+
+    expect(result.tracks.length).toBe(1);
+    expect(result.tracks[0].items.length).toBe(1);
+    expect(result.warnings.length).toBe(3);
+  });
+
+  it('should write a dissolve as a pair of events and read it back as a transition', () => {
+    const state = createState();
+    state.tracks = [{
+      ...state.tracks[0],
+      transitions: [{ id: 't1', type: 'dissolve', fromItemId: 'a', toItemId: 'b', duration: 800, alignment: 'center' }]
+    }];
+    state.tracks[0].items[1].mediaStartTime = 1000;
+
+    const edl = service.exportEdl(state, { title: 'My Cut', frameRate: 25 });
+    const lines = edl.split('\n');
+
+    expect(lines[3]).toBe('001  INTERVIE V     C        00:00:01:00 00:00:02:15 00:00:00:00 00:00:01:15');
+    expect(lines[6]).toBe('002  INTERVIE V     C        00:00:02:15 00:00:02:15 00:00:01:15 00:00:01:15');
+    expect(lines[7]).toBe('002  BROLL    V     D    020 00:00:00:15 00:00:02:00 00:00:01:15 00:00:03:00');
+
+    const result = service.importEdl(edl, 25, generateId);
+    const [video] = result.tracks;
+
+    expect(result.warnings).toEqual([]);
+    expect(video.items.map(i => [i.name, i.startTime, i.duration, i.mediaStartTime])).toEqual([
+      ['Interview cam A.mov', 0, 1600, 1000],
+      ['B-roll', 1600, 1400, 600]
+    ]);
+    expect(video.transitions?.map(t => [t.fromItemId, t.toItemId, t.duration, t.alignment])).toEqual([
+      [video.items[0].id, video.items[1].id, 800, 'start']
+    ]);
+  });
+
+  it('should reject files without events', () => {
+    expect(() => service.importEdl('TITLE: Empty\n', 25, generateId)).toThrowError(EdlParseError);
+  });
+});
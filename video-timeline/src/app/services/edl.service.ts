@@ -0,0 +1,411 @@
+import { Injectable } from '@angular/core';
+import { MediaItem, MediaType, Track, TimelineState } from '../models/timeline.models';
+import { EdlExportOptions, EdlImportResult, EdlParseError } from '../models/edl.models';
+import { TimecodeService } from './timecode.service';
+import { MediaAssetService } from './media-asset.service';
+import { TransitionService } from './transition.service';
+import { TrackOutputService } from './track-output.service';
+
+interface EdlEvent {
+  number: string;
+  reel: string;
+  channel: string;
+  sourceIn: number; // frames
+  sourceOut: number; // frames
+  recordIn: number; // frames
+  recordOut: number; // frames
+  clipName: string | null;
+  dissolveFrames?: number; // Length of the dissolve from the previous event into this one
+}
+
+// An item as written to the EDL, its record range is shortened or extended by transitions
+interface EdlExportEntry {
+  item: MediaItem;
+  channel: string;
+  recordIn: number; // milliseconds
+  recordOut: number; // milliseconds
+  dissolve?: { from: MediaItem; duration: number }; // Transition from the previous item, duration in milliseconds
+}
+
+/**
+ * Service responsible for converting the timeline to and from CMX3600 edit decision lists
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EdlService {
+  private readonly REEL_NAME_LENGTH = 8; // CMX3600 reel field width
+  private readonly BLACK_REELS = ['BL', 'BLK', 'BLACK'];
+  private readonly EVENT_PATTERN =
+    /^(\d+)\s+(\S+)\s+(\S+)\s+(C|D|W\d{3}|KB?|KO)\s+(?:(\d+)\s+)?(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s*$/i;
+
+  constructor(
+    private timecode: TimecodeService,
+    private mediaAssets: MediaAssetService,
+    private transitions: TransitionService,
+    private trackOutput: TrackOutputService
+  ) {}
+
+  /**
+   * Write every item on the timeline as an event, ordered by record in
+   * Video and image items go to the V channel, each audio track gets its own audio channel.
+   * A transition becomes a dissolve event: the outgoing item ends where the transition starts and the
+   * incoming item dissolves in from there, preceded by the usual zero-length event of the outgoing source.
+   * Items of muted, unsoloed or hidden tracks are left out.
+   */
+  exportEdl(state: TimelineState, options: EdlExportOptions): string {
+    const { frameRate } = options;
+    const dropFrame = !!options.dropFrame && this.timecode.supportsDropFrame(frameRate);
+    const tracks = this.trackOutput.getOutputTracks(state.tracks);
+    const audioChannels = this.getAudioChannels(tracks);
+    const entries: EdlExportEntry[] = [];
+
+    for (const track of [...tracks].sort((a, b) => a.order - b.order)) {
+      const trackEntries = track.items.map(item => ({
+        item,
+        channel: item.type === MediaType.AUDIO ? audioChannels.get(track.id)! : 'V',
+        recordIn: item.startTime,
+        recordOut: item.startTime + item.duration
+      } as EdlExportEntry));
+
+      for (const transition of track.transitions ?? []) {
+        const items = this.transitions.findItems(track, transition);
+        if (!items) continue;
+
+        const { start } = this.transitions.getRange(transition, items.from);
+        const fromEntry = trackEntries.find(e => e.item.id === items.from.id)!;
+        const toEntry = trackEntries.find(e => e.item.id === items.to.id)!;
+        fromEntry.recordOut = start;
+        toEntry.recordIn = start;
+        toEntry.dissolve = { from: items.from, duration: transition.duration };
+      }
+      entries.push(...trackEntries);
+    }
+    entries.sort((a, b) => a.recordIn - b.recordIn);
+
+    const lines = [
+      `TITLE: ${options.title.trim() || 'Untitled'}`,
+      dropFrame ? 'FCM: DROP FRAME' : 'FCM: NON-DROP FRAME',
+      ''
+    ];
+
+    let eventNumber = 0;
+    for (const { item, channel, recordIn: recordInMs, recordOut: recordOutMs, dissolve } of entries) {
+      const recordIn = this.timecode.msToFrames(recordInMs, frameRate);
+      const recordOut = this.timecode.msToFrames(recordOutMs, frameRate);
+      // Items shorter than a frame cannot be expressed in timecode
+      if (recordOut <= recordIn) continue;
+
+      const sourceIn = this.getSourceFrame(item, recordInMs, frameRate);
+      const sourceOut = sourceIn + (recordOut - recordIn);
+      const sourceName = this.getSourceName(item);
+
+      eventNumber++;
+      const number = eventNumber.toString().padStart(3, '0');
+      if (dissolve) {
+        const fromSource = this.getSourceFrame(dissolve.from, recordInMs, frameRate);
+        const fromName = this.getSourceName(dissolve.from);
+        const dissolveFrames = this.timecode.msToFrames(dissolve.duration, frameRate);
+        lines.push(this.formatEvent(number, fromName, channel, 'C', [fromSource, fromSource, recordIn, recordIn], frameRate, dropFrame));
+        lines.push(this.formatEvent(
+          number,
+          sourceName,
+          channel,
+          `D    ${dissolveFrames.toString().padStart(3, '0')}`,
+          [sourceIn, sourceOut, recordIn, recordOut],
+          frameRate,
+          dropFrame
+        ));
+        lines.push(`* FROM CLIP NAME: ${fromName}`);
+        lines.push(`* TO CLIP NAME: ${sourceName}`);
+      } else {
+        lines.push(this.formatEvent(number, sourceName, channel, 'C', [sourceIn, sourceOut, recordIn, recordOut], frameRate, dropFrame));
+        lines.push(`* FROM CLIP NAME: ${sourceName}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Read a CMX3600 EDL into new tracks
+   * Events on the same channel that overlap are spread over additional tracks.
+   * Timecodes are read as drop-frame when the FCM line says so and the frame rate has drop-frame timecode.
+   */
+  importEdl(text: string, frameRate: number, generateId: () => string): EdlImportResult {
+    const warnings: string[] = [];
+    const events: EdlEvent[] = [];
+    let title: string | null = null;
+    let dropFrame = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (/^TITLE:/i.test(line)) {
+        title = line.slice(line.indexOf(':') + 1).trim() || null;
+        continue;
+      }
+
+      if (/^FCM:/i.test(line)) {
+        if (/DROP FRAME/i.test(line) && !/NON-DROP/i.test(line)) {
+          dropFrame = this.timecode.supportsDropFrame(frameRate);
+          if (!dropFrame) {
+            warnings.push('Drop-frame timecode was read as non-drop frame');
+          }
+        }
+        continue;
+      }
+
+      if (line.startsWith('*')) {
+        // After a dissolve the FROM name belongs to the outgoing clip and the TO name to the event itself
+        const clipName = /^\*\s*(FROM|TO) CLIP NAME:\s*(.+)$/i.exec(line);
+        const lastEvent = events[events.length - 1];
+        if (clipName && lastEvent && (clipName[1].toUpperCase() === 'TO' || lastEvent.dissolveFrames === undefined)) {
+          lastEvent.clipName = clipName[2].trim();
+        }
+        continue;
+      }
+
+      if (/^M2\s/i.test(line)) {
+        warnings.push(`Speed change "${line}" is not supported and was ignored`);
+        continue;
+      }
+
+      const event = this.parseEventLine(line, frameRate, dropFrame, warnings);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    if (events.length === 0) {
+      throw new EdlParseError('The file does not contain any EDL events');
+    }
+
+    return { title, tracks: this.buildTracks(events, frameRate, dropFrame, warnings, generateId), warnings };
+  }
+
+  private parseEventLine(line: string, frameRate: number, dropFrame: boolean, warnings: string[]): EdlEvent | null {
+    const match = this.EVENT_PATTERN.exec(line);
+    if (!match) {
+      warnings.push(`Unrecognised line "${line}" was skipped`);
+      return null;
+    }
+
+    const [, number, reel, channel, transition, transitionFrames, ...timecodes] = match;
+    const frames = timecodes.map(tc => this.timecode.timecodeToFrames(tc, frameRate, dropFrame));
+    if (frames.some(value => value === null)) {
+      warnings.push(`Event ${number}: timecode is not valid at ${frameRate} fps, event skipped`);
+      return null;
+    }
+
+    const [sourceIn, sourceOut, recordIn, recordOut] = frames as number[];
+    if (recordOut <= recordIn) {
+      // Zero-length events are the outgoing half of a dissolve
+      return null;
+    }
+    const isDissolve = transition.toUpperCase() === 'D' && transitionFrames !== undefined;
+    if (transition.toUpperCase() !== 'C' && !isDissolve) {
+      warnings.push(`Event ${number}: transition ${transition} was imported as a cut`);
+    }
+    if (sourceOut - sourceIn !== recordOut - recordIn) {
+      warnings.push(`Event ${number}: source and record durations differ, the record duration was used`);
+    }
+
+    const event: EdlEvent = { number, reel, channel, sourceIn, sourceOut, recordIn, recordOut, clipName: null };
+    if (isDissolve) {
+      event.dissolveFrames = Number(transitionFrames);
+    }
+    return event;
+  }
+
+  private buildTracks(
+    events: EdlEvent[],
+    frameRate: number,
+    dropFrame: boolean,
+    warnings: string[],
+    generateId: () => string
+  ): Track[] {
+    // EDLs conventionally start the record timeline at 01:00:00:00
+    const framesPerHour = this.timecode.timecodeToFrames('01:00:00:00', frameRate, dropFrame)!;
+    const firstRecordIn = Math.min(...events.map(e => e.recordIn));
+    const recordOffset = Math.floor(firstRecordIn / framesPerHour) * framesPerHour;
+
+    const lanes = new Map<string, Track[]>(); // channel key -> tracks holding that channel
+
+    for (const event of events) {
+      if (this.BLACK_REELS.includes(event.reel.toUpperCase())) continue;
+
+      const channels = this.parseChannels(event.channel);
+      if (!channels) {
+        warnings.push(`Event ${event.number}: unknown channel "${event.channel}", event skipped`);
+        continue;
+      }
+
+      // Times stay on the frame grid, at rates like 23.976 frames fall between whole milliseconds
+      const startTime = this.timecode.framesToMs(event.recordIn - recordOffset, frameRate);
+      const endTime = this.timecode.framesToMs(event.recordOut - recordOffset, frameRate);
+      const name = event.clipName ?? event.reel;
+      const asset = this.mediaAssets.assets().find(a => a.name === name);
+
+      const channelKeys = [...(channels.video ? ['V'] : []), ...channels.audio.map(n => `A${n}`)];
+      for (const key of channelKeys) {
+        const type = key === 'V'
+          ? (asset?.type === MediaType.IMAGE ? MediaType.IMAGE : MediaType.VIDEO)
+          : MediaType.AUDIO;
+        const item: MediaItem = {
+          id: generateId(),
+          type,
+          startTime,
+          duration: endTime - startTime,
+          trackId: '',
+          name
+        };
+        if (type !== MediaType.IMAGE) {
+          item.mediaStartTime = this.timecode.framesToMs(event.sourceIn, frameRate);
+        }
+        if (asset) {
+          item.sourceId = asset.id;
+          item.maxDuration = asset.duration;
+        }
+
+        const track = this.placeOnLane(lanes, key, item, generateId);
+        if (event.dissolveFrames) {
+          this.addDissolve(track, item, event, frameRate, warnings, generateId);
+        }
+      }
+    }
+
+    // Higher video layers sit above lower ones, audio follows below the video
+    const videoTracks = [...(lanes.get('V') ?? [])].reverse();
+    const audioKeys = [...lanes.keys()].filter(key => key !== 'V').sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+    const audioTracks = audioKeys.flatMap(key => lanes.get(key)!);
+
+    return [...videoTracks, ...audioTracks].map((track, index) => this.transitions.normalizeTrack({
+      ...track,
+      order: index,
+      items: [...track.items].sort((a, b) => a.startTime - b.startTime)
+    }));
+  }
+
+  /**
+   * Turn a dissolve event into a transition starting on the cut from the item that ends where the event starts
+   */
+  private addDissolve(
+    track: Track,
+    item: MediaItem,
+    event: EdlEvent,
+    frameRate: number,
+    warnings: string[],
+    generateId: () => string
+  ): void {
+    const from = track.items.find(i => i.id !== item.id && Math.abs(i.startTime + i.duration - item.startTime) < 1);
+    if (!from) {
+      warnings.push(`Event ${event.number}: dissolve has no outgoing clip on the same track and was imported as a cut`);
+      return;
+    }
+
+    track.transitions = [...(track.transitions ?? []), {
+      id: generateId(),
+      type: item.type === MediaType.AUDIO ? 'crossfade' : 'dissolve',
+      fromItemId: from.id,
+      toItemId: item.id,
+      duration: this.timecode.framesToMs(event.dissolveFrames!, frameRate),
+      alignment: 'start'
+    }];
+  }
+
+  private placeOnLane(lanes: Map<string, Track[]>, key: string, item: MediaItem, generateId: () => string): Track {
+    const tracks = lanes.get(key) ?? [];
+    lanes.set(key, tracks);
+
+    let track = tracks.find(t => t.items.every(existing =>
+      item.startTime >= existing.startTime + existing.duration ||
+      item.startTime + item.duration <= existing.startTime
+    ));
+
+    if (!track) {
+      // Extra lanes for overlapping events are numbered after the channel, e.g. V2 or A1 (2)
+      const name = key === 'V' ? `V${tracks.length + 1}` : tracks.length === 0 ? key : `${key} (${tracks.length + 1})`;
+      track = { id: generateId(), name, order: 0, items: [], kind: key === 'V' ? 'video' : 'audio' };
+      tracks.push(track);
+    }
+
+    track.items.push({ ...item, trackId: track.id });
+    return track;
+  }
+
+  /**
+   * Channel field of an event line: V, A, A2, AA (A1 + A2), B (V + A1) or combinations such as AA/V
+   */
+  private parseChannels(field: string): { video: boolean; audio: number[] } | null {
+    const upper = field.toUpperCase();
+    if (upper === 'B') return { video: true, audio: [1] };
+
+    const result = { video: false, audio: [] as number[] };
+    for (const part of upper.split('/')) {
+      if (part === 'V') {
+        result.video = true;
+      } else if (part === 'A') {
+        result.audio.push(1);
+      } else if (part === 'AA') {
+        result.audio.push(1, 2);
+      } else if (/^A\d+$/.test(part)) {
+        result.audio.push(Number(part.slice(1)));
+      } else {
+        return null;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Number audio channels by the order of the tracks that contain audio: A, A2, A3, ...
+   */
+  private getAudioChannels(tracks: Track[]): Map<string, string> {
+    const channels = new Map<string, string>();
+    const audioTracks = [...tracks]
+      .sort((a, b) => a.order - b.order)
+      .filter(track => track.items.some(item => item.type === MediaType.AUDIO));
+
+    audioTracks.forEach((track, index) => {
+      channels.set(track.id, index === 0 ? 'A' : `A${index + 1}`);
+    });
+    return channels;
+  }
+
+  private formatEvent(
+    number: string,
+    sourceName: string,
+    channel: string,
+    transition: string,
+    frames: number[],
+    frameRate: number,
+    dropFrame: boolean
+  ): string {
+    const timecodes = frames.map(value => this.timecode.framesToTimecode(value, frameRate, dropFrame)).join(' ');
+    return `${number}  ${this.toReelName(sourceName).padEnd(this.REEL_NAME_LENGTH)} ${channel.padEnd(5)} ${transition.padEnd(8)} ${timecodes}`;
+  }
+
+  /**
+   * Source frame played at a record time, which lies in a handle when the time is outside the item
+   */
+  private getSourceFrame(item: MediaItem, recordTime: number, frameRate: number): number {
+    const mediaTime = (item.mediaStartTime ?? 0) + (recordTime - item.startTime);
+    return this.timecode.msToFrames(Math.max(0, mediaTime), frameRate);
+  }
+
+  private getSourceName(item: MediaItem): string {
+    const asset = item.sourceId ? this.mediaAssets.getAsset(item.sourceId) : undefined;
+    return asset?.name ?? item.name ?? 'Untitled';
+  }
+
+  /**
+   * Reel names are limited to 8 characters of letters, digits and underscores
+   */
+  private toReelName(name: string): string {
+    const reel = name.toUpperCase().replace(/[^A-Z0-9_]/g, '').slice(0, this.REEL_NAME_LENGTH);
+    return reel || 'AX';
+  }
+}
@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { FilmstripService } from './filmstrip.service';
+import { MediaAssetService } from './media-asset.service';
+import { MediaType } from '../models/timeline.models';
+
+describe('FilmstripService', () => {
+  let service: FilmstripService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(FilmstripService);
+  });
+
+  it('should size frames from the source dimensions', () => {
+    TestBed.inject(MediaAssetService).assets.set([{
+      id: 'square', name: 'Square', type: MediaType.VIDEO, mimeType: 'video/mp4', size: 1, duration: 10000, width: 500, height: 500, url: ''
+    }]);
+
+    expect(service.getFrameWidth('square')).toBe(40);
+    expect(service.getFrameWidth('unknown')).toBe(71);
+  });
+
+  it('should space frames by the smallest step they fit in at the current zoom', () => {
+    // 71px frames need 1420ms at 0.05 px/ms and 142ms at 0.5 px/ms
+    expect(service.getFrameInterval(0.05, 71)).toBe(2000);
+    expect(service.getFrameInterval(0.5, 71)).toBe(250);
+    expect(service.getFrameInterval(0.00001, 71)).toBe(300000);
+  });
+
+  it('should cover the shown part of the source with frames on shared times', () => {
+    expect(service.getFrameTimes(1500, 3000, 1000)).toEqual([1000, 2000, 3000, 4000]);
+    expect(service.getFrameTimes(0, 2000, 1000)).toEqual([0, 1000]);
+  });
+
+  it('should not keep frames of sources that are not imported', async () => {
+    service.request({}, 'missing', [0, 1000]);
+    await Promise.resolve();
+
+    expect(service.getFrame('missing', 0)).toBeUndefined();
+    expect(service.sourcesWithFrames().size).toBe(0);
+  });
+
+  it('should drop queued frames that no requester waits for any more', () => {
+    const filmstrip = {};
+    const other = {};
+    const queuedTimes = () => service['queue'].map(frame => frame.time);
+
+    // The last frame is taken off the queue right away, the rest wait for it
+    service.request(filmstrip, 'missing', [0, 1000, 2000, 3000]);
+    service.request(other, 'missing', [1000]);
+    service.request(filmstrip, 'missing', [0]);
+    expect(queuedTimes()).toEqual([0, 1000]);
+
+    service.cancel(other);
+    expect(queuedTimes()).toEqual([0]);
+
+    // A dropped frame is queued again when it comes back into view
+    service.request(filmstrip, 'missing', [0, 2000]);
+    expect(queuedTimes()).toEqual([0, 2000]);
+  });
+});
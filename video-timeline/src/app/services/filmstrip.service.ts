@@ -0,0 +1,192 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { MediaAssetService } from './media-asset.service';
+
+/**
+ * Service responsible for the frame thumbnails shown along video items
+ * Frames are grabbed from a hidden video element per source, one seek at a time, and cached by source and time
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FilmstripService {
+  readonly FRAME_HEIGHT = 40; // pixels
+  private readonly DEFAULT_ASPECT_RATIO = 16 / 9;
+  // Frame spacing is picked from these steps so frames are shared between zoom levels
+  private readonly FRAME_INTERVALS = [100, 250, 500, 1000, 2000, 5000, 10000, 30000, 60000, 300000]; // milliseconds
+  private readonly MAX_CACHED_FRAMES = 2000; // Oldest frames are dropped beyond this
+  private readonly SEEK_TIMEOUT_MS = 5000;
+
+  readonly frames = signal<Record<string, string>>({}); // "sourceId@time" -> data URL of the frame
+  // Sources that have at least one frame, their items show frames instead of the video icon
+  readonly sourcesWithFrames = computed(() => new Set(Object.keys(this.frames()).map(key => key.slice(0, key.lastIndexOf('@')))));
+
+  private queue: { sourceId: string; time: number }[] = [];
+  private readonly requestedKeys = new Set<string>(); // Queued, grabbed or failed frames
+  private readonly pending = new Map<object, Set<string>>(); // Keys of the frames each requester is waiting for
+  private readonly videos = new Map<string, HTMLVideoElement>();
+  private isProcessing = false;
+
+  constructor(private mediaAssetService: MediaAssetService) {}
+
+  /**
+   * Width of one frame at FRAME_HEIGHT, from the dimensions of the source when they are known
+   */
+  getFrameWidth(sourceId: string): number {
+    const asset = this.mediaAssetService.getAsset(sourceId);
+    const aspectRatio = asset?.width && asset.height ? asset.width / asset.height : this.DEFAULT_ASPECT_RATIO;
+    return Math.round(this.FRAME_HEIGHT * aspectRatio);
+  }
+
+  /**
+   * Time between frames so that at the given zoom they sit side by side without overlapping
+   */
+  getFrameInterval(pixelsPerMillisecond: number, frameWidth: number): number {
+    const minimum = frameWidth / pixelsPerMillisecond;
+    return this.FRAME_INTERVALS.find(interval => interval >= minimum) ?? this.FRAME_INTERVALS[this.FRAME_INTERVALS.length - 1];
+  }
+
+  /**
+   * Source times of the frames covering a part of the source, starting at or before its first millisecond
+   */
+  getFrameTimes(mediaStartTime: number, duration: number, interval: number): number[] {
+    const times: number[] = [];
+    for (let time = Math.floor(mediaStartTime / interval) * interval; time < mediaStartTime + duration; time += interval) {
+      times.push(time);
+    }
+    return times;
+  }
+
+  getFrame(sourceId: string, time: number): string | undefined {
+    return this.frames()[this.getKey(sourceId, time)];
+  }
+
+  /**
+   * Replace the frames a requester is waiting for and queue the ones that were not requested before
+   * The most recently requested frames are grabbed first, so scrolling on fills the new view before the old one.
+   * Queued frames no requester waits for any more are dropped
+   */
+  request(requester: object, sourceId: string, times: number[]): void {
+    const keys = new Set(times.map(time => this.getKey(sourceId, time)));
+    const previous = this.pending.get(requester) ?? new Set<string>();
+    this.pending.set(requester, keys);
+    this.dropUnwanted([...previous].filter(key => !keys.has(key)));
+
+    for (const time of times) {
+      const key = this.getKey(sourceId, time);
+      if (this.requestedKeys.has(key)) continue;
+      this.requestedKeys.add(key);
+      this.queue.push({ sourceId, time });
+    }
+    void this.processQueue();
+  }
+
+  /**
+   * Stop waiting for the frames of a requester that goes away
+   */
+  cancel(requester: object): void {
+    const keys = this.pending.get(requester) ?? new Set<string>();
+    this.pending.delete(requester);
+    this.dropUnwanted([...keys]);
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    while (this.queue.length > 0) {
+      const { sourceId, time } = this.queue.pop()!;
+      try {
+        const frame = await this.grabFrame(sourceId, time);
+        if (frame) {
+          this.store(this.getKey(sourceId, time), frame);
+        }
+      } catch {
+        // The slot keeps showing the item without a frame
+      }
+    }
+
+    // Release the decoders until frames are needed again
+    for (const video of this.videos.values()) {
+      video.removeAttribute('src');
+      video.load();
+    }
+    this.videos.clear();
+    this.isProcessing = false;
+  }
+
+  private async grabFrame(sourceId: string, time: number): Promise<string | undefined> {
+    const asset = this.mediaAssetService.getAsset(sourceId);
+    if (!asset) return undefined;
+
+    let video = this.videos.get(sourceId);
+    if (!video) {
+      video = document.createElement('video');
+      video.muted = true;
+      video.preload = 'auto';
+      video.src = asset.url;
+      this.videos.set(sourceId, video);
+    }
+
+    const target = video;
+    await this.withTimeout(new Promise<void>((resolve, reject) => {
+      target.onseeked = () => resolve();
+      target.onerror = () => reject(new Error('The frame could not be decoded'));
+      target.currentTime = Math.min(time, asset.duration - 1) / 1000;
+    }));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = this.getFrameWidth(sourceId);
+    canvas.height = this.FRAME_HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+
+    context.drawImage(target, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.6);
+  }
+
+  private store(key: string, frame: string): void {
+    this.frames.update(frames => {
+      const next = { ...frames, [key]: frame };
+      const keys = Object.keys(next);
+      // Keys keep their insertion order, so the first ones are the oldest frames
+      for (const oldKey of keys.slice(0, Math.max(0, keys.length - this.MAX_CACHED_FRAMES))) {
+        delete next[oldKey];
+        this.requestedKeys.delete(oldKey);
+      }
+      return next;
+    });
+  }
+
+  // Dropped frames can be queued again by a later request
+  private dropUnwanted(keys: string[]): void {
+    const unwanted = new Set(keys.filter(key => ![...this.pending.values()].some(wanted => wanted.has(key))));
+    if (unwanted.size === 0) return;
+
+    this.queue = this.queue.filter(({ sourceId, time }) => {
+      const key = this.getKey(sourceId, time);
+      if (!unwanted.has(key)) return true;
+      this.requestedKeys.delete(key);
+      return false;
+    });
+  }
+
+  private getKey(sourceId: string, time: number): string {
+    return `${sourceId}@${time}`;
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out grabbing a frame')), this.SEEK_TIMEOUT_MS);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
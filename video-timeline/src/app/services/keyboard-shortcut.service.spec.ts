@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { KeyboardShortcutService } from './keyboard-shortcut.service';
+
+describe('KeyboardShortcutService', () => {
+  let service: KeyboardShortcutService;
+
+  const keydown = (key: string, init: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { key, cancelable: true, ...init });
+
+  beforeEach(() => {
+    localStorage.removeItem('video-timeline.keymap');
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(KeyboardShortcutService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('video-timeline.keymap');
+  });
+
+  it('should describe key presses as combinations', () => {
+    expect(service.comboFromEvent(keydown(' '))).toBe('Space');
+    expect(service.comboFromEvent(keydown('z', { ctrlKey: true, shiftKey: true }))).toBe('Ctrl+Shift+Z');
+    expect(service.comboFromEvent(keydown('z', { metaKey: true }))).toBe('Ctrl+Z');
+    expect(service.comboFromEvent(keydown('+', { shiftKey: true }))).toBe('+');
+    expect(service.comboFromEvent(keydown('Shift', { shiftKey: true }))).toBeNull();
+  });
+
+  it('should run the handler bound to a key press', () => {
+    let calls = 0;
+    service.register({ split: () => calls++ });
+
+    const event = keydown('s');
+    expect(service.handleKeyDown(event)).toBe(true);
+    expect(calls).toBe(1);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it('should ignore key presses while typing in an input', () => {
+    let calls = 0;
+    service.register({ split: () => calls++ });
+
+    const input = document.createElement('input');
+    const event = keydown('s');
+    Object.defineProperty(event, 'target', { value: input });
+
+    expect(service.handleKeyDown(event)).toBe(false);
+    expect(calls).toBe(0);
+  });
+
+  it('should move a combination away from the action it conflicts with', () => {
+    expect(service.findConflict('S', 'playPause')).toBe('split');
+
+    service.setBinding('playPause', 'S', 0);
+
+    expect(service.bindings().playPause).toEqual(['S']);
+    expect(service.bindings().split).toEqual([]);
+    expect(service.findAction('S')).toBe('playPause');
+  });
+
+  it('should persist changes and restore defaults', () => {
+    service.setBinding('markIn', 'Ctrl+I', null);
+    expect(JSON.parse(localStorage.getItem('video-timeline.keymap')!)).toEqual({ markIn: ['I', 'Ctrl+I'] });
+
+    service.resetToDefaults();
+    expect(service.bindings().markIn).toEqual(['I']);
+    expect(service.isCustomized()).toBe(false);
+  });
+
+  it('should take default bindings back when an action is reset', () => {
+    service.setBinding('zoomOut', 'S', null);
+    service.resetAction('split');
+
+    expect(service.bindings().split).toEqual(['S']);
+    expect(service.bindings().zoomOut).toEqual(['-']);
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable, computed, signal } from '@angular/core';
+import {
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutActionId,
+  ShortcutBindings
+} from '../models/keyboard-shortcut.models';
+
+/**
+ * Service responsible for the keymap: which key combinations trigger which actions
+ * Holds the bindings, persists user changes per browser and dispatches key presses to registered handlers
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class KeyboardShortcutService {
+  private readonly STORAGE_KEY = 'video-timeline.keymap';
+  private readonly MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+  readonly actions: readonly ShortcutAction[] = SHORTCUT_ACTIONS;
+  readonly bindings = signal<ShortcutBindings>(this.loadBindings());
+  readonly isCustomized = computed(() => {
+    const bindings = this.bindings();
+    return this.actions.some(action => !this.sameBindings(bindings[action.id], action.defaultBindings));
+  });
+
+  private handlers: Partial<Record<ShortcutActionId, () => void>> = {};
+
+  /**
+   * Register the functions that run each action, replacing earlier handlers for the same actions
+   * Returns a function that removes them again
+   */
+  register(handlers: Partial<Record<ShortcutActionId, () => void>>): () => void {
+    this.handlers = { ...this.handlers, ...handlers };
+    return () => {
+      for (const id of Object.keys(handlers) as ShortcutActionId[]) {
+        if (this.handlers[id] === handlers[id]) {
+          delete this.handlers[id];
+        }
+      }
+    };
+  }
+
+  /**
+   * Run the action bound to a key press
+   * Returns true when an action handled the event
+   */
+  handleKeyDown(event: KeyboardEvent): boolean {
+    if (this.isTypingTarget(event.target)) return false;
+
+    const combo = this.comboFromEvent(event);
+    const actionId = combo ? this.findAction(combo) : null;
+    const handler = actionId ? this.handlers[actionId] : undefined;
+    if (!handler) return false;
+
+    event.preventDefault();
+    handler();
+    return true;
+  }
+
+  /**
+   * Keyboard input in form fields (e.g. the duration editor) must not trigger shortcuts
+   */
+  isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+  }
+
+  /**
+   * Describe a key press as a combination string, e.g. "Ctrl+Shift+Z"
+   * Ctrl and Cmd are treated as the same modifier; returns null for a lone modifier key
+   */
+  comboFromEvent(event: KeyboardEvent): string | null {
+    if (this.MODIFIER_KEYS.includes(event.key)) return null;
+
+    let key = event.key === ' ' ? 'Space' : event.key;
+    if (key.length === 1) {
+      key = key.toUpperCase();
+    }
+
+    // Shift is part of typing symbols such as "+", so it only counts for letters and named keys
+    const isSymbol = key.length === 1 && !/[A-Z0-9]/.test(key);
+    const parts: string[] = [];
+    if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+    if (event.altKey) parts.push('Alt');
+    if (event.shiftKey && !isSymbol) parts.push('Shift');
+    parts.push(key);
+
+    return parts.join('+');
+  }
+
+  findAction(combo: string): ShortcutActionId | null {
+    const bindings = this.bindings();
+    return this.actions.find(action => bindings[action.id].includes(combo))?.id ?? null;
+  }
+
+  getAction(id: ShortcutActionId): ShortcutAction {
+    return this.actions.find(action => action.id === id)!;
+  }
+
+  /**
+   * The other action a combination is already bound to, if any
+   */
+  findConflict(combo: string, actionId: ShortcutActionId): ShortcutActionId | null {
+    const existing = this.findAction(combo);
+    return existing && existing !== actionId ? existing : null;
+  }
+
+  /**
+   * Bind a combination to an action, replacing the binding at the given index or adding a new one
+   * The combination is removed from any other action so every key press stays unambiguous
+   */
+  setBinding(actionId: ShortcutActionId, combo: string, replaceIndex: number | null = null): void {
+    this.updateBindings(bindings => {
+      const next = { ...bindings };
+      for (const action of this.actions) {
+        if (action.id !== actionId && next[action.id].includes(combo)) {
+          next[action.id] = next[action.id].filter(c => c !== combo);
+        }
+      }
+
+      const current = next[actionId].filter((c, i) => i !== replaceIndex && c !== combo);
+      const index = replaceIndex === null ? current.length : Math.min(replaceIndex, current.length);
+      current.splice(index, 0, combo);
+      next[actionId] = current;
+      return next;
+    });
+  }
+
+  removeBinding(actionId: ShortcutActionId, combo: string): void {
+    this.updateBindings(bindings => ({
+      ...bindings,
+      [actionId]: bindings[actionId].filter(c => c !== combo)
+    }));
+  }
+
+  /**
+   * Restore the default bindings of one action, taking them back from any action they were moved to
+   */
+  resetAction(actionId: ShortcutActionId): void {
+    const defaults = this.getAction(actionId).defaultBindings;
+    this.updateBindings(bindings => {
+      const next = { ...bindings };
+      for (const action of this.actions) {
+        next[action.id] = next[action.id].filter(c => !defaults.includes(c));
+      }
+      next[actionId] = [...defaults];
+      return next;
+    });
+  }
+
+  resetToDefaults(): void {
+    this.updateBindings(() => this.getDefaultBindings());
+  }
+
+  private updateBindings(update: (bindings: ShortcutBindings) => ShortcutBindings): void {
+    this.bindings.update(update);
+    this.saveBindings();
+  }
+
+  private getDefaultBindings(): ShortcutBindings {
+    const bindings = {} as ShortcutBindings;
+    for (const action of this.actions) {
+      bindings[action.id] = [...action.defaultBindings];
+    }
+    return bindings;
+  }
+
+  /**
+   * Only actions that differ from the defaults are stored, so new default bindings still reach existing users
+   */
+  private saveBindings(): void {
+    const bindings = this.bindings();
+    const overrides: Partial<ShortcutBindings> = {};
+    for (const action of this.actions) {
+      if (!this.sameBindings(bindings[action.id], action.defaultBindings)) {
+        overrides[action.id] = bindings[action.id];
+      }
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(overrides));
+    } catch {
+      // Storage can be unavailable (private mode, quota), the keymap then only lasts for this session
+    }
+  }
+
+  private loadBindings(): ShortcutBindings {
+    const bindings = this.getDefaultBindings();
+
+    let overrides: unknown = null;
+    try {
+      overrides = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? 'null');
+    } catch {
+      return bindings;
+    }
+    if (typeof overrides !== 'object' || overrides === null) return bindings;
+
+    for (const action of SHORTCUT_ACTIONS) {
+      const stored = (overrides as Record<string, unknown>)[action.id];
+      if (Array.isArray(stored) && stored.every(combo => typeof combo === 'string')) {
+        bindings[action.id] = stored;
+      }
+    }
+    return bindings;
+  }
+
+  private sameBindings(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((combo, i) => combo === b[i]);
+  }
+}
@@ -0,0 +1,121 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { KeyframeService } from './keyframe.service';
+import { TimelineEditService } from './timeline-edit.service';
+import { MediaItem, MediaType, Track } from '../models/timeline.models';
+
+describe('KeyframeService', () => {
+  let service: KeyframeService;
+
+  // Opacity fades from 100 to 0 over the first two seconds of the item's media
+  const createItem = (overrides: Partial<MediaItem> = {}): MediaItem => ({
+    id: 'item-1',
+    type: MediaType.VIDEO,
+    startTime: 1000,
+    duration: 4000,
+    mediaStartTime: 500,
+    trackId: 'track-1',
+    keyframes: {
+      opacity: [
+        { id: 'k1', time: 500, value: 100, interpolation: 'linear' },
+        { id: 'k2', time: 2500, value: 0, interpolation: 'linear' }
+      ]
+    },
+    ...overrides
+  });
+
+  const createTracks = (item = createItem()): Track[] => [
+    { id: 'track-1', name: 'Track 1', order: 0, items: [item] }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(KeyframeService);
+  });
+
+  it('should return the default value of parameters without keyframes', () => {
+    const values = service.evaluateAll(createItem(), 2000);
+
+    expect(values.volume).toBe(100);
+    expect(values.positionX).toBe(0);
+    expect(values.scale).toBe(100);
+  });
+
+  it('should interpolate between keyframes and hold the outer values', () => {
+    const item = createItem();
+
+    expect(service.evaluate(item, 'opacity', 1000)).toBe(100);
+    expect(service.evaluate(item, 'opacity', 2000)).toBe(50);
+    expect(service.evaluate(item, 'opacity', 4000)).toBe(0);
+  });
+
+  it('should hold a value until the next keyframe or ease along a bezier curve', () => {
+    const [k1, k2] = createItem().keyframes!.opacity!;
+    const hold = createItem({ keyframes: { opacity: [{ ...k1, interpolation: 'hold' }, k2] } });
+    const bezier = createItem({ keyframes: { opacity: [{ ...k1, interpolation: 'bezier' }, k2] } });
+
+    expect(service.evaluate(hold, 'opacity', 2900)).toBe(100);
+    expect(service.evaluate(hold, 'opacity', 3000)).toBe(0);
+    expect(service.evaluate(bezier, 'opacity', 2000)).toBeCloseTo(50, 5);
+    // Ease-in-out starts slower than a straight line
+    expect(service.evaluate(bezier, 'opacity', 1500)).toBeGreaterThan(75);
+  });
+
+  it('should add a keyframe with the current value at the playhead', () => {
+    const tracks = service.addKeyframe(createTracks(), 'item-1', 'opacity', 2000, 'k3');
+    const keyframes = tracks[0].items[0].keyframes!.opacity!;
+
+    expect(keyframes.map(k => [k.id, k.time, k.value])).toEqual([['k1', 500, 100], ['k3', 1500, 50], ['k2', 2500, 0]]);
+    expect(service.addKeyframe(tracks, 'item-1', 'opacity', 2000, 'k4')[0].items[0].keyframes!.opacity!.length).toBe(3);
+    expect(service.addKeyframe(tracks, 'item-1', 'scale', 6000, 'k5')[0].items[0].keyframes!.scale).toBeUndefined();
+  });
+
+  it('should keep moved keyframes inside the item and the parameter range', () => {
+    const tracks = service.updateKeyframe(createTracks(), 'item-1', 'opacity', 'k1', { time: 9000, value: 150 });
+    const keyframes = tracks[0].items[0].keyframes!.opacity!;
+
+    expect(keyframes.map(k => [k.id, k.time, k.value])).toEqual([['k2', 2500, 0], ['k1', 4500, 100]]);
+
+    const removed = service.removeKeyframe(
+      service.removeKeyframe(tracks, 'item-1', 'opacity', 'k1'), 'item-1', 'opacity', 'k2'
+    );
+    expect(removed[0].items[0].keyframes).toBeUndefined();
+  });
+
+  it('should keep the animation on the content when an item is split', () => {
+    const editService = TestBed.inject(TimelineEditService);
+    const video = createItem();
+    const image = createItem({ type: MediaType.IMAGE, mediaStartTime: undefined, keyframes: {
+      opacity: [{ id: 'k1', time: 0, value: 100, interpolation: 'linear' }, { id: 'k2', time: 2000, value: 0, interpolation: 'linear' }]
+    } });
+
+    for (const item of [video, image]) {
+      const [, second] = editService.splitItem(item, 2000, 'item-2')!;
+      expect(service.evaluate(second, 'opacity', 2500)).toBe(service.evaluate(item, 'opacity', 2500));
+    }
+  });
+
+  it('should keep the animation of an image on its content when the image start moves', () => {
+    const editService = TestBed.inject(TimelineEditService);
+    const image = createItem({ type: MediaType.IMAGE, mediaStartTime: undefined, keyframes: {
+      opacity: [{ id: 'k1', time: 0, value: 100, interpolation: 'linear' }, { id: 'k2', time: 2000, value: 0, interpolation: 'linear' }]
+    } });
+    const expected = service.evaluate(image, 'opacity', 2500);
+
+    // The tail left over after an overwrite starts later than the original image
+    const overwritten = editService.overwriteItem(
+      createTracks(image),
+      createItem({ id: 'new', startTime: 1000, duration: 1000, keyframes: undefined }),
+      () => 'tail'
+    );
+    const tail = overwritten[0].items.find(i => i.id === 'item-1')!;
+    expect(tail.startTime).toBe(2000);
+    expect(service.evaluate(tail, 'opacity', 2500)).toBe(expected);
+
+    // A ripple trim of the left edge removes content from the head and keeps the start time
+    const trimmed = editService.rippleTrim(createTracks(image), 'item-1', 'left', 1500)[0].items[0];
+    expect(service.evaluate(trimmed, 'opacity', 2000)).toBe(expected);
+  });
+});
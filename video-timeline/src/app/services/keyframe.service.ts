@@ -0,0 +1,183 @@
+import { Injectable } from '@angular/core';
+import { MediaItem, MediaType, Track } from '../models/timeline.models';
+import {
+  BezierEasing,
+  DEFAULT_BEZIER_EASING,
+  Keyframe,
+  KEYFRAME_PARAMETERS,
+  KeyframeParameter,
+  KeyframeParameterDefinition
+} from '../models/keyframe.models';
+
+/**
+ * Service responsible for evaluating and editing the keyframed parameters of media items
+ * Before the first and after the last keyframe a parameter holds the value of that keyframe
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class KeyframeService {
+  private readonly SAME_TIME_TOLERANCE = 1; // milliseconds - adding closer to an existing keyframe does nothing
+
+  getDefinition(parameter: KeyframeParameter): KeyframeParameterDefinition {
+    return KEYFRAME_PARAMETERS.find(p => p.id === parameter)!;
+  }
+
+  /**
+   * Convert a timeline time into the time base of the item's keyframes
+   */
+  toKeyframeTime(item: MediaItem, time: number): number {
+    return this.getTimeOffset(item) + (time - item.startTime);
+  }
+
+  toTimelineTime(item: MediaItem, keyframeTime: number): number {
+    return item.startTime + (keyframeTime - this.getTimeOffset(item));
+  }
+
+  /**
+   * Interpolated value of a parameter of an item at a timeline time
+   */
+  evaluate(item: MediaItem, parameter: KeyframeParameter, time: number): number {
+    const keyframes = item.keyframes?.[parameter];
+    if (!keyframes || keyframes.length === 0) {
+      return this.getDefinition(parameter).defaultValue;
+    }
+    return this.interpolate(keyframes, this.toKeyframeTime(item, time));
+  }
+
+  /**
+   * Values of every parameter of an item at a timeline time
+   */
+  evaluateAll(item: MediaItem, time: number): Record<KeyframeParameter, number> {
+    const values = {} as Record<KeyframeParameter, number>;
+    for (const definition of KEYFRAME_PARAMETERS) {
+      values[definition.id] = this.evaluate(item, definition.id, time);
+    }
+    return values;
+  }
+
+  /**
+   * Add a keyframe holding the current value of the parameter at a timeline time inside the item
+   * Tracks are returned unchanged when the time is outside the item or already has a keyframe
+   */
+  addKeyframe(tracks: Track[], itemId: string, parameter: KeyframeParameter, time: number, id: string): Track[] {
+    return this.updateItem(tracks, itemId, item => {
+      if (time < item.startTime || time > item.startTime + item.duration) return item;
+
+      const keyframes = item.keyframes?.[parameter] ?? [];
+      const keyframeTime = this.toKeyframeTime(item, time);
+      if (keyframes.some(k => Math.abs(k.time - keyframeTime) < this.SAME_TIME_TOLERANCE)) return item;
+
+      const keyframe: Keyframe = {
+        id,
+        time: keyframeTime,
+        value: this.evaluate(item, parameter, time),
+        interpolation: 'linear'
+      };
+      return this.withKeyframes(item, parameter, [...keyframes, keyframe]);
+    });
+  }
+
+  /**
+   * Move a keyframe or change its value or interpolation
+   * Times are clamped to the visible part of the item and values to the range of the parameter
+   */
+  updateKeyframe(
+    tracks: Track[],
+    itemId: string,
+    parameter: KeyframeParameter,
+    keyframeId: string,
+    changes: Partial<Pick<Keyframe, 'time' | 'value' | 'interpolation' | 'easing'>>
+  ): Track[] {
+    return this.updateItem(tracks, itemId, item => {
+      const keyframes = item.keyframes?.[parameter];
+      const keyframe = keyframes?.find(k => k.id === keyframeId);
+      if (!keyframes || !keyframe) return item;
+
+      const definition = this.getDefinition(parameter);
+      const updated: Keyframe = { ...keyframe, ...changes };
+      if (changes.time !== undefined) {
+        const start = this.getTimeOffset(item);
+        updated.time = Math.max(start, Math.min(changes.time, start + item.duration));
+      }
+      if (changes.value !== undefined) {
+        updated.value = Math.max(definition.min, Math.min(changes.value, definition.max));
+      }
+      return this.withKeyframes(item, parameter, keyframes.map(k => k.id === keyframeId ? updated : k));
+    });
+  }
+
+  removeKeyframe(tracks: Track[], itemId: string, parameter: KeyframeParameter, keyframeId: string): Track[] {
+    return this.updateItem(tracks, itemId, item => {
+      const keyframes = item.keyframes?.[parameter];
+      if (!keyframes?.some(k => k.id === keyframeId)) return item;
+      return this.withKeyframes(item, parameter, keyframes.filter(k => k.id !== keyframeId));
+    });
+  }
+
+  private interpolate(keyframes: Keyframe[], time: number): number {
+    if (time <= keyframes[0].time) return keyframes[0].value;
+
+    for (let i = 0; i < keyframes.length - 1; i++) {
+      const from = keyframes[i];
+      const to = keyframes[i + 1];
+      if (time >= to.time) continue;
+
+      const progress = (time - from.time) / (to.time - from.time);
+      switch (from.interpolation) {
+        case 'hold':
+          return from.value;
+        case 'linear':
+          return from.value + (to.value - from.value) * progress;
+        case 'bezier':
+          return from.value + (to.value - from.value) * this.ease(from.easing ?? DEFAULT_BEZIER_EASING, progress);
+      }
+    }
+    return keyframes[keyframes.length - 1].value;
+  }
+
+  /**
+   * Y of a cubic-bezier easing curve at a given x, found by bisection since x is monotonic in t
+   */
+  private ease([x1, y1, x2, y2]: BezierEasing, x: number): number {
+    const bezier = (t: number, p1: number, p2: number) =>
+      3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+
+    let low = 0;
+    let high = 1;
+    let t = x;
+    for (let i = 0; i < 30; i++) {
+      t = (low + high) / 2;
+      if (bezier(t, x1, x2) < x) {
+        low = t;
+      } else {
+        high = t;
+      }
+    }
+    return bezier(t, y1, y2);
+  }
+
+  // Keyframes are kept sorted by time and empty parameters are dropped
+  private withKeyframes(item: MediaItem, parameter: KeyframeParameter, keyframes: Keyframe[]): MediaItem {
+    const { [parameter]: _previous, ...others } = item.keyframes ?? {};
+    const all = keyframes.length > 0
+      ? { ...others, [parameter]: [...keyframes].sort((a, b) => a.time - b.time) }
+      : others;
+
+    if (Object.keys(all).length > 0) return { ...item, keyframes: all };
+    const { keyframes: _removed, ...rest } = item;
+    return rest;
+  }
+
+  private updateItem(tracks: Track[], itemId: string, update: (item: MediaItem) => MediaItem): Track[] {
+    return tracks.map(track => {
+      if (!track.items.some(i => i.id === itemId)) return track;
+      return { ...track, items: track.items.map(i => i.id === itemId ? update(i) : i) };
+    });
+  }
+
+  // Images have no source offset, their keyframes count from the item start
+  private getTimeOffset(item: MediaItem): number {
+    return item.type === MediaType.IMAGE ? 0 : item.mediaStartTime || 0;
+  }
+}
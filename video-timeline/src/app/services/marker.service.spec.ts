@@ -0,0 +1,36 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { MarkerService } from './marker.service';
+import { Marker } from '../models/timeline.models';
+
+describe('MarkerService', () => {
+  let service: MarkerService;
+
+  const markers: Marker[] = [
+    { id: 'credits', time: 90000, name: 'Credits', color: 'green' },
+    { id: 'opening', time: 0, name: 'Opening', color: 'blue' },
+    { id: 'interview', time: 65000, duration: 5000, name: 'Interview', color: 'red', note: 'Says "hi", waves' }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(MarkerService);
+  });
+
+  it('should keep markers ordered by time when adding', () => {
+    const result = service.addMarker(markers, { id: 'new', time: 30000, name: 'New', color: 'yellow' });
+    expect(result.map(m => m.id)).toEqual(['opening', 'new', 'interview', 'credits']);
+  });
+
+  it('should keep an updated marker inside the timeline', () => {
+    let result = service.updateMarker(markers, 'interview', { time: 118000 }, 120000);
+    expect(result.find(m => m.id === 'interview')).toEqual(
+      { id: 'interview', time: 118000, duration: 2000, name: 'Interview', color: 'red', note: 'Says "hi", waves' }
+    );
+
+    result = service.updateMarker(result, 'interview', { duration: 0, note: '' }, 120000);
+    expect(result.find(m => m.id === 'interview')).toEqual({ id: 'interview', time: 118000, name: 'Interview', color: 'red' });
+  });
+});
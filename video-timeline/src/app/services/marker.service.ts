@@ -0,0 +1,47 @@
+import { Injectable } from '@angular/core';
+import { Marker } from '../models/timeline.models';
+
+/**
+ * Service responsible for editing the marker list
+ * Marker lists are kept ordered by time
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MarkerService {
+  addMarker(markers: Marker[], marker: Marker): Marker[] {
+    return this.sort([...markers, marker]);
+  }
+
+  /**
+   * Apply changes to one marker, keeping it and its range inside the timeline
+   */
+  updateMarker(markers: Marker[], markerId: string, changes: Partial<Omit<Marker, 'id'>>, totalDuration: number): Marker[] {
+    return this.sort(markers.map(marker => {
+      if (marker.id !== markerId) return marker;
+
+      const updated = { ...marker, ...changes };
+      updated.time = Math.max(0, Math.min(updated.time, totalDuration));
+      if (updated.duration !== undefined) {
+        const duration = Math.min(updated.duration, totalDuration - updated.time);
+        if (duration > 0) {
+          updated.duration = duration;
+        } else {
+          delete updated.duration;
+        }
+      }
+      if (!updated.note) {
+        delete updated.note;
+      }
+      return updated;
+    }));
+  }
+
+  removeMarker(markers: Marker[], markerId: string): Marker[] {
+    return markers.filter(marker => marker.id !== markerId);
+  }
+
+  private sort(markers: Marker[]): Marker[] {
+    return [...markers].sort((a, b) => a.time - b.time);
+  }
+}
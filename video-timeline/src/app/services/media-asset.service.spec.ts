@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { MediaAssetService } from './media-asset.service';
+import { MediaType } from '../models/timeline.models';
+
+describe('MediaAssetService', () => {
+  let service: MediaAssetService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(MediaAssetService);
+  });
+
+  it('should detect the media type from the mime type', () => {
+    expect(service.detectMediaType({ name: 'clip', type: 'video/mp4' })).toBe(MediaType.VIDEO);
+    expect(service.detectMediaType({ name: 'song', type: 'audio/mpeg' })).toBe(MediaType.AUDIO);
+    expect(service.detectMediaType({ name: 'photo', type: 'image/png' })).toBe(MediaType.IMAGE);
+  });
+
+  it('should fall back to the file extension when the mime type is missing', () => {
+    expect(service.detectMediaType({ name: 'clip.MOV', type: '' })).toBe(MediaType.VIDEO);
+    expect(service.detectMediaType({ name: 'song.flac', type: '' })).toBe(MediaType.AUDIO);
+    expect(service.detectMediaType({ name: 'notes.txt', type: '' })).toBeNull();
+  });
+
+  it('should reject unsupported files without adding assets', async () => {
+    const result = await service.importFiles([new File(['text'], 'notes.txt', { type: 'text/plain' })]);
+
+    expect(result.imported.length).toBe(0);
+    expect(result.failed[0].reason).toBe('Unsupported file type');
+    expect(service.assets().length).toBe(0);
+  });
+
+  it('should find and remove assets by id', () => {
+    service.assets.set([{
+      id: 'asset-1',
+      name: 'Photo',
+      type: MediaType.IMAGE,
+      mimeType: 'image/png',
+      size: 10,
+      duration: 5000,
+      url: 'blob:photo'
+    }]);
+    spyOn(URL, 'revokeObjectURL');
+
+    expect(service.getAsset('asset-1')?.name).toBe('Photo');
+
+    service.removeAsset('asset-1');
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:photo');
+    expect(service.getAsset('asset-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,227 @@
+import { Injectable, signal } from '@angular/core';
+import { MediaType } from '../models/timeline.models';
+import { MediaAsset, MediaImportResult } from '../models/media-asset.models';
+
+/**
+ * Service responsible for importing local media files and keeping them addressable by asset id
+ * Probes duration, dimensions and mime type from the browser's media metadata and generates thumbnails
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MediaAssetService {
+  private readonly DEFAULT_IMAGE_DURATION = 5000; // Images have no duration of their own
+  private readonly THUMBNAIL_WIDTH = 160;
+  private readonly THUMBNAIL_HEIGHT = 90;
+  private readonly PROBE_TIMEOUT_MS = 15000;
+
+  private readonly EXTENSION_TYPES: Record<string, MediaType> = {
+    mp4: MediaType.VIDEO, webm: MediaType.VIDEO, mov: MediaType.VIDEO, mkv: MediaType.VIDEO, ogv: MediaType.VIDEO,
+    mp3: MediaType.AUDIO, wav: MediaType.AUDIO, ogg: MediaType.AUDIO, m4a: MediaType.AUDIO, aac: MediaType.AUDIO, flac: MediaType.AUDIO,
+    png: MediaType.IMAGE, jpg: MediaType.IMAGE, jpeg: MediaType.IMAGE, gif: MediaType.IMAGE, webp: MediaType.IMAGE, svg: MediaType.IMAGE
+  };
+
+  readonly assets = signal<MediaAsset[]>([]);
+  private assetCounter = 0;
+
+  getAsset(id: string): MediaAsset | undefined {
+    return this.assets().find(asset => asset.id === id);
+  }
+
+  /**
+   * Determine the media type of a file from its mime type, falling back to its extension
+   * Returns null for files that are not video, audio or image
+   */
+  detectMediaType(file: { name: string; type: string }): MediaType | null {
+    if (file.type.startsWith('video/')) return MediaType.VIDEO;
+    if (file.type.startsWith('audio/')) return MediaType.AUDIO;
+    if (file.type.startsWith('image/')) return MediaType.IMAGE;
+
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return this.EXTENSION_TYPES[extension] ?? null;
+  }
+
+  /**
+   * Import files into the library, probing each one for its metadata
+   * Files that are not media or cannot be decoded are reported in the failed list
+   */
+  async importFiles(files: FileList | File[]): Promise<MediaImportResult> {
+    const result: MediaImportResult = { imported: [], failed: [] };
+
+    for (const file of Array.from(files)) {
+      const type = this.detectMediaType(file);
+      if (!type) {
+        result.failed.push({ name: file.name, reason: 'Unsupported file type' });
+        continue;
+      }
+
+      const url = URL.createObjectURL(file);
+      try {
+        const asset = await this.probe(file, type, url);
+        result.imported.push(asset);
+      } catch (error) {
+        URL.revokeObjectURL(url);
+        result.failed.push({
+          name: file.name,
+          reason: error instanceof Error ? error.message : 'Could not read media metadata'
+        });
+      }
+    }
+
+    if (result.imported.length > 0) {
+      this.assets.update(assets => [...assets, ...result.imported]);
+    }
+
+    return result;
+  }
+
+  removeAsset(id: string): void {
+    const asset = this.getAsset(id);
+    if (!asset) return;
+
+    URL.revokeObjectURL(asset.url);
+    this.assets.update(assets => assets.filter(a => a.id !== id));
+  }
+
+  private async probe(file: File, type: MediaType, url: string): Promise<MediaAsset> {
+    this.assetCounter++;
+    const asset: MediaAsset = {
+      id: `asset-${Date.now()}-${this.assetCounter}`,
+      name: file.name.replace(/\.[^.]+$/, ''),
+      type,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      duration: this.DEFAULT_IMAGE_DURATION,
+      url
+    };
+
+    switch (type) {
+      case MediaType.VIDEO: {
+        const video = await this.loadMediaElement(document.createElement('video'), url);
+        asset.duration = this.toMilliseconds(video.duration);
+        asset.width = video.videoWidth;
+        asset.height = video.videoHeight;
+        const hasAudio = this.detectAudio(video);
+        if (hasAudio !== undefined) {
+          asset.hasAudio = hasAudio;
+        }
+        asset.thumbnail = await this.captureVideoThumbnail(video);
+        video.removeAttribute('src');
+        video.load();
+        break;
+      }
+      case MediaType.AUDIO: {
+        const audio = await this.loadMediaElement(document.createElement('audio'), url);
+        asset.duration = this.toMilliseconds(audio.duration);
+        audio.removeAttribute('src');
+        audio.load();
+        break;
+      }
+      case MediaType.IMAGE: {
+        const image = await this.loadImage(url);
+        asset.width = image.naturalWidth;
+        asset.height = image.naturalHeight;
+        asset.thumbnail = this.drawThumbnail(image, image.naturalWidth, image.naturalHeight);
+        break;
+      }
+    }
+
+    return asset;
+  }
+
+  // Firefox and Safari list audio tracks from the metadata alone, other browsers can't tell before playback
+  private detectAudio(video: HTMLVideoElement): boolean | undefined {
+    const media = video as HTMLVideoElement & { mozHasAudio?: boolean; audioTracks?: { length: number } };
+    if (typeof media.mozHasAudio === 'boolean') return media.mozHasAudio;
+    if (media.audioTracks) return media.audioTracks.length > 0;
+    return undefined;
+  }
+
+  // Media elements report Infinity for some streams, those cannot be placed on the timeline
+  private toMilliseconds(seconds: number): number {
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new Error('Could not determine media duration');
+    }
+    return Math.round(seconds * 1000);
+  }
+
+  private loadMediaElement<T extends HTMLMediaElement>(element: T, url: string): Promise<T> {
+    return this.withTimeout(new Promise<T>((resolve, reject) => {
+      element.preload = 'metadata';
+      element.muted = true;
+      element.onloadedmetadata = () => resolve(element);
+      element.onerror = () => reject(new Error('The file could not be decoded'));
+      element.src = url;
+    }));
+  }
+
+  private loadImage(url: string): Promise<HTMLImageElement> {
+    return this.withTimeout(new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('The image could not be decoded'));
+      image.src = url;
+    }));
+  }
+
+  /**
+   * Seek a little into the video so the thumbnail is not a black first frame
+   */
+  private async captureVideoThumbnail(video: HTMLVideoElement): Promise<string | undefined> {
+    try {
+      await this.withTimeout(new Promise<void>((resolve, reject) => {
+        video.onseeked = () => resolve();
+        video.onerror = () => reject(new Error('Seek failed'));
+        video.currentTime = Math.min(1, video.duration / 2);
+      }));
+      return this.drawThumbnail(video, video.videoWidth, video.videoHeight);
+    } catch {
+      // A missing thumbnail is not a reason to reject the file
+      return undefined;
+    }
+  }
+
+  private drawThumbnail(source: CanvasImageSource, width: number, height: number): string | undefined {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.THUMBNAIL_WIDTH;
+    canvas.height = this.THUMBNAIL_HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context || width === 0 || height === 0) return undefined;
+
+    // Letterbox the source into the thumbnail keeping its aspect ratio
+    const scale = Math.min(this.THUMBNAIL_WIDTH / width, this.THUMBNAIL_HEIGHT / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(
+      source,
+      (this.THUMBNAIL_WIDTH - drawWidth) / 2,
+      (this.THUMBNAIL_HEIGHT - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+
+    try {
+      return canvas.toDataURL('image/jpeg', 0.7);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out reading media metadata')), this.PROBE_TIMEOUT_MS);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
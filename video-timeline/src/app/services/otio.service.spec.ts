@@ -0,0 +1,201 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { OtioService } from './otio.service';
+import { TimecodeService } from './timecode.service';
+import { MediaType, TimelineState } from '../models/timeline.models';
+import { OTIO_METADATA_KEY, OtioClip, OtioGap, OtioParseError } from '../models/otio.models';
+
+describe('OtioService', () => {
+  let service: OtioService;
+  let idCounter: number;
+  const generateId = () => `id-${++idCounter}`;
+
+  const createState = (): TimelineState => ({
+    tracks: [
+      {
+        id: 'track-1',
+        name: 'Video',
+        order: 0,
+        items: [
+          { id: 'a', type: MediaType.VIDEO, startTime: 1000, duration: 2000, mediaStartTime: 500, maxDuration: 10000, trackId: 'track-1', name: 'Clip A' },
+          { id: 'b', type: MediaType.IMAGE, startTime: 3000, duration: 1500, trackId: 'track-1', name: 'Still', isPlaceholder: true }
+        ]
+      },
+      {
+        id: 'track-2',
+        name: 'Music',
+        order: 1,
+        items: [
+          { id: 'c', type: MediaType.AUDIO, startTime: 0, duration: 4000, maxDuration: 60000, trackId: 'track-2', name: 'Song' }
+        ]
+      }
+    ],
+    playheadPosition: 0,
+    zoomLevel: 50,
+    totalDuration: 30000,
+    selectedItemIds: []
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(OtioService);
+    idCounter = 0;
+  });
+
+  it('should write tracks bottom-first with gaps between clips', () => {
+    const timeline = service.exportTimeline(createState(), 'Cut');
+    const [music, video] = timeline.tracks.children;
+
+    expect(timeline.OTIO_SCHEMA).toBe('Timeline.1');
+    expect(music.kind).toBe('Audio');
+    expect(video.kind).toBe('Video');
+    expect(video.children.map(child => child.OTIO_SCHEMA)).toEqual(['Gap.1', 'Clip.1', 'Clip.1']);
+    expect((video.children[0] as OtioGap).source_range.duration.value).toBe(1000);
+    expect((video.children[1] as OtioClip).source_range?.start_time.value).toBe(500);
+  });
+
+  it('should reproduce the tracks and items after a round trip', () => {
+    const state = createState();
+    const result = service.parse(service.toJson(state, 'Cut'), generateId);
+
+    expect(result.name).toBe('Cut');
+    expect(result.warnings).toEqual([]);
+    expect(result.totalDuration).toBe(30000);
+    expect(result.tracks).toEqual(state.tracks);
+  });
+
+  it('should keep frame-quantized times at 23.976 and 24 fps through a round trip', () => {
+    const timecode = TestBed.inject(TimecodeService);
+    const state = createState();
+    for (const [track, frameRate] of [[state.tracks[0], 23.976], [state.tracks[1], 24]] as const) {
+      const frames = (count: number) => timecode.framesToMs(count, frameRate);
+      track.items = [{ ...track.items[0], startTime: frames(37), duration: frames(101), mediaStartTime: frames(13) }];
+    }
+
+    const result = service.parse(service.toJson(state, 'Cut'), generateId);
+
+    expect(result.tracks).toEqual(state.tracks);
+    expect(timecode.msToFrames(result.tracks[0].items[0].startTime, 23.976)).toBe(37);
+    expect(result.tracks[0].items[0].startTime % 1).not.toBe(0);
+  });
+
+  it('should keep item keyframes through a round trip', () => {
+    const state = createState();
+    state.tracks[0].items[0].keyframes = {
+      opacity: [
+        { id: 'k1', time: 500, value: 0, interpolation: 'bezier', easing: [0.25, 0.1, 0.25, 1] },
+        { id: 'k2', time: 1500, value: 100, interpolation: 'linear' }
+      ]
+    };
+    state.tracks[1].items[0].keyframes = { volume: [{ id: 'k3', time: 0, value: 150, interpolation: 'hold' }] };
+
+    const result = service.parse(service.toJson(state, 'Cut'), generateId);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.tracks).toEqual(state.tracks);
+  });
+
+  it('should drop malformed keyframes from the clip metadata with a warning', () => {
+    const timeline = service.exportTimeline(createState(), 'Cut');
+    const clip = timeline.tracks.children[1].children[1] as OtioClip;
+    (clip.metadata[OTIO_METADATA_KEY] as Record<string, unknown>)['keyframes'] = {
+      opacity: [{ id: 'k1', time: 'soon', value: 50, interpolation: 'linear' }]
+    };
+
+    const result = service.parse(JSON.stringify(timeline), generateId);
+
+    expect(result.tracks[1].items[0].keyframes).toBeUndefined();
+    expect(result.warnings).toEqual(['Video: clip "Clip A" had 1 malformed keyframe(s), they were removed.']);
+  });
+
+  it('should disable the clips of hidden tracks and keep the track states', () => {
+    const state = createState();
+    state.tracks[0] = { ...state.tracks[0], hidden: true, locked: true };
+    state.tracks[1] = { ...state.tracks[1], solo: true };
+
+    const [music, video] = service.exportTimeline(state, 'Cut').tracks.children;
+    expect((video.children[1] as OtioClip).enabled).toBe(false);
+    expect((music.children[0] as OtioClip).enabled).toBeUndefined();
+
+    expect(service.parse(service.toJson(state, 'Cut'), generateId).tracks).toEqual(state.tracks);
+  });
+
+  it('should write track kinds and give tracks from other tools the kind of their media', () => {
+    const state = createState();
+    state.tracks[0] = { ...state.tracks[0], kind: 'video' };
+    state.tracks[1] = { ...state.tracks[1], kind: 'audio', items: [{ ...state.tracks[1].items[0], linkId: 'link-1' }] };
+    expect(service.parse(service.toJson(state, 'Cut'), generateId).tracks).toEqual(state.tracks);
+
+    const timeline = service.exportTimeline(createState(), 'Cut');
+    for (const track of timeline.tracks.children) {
+      track.metadata = {};
+    }
+    const result = service.parse(JSON.stringify(timeline), generateId);
+    expect(result.tracks.map(t => [t.name, t.kind])).toEqual([['Video', 'video'], ['Music', 'audio']]);
+  });
+
+  it('should read clips from other tools at their own rate', () => {
+    const time = (value: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: 24, value });
+    const range = (start: number, duration: number) => ({ OTIO_SCHEMA: 'TimeRange.1', start_time: time(start), duration: time(duration) });
+    const json = JSON.stringify({
+      OTIO_SCHEMA: 'Timeline.1',
+      name: 'Other',
+      tracks: {
+        OTIO_SCHEMA: 'Stack.1',
+        children: [{
+          OTIO_SCHEMA: 'Track.1',
+          name: 'A1',
+          kind: 'Audio',
+          children: [
+            { OTIO_SCHEMA: 'Gap.1', source_range: range(0, 48) },
+            {
+              OTIO_SCHEMA: 'Clip.2',
+              name: 'Dialog',
+              source_range: range(86424, 24),
+              active_media_reference_key: 'DEFAULT_MEDIA',
+              media_references: {
+                DEFAULT_MEDIA: { OTIO_SCHEMA: 'ExternalReference.1', available_range: range(86400, 240) }
+              }
+            },
+            { OTIO_SCHEMA: 'Transition.1' }
+          ]
+        }]
+      }
+    });
+
+    const result = service.parse(json, generateId);
+    const item = result.tracks[0].items[0];
+
+    expect(item.type).toBe(MediaType.AUDIO);
+    expect(item.startTime).toBe(2000);
+    expect(item.duration).toBe(1000);
+    expect(item.mediaStartTime).toBe(1000);
+    expect(item.maxDuration).toBe(10000);
+    expect(result.warnings.length).toBe(1);
+  });
+
+  it('should write transitions between clips and read them back', () => {
+    const state = createState();
+    state.tracks[0].transitions = [
+      { id: 't1', type: 'dissolve', fromItemId: 'a', toItemId: 'b', duration: 400, alignment: 'end' }
+    ];
+
+    const timeline = service.exportTimeline(state, 'Cut');
+    const video = timeline.tracks.children[1];
+    const transition = video.children[2];
+
+    expect(video.children.map(child => child.OTIO_SCHEMA)).toEqual(['Gap.1', 'Clip.1', 'Transition.1', 'Clip.1']);
+    expect(transition.OTIO_SCHEMA === 'Transition.1' && [transition.in_offset.value, transition.out_offset.value]).toEqual([400, 0]);
+
+    const result = service.parse(service.toJson(state, 'Cut'), generateId);
+    expect(result.warnings).toEqual([]);
+    expect(result.tracks[0].transitions).toEqual(state.tracks[0].transitions);
+  });
+
+  it('should reject files that are not OTIO timelines', () => {
+    expect(() => service.parse('{ broken', generateId)).toThrowError(OtioParseError);
+    expect(() => service.parse(JSON.stringify({ OTIO_SCHEMA: 'Clip.1' }), generateId)).toThrowError(OtioParseError);
+  });
+});
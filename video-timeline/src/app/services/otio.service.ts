@@ -0,0 +1,451 @@
+import { Injectable } from '@angular/core';
+import { MediaItem, MediaType, TRACK_FLAGS, Track, TimelineState, Transition, TransitionAlignment } from '../models/timeline.models';
+import {
+  OTIO_METADATA_KEY,
+  OTIO_TIME_RATE,
+  OtioClip,
+  OtioGap,
+  OtioImportResult,
+  OtioParseError,
+  OtioRationalTime,
+  OtioTimeRange,
+  OtioTimeline,
+  OtioTrack,
+  OtioTransition
+} from '../models/otio.models';
+import { MediaAssetService } from './media-asset.service';
+import { TransitionService } from './transition.service';
+import { TrackOutputService } from './track-output.service';
+import { ProjectSerializerService } from './project-serializer.service';
+
+type OtioObject = Record<string, unknown>;
+
+/**
+ * Service responsible for converting the timeline to and from OpenTimelineIO JSON (.otio)
+ * Our own fields, keyframes included, travel in the metadata of each OTIO object so a round trip is lossless
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OtioService {
+  private readonly DISSOLVE_TYPE = 'SMPTE_Dissolve';
+
+  constructor(
+    private mediaAssets: MediaAssetService,
+    private transitions: TransitionService,
+    private trackOutput: TrackOutputService,
+    private serializer: ProjectSerializerService
+  ) {}
+
+  toJson(state: TimelineState, name: string): string {
+    return JSON.stringify(this.exportTimeline(state, name), null, 4);
+  }
+
+  /**
+   * Build an OTIO timeline, the empty space before and between items becomes Gaps
+   * Clips that muted, unsoloed or hidden tracks leave out are kept but disabled
+   */
+  exportTimeline(state: TimelineState, name: string): OtioTimeline {
+    // OTIO stacks list the bottom-most track first, our first track is the top one
+    const tracks = [...state.tracks].sort((a, b) => b.order - a.order);
+
+    return {
+      OTIO_SCHEMA: 'Timeline.1',
+      name,
+      global_start_time: null,
+      metadata: { [OTIO_METADATA_KEY]: { totalDuration: state.totalDuration } },
+      tracks: {
+        OTIO_SCHEMA: 'Stack.1',
+        name: 'tracks',
+        source_range: null,
+        children: tracks.map(track => this.exportTrack(track, state.tracks)),
+        metadata: {},
+        effects: [],
+        markers: []
+      }
+    };
+  }
+
+  parse(json: string, generateId: () => string): OtioImportResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new OtioParseError('The file is not valid JSON');
+    }
+    return this.importTimeline(data, generateId);
+  }
+
+  /**
+   * Read an OTIO timeline into tracks
+   * Children the editor has no equivalent for (nested stacks, effects) are skipped with a warning
+   */
+  importTimeline(data: unknown, generateId: () => string): OtioImportResult {
+    const stack = this.isSchema(data, 'Timeline') ? data['tracks'] : null;
+    if (!this.isSchema(data, 'Timeline') || !this.isSchema(stack, 'Stack')) {
+      throw new OtioParseError('The file is not an OpenTimelineIO timeline');
+    }
+
+    const warnings: string[] = [];
+    const usedIds = new Set<string>();
+    const uniqueId = (id: unknown): string => {
+      const value = typeof id === 'string' && id && !usedIds.has(id) ? id : generateId();
+      usedIds.add(value);
+      return value;
+    };
+
+    const children: unknown[] = Array.isArray(stack['children']) ? stack['children'] : [];
+    const tracks: Track[] = [];
+
+    // Reverse back to our top-first track order
+    [...children].reverse().forEach((child, index) => {
+      if (!this.isSchema(child, 'Track')) {
+        warnings.push(`Stack child ${index + 1} is not a track and was skipped`);
+        return;
+      }
+      tracks.push(this.importTrack(child, tracks.length, uniqueId, warnings));
+    });
+
+    if (tracks.length === 0) {
+      throw new OtioParseError('The timeline does not contain any tracks');
+    }
+
+    const metadata = this.getOwnMetadata(data);
+    const totalDuration = typeof metadata['totalDuration'] === 'number' ? metadata['totalDuration'] : null;
+
+    return {
+      name: typeof data['name'] === 'string' ? data['name'] : '',
+      tracks,
+      totalDuration,
+      warnings
+    };
+  }
+
+  private exportTrack(track: Track, allTracks: Track[]): OtioTrack {
+    const items = [...track.items].sort((a, b) => a.startTime - b.startTime);
+    // Mixed tracks are audio tracks in OTIO when they only hold audio
+    const isAudioTrack = track.kind
+      ? track.kind === 'audio'
+      : items.length > 0 && items.every(item => item.type === MediaType.AUDIO);
+    const children: (OtioClip | OtioGap | OtioTransition)[] = [];
+
+    let position = 0;
+    for (const item of items) {
+      if (item.startTime > position) {
+        children.push(this.createGap(item.startTime - position));
+      }
+      children.push(this.exportClip(item, this.trackOutput.isItemOutput(item, track, allTracks)));
+      position = item.startTime + item.duration;
+
+      // A transition sits between the clips it joins
+      const transition = track.transitions?.find(t => t.fromItemId === item.id);
+      if (transition && this.transitions.findItems(track, transition)) {
+        children.push(this.exportTransition(transition));
+      }
+    }
+
+    const ownMetadata: Record<string, unknown> = { id: track.id };
+    if (track.kind) ownMetadata['kind'] = track.kind;
+    for (const flag of TRACK_FLAGS) {
+      if (track[flag]) ownMetadata[flag] = true;
+    }
+
+    return {
+      OTIO_SCHEMA: 'Track.1',
+      name: track.name,
+      kind: isAudioTrack ? 'Audio' : 'Video',
+      source_range: null,
+      children,
+      metadata: { [OTIO_METADATA_KEY]: ownMetadata },
+      effects: [],
+      markers: []
+    };
+  }
+
+  private exportClip(item: MediaItem, enabled: boolean): OtioClip {
+    const ownMetadata: Record<string, unknown> = { id: item.id, type: item.type };
+    if (item.isPlaceholder) ownMetadata['isPlaceholder'] = true;
+    if (item.sourceId) ownMetadata['sourceId'] = item.sourceId;
+    if (item.linkId) ownMetadata['linkId'] = item.linkId;
+    if (item.keyframes) ownMetadata['keyframes'] = item.keyframes;
+
+    return {
+      OTIO_SCHEMA: 'Clip.1',
+      name: item.name ?? '',
+      ...(enabled ? {} : { enabled: false }),
+      source_range: this.createRange(item.mediaStartTime ?? 0, item.duration),
+      media_reference: {
+        OTIO_SCHEMA: 'MissingReference.1',
+        name: item.name ?? '',
+        available_range: item.maxDuration !== undefined ? this.createRange(0, item.maxDuration) : null,
+        metadata: {}
+      },
+      metadata: { [OTIO_METADATA_KEY]: ownMetadata },
+      effects: [],
+      markers: []
+    };
+  }
+
+  private exportTransition(transition: Transition): OtioTransition {
+    const before = this.transitions.getLengthBeforeCut(transition.duration, transition.alignment);
+    return {
+      OTIO_SCHEMA: 'Transition.1',
+      name: '',
+      transition_type: this.DISSOLVE_TYPE,
+      in_offset: this.createTime(before),
+      out_offset: this.createTime(transition.duration - before),
+      metadata: { [OTIO_METADATA_KEY]: { id: transition.id, type: transition.type } }
+    };
+  }
+
+  private createGap(duration: number): OtioGap {
+    return {
+      OTIO_SCHEMA: 'Gap.1',
+      name: '',
+      source_range: this.createRange(0, duration),
+      metadata: {},
+      effects: [],
+      markers: []
+    };
+  }
+
+  private createRange(start: number, duration: number): OtioTimeRange {
+    return {
+      OTIO_SCHEMA: 'TimeRange.1',
+      start_time: this.createTime(start),
+      duration: this.createTime(duration)
+    };
+  }
+
+  private createTime(milliseconds: number): OtioRationalTime {
+    return { OTIO_SCHEMA: 'RationalTime.1', rate: OTIO_TIME_RATE, value: milliseconds };
+  }
+
+  private importTrack(
+    data: OtioObject,
+    order: number,
+    uniqueId: (id: unknown) => string,
+    warnings: string[]
+  ): Track {
+    const trackName = typeof data['name'] === 'string' && data['name'] ? data['name'] : `Track ${order + 1}`;
+    const metadata = this.getOwnMetadata(data);
+    const track: Track = {
+      id: uniqueId(metadata['id']),
+      name: trackName,
+      order,
+      items: []
+    };
+    for (const flag of TRACK_FLAGS) {
+      if (metadata[flag] === true) {
+        track[flag] = true;
+      }
+    }
+    const trackType = data['kind'] === 'Audio' ? MediaType.AUDIO : MediaType.VIDEO;
+    // Tracks from other applications hold one kind of media, our mixed tracks are saved without a kind
+    const kind = metadata['kind'] ?? (metadata['id'] === undefined ? (trackType === MediaType.AUDIO ? 'audio' : 'video') : undefined);
+    if (kind === 'video' || kind === 'audio' || kind === 'mixed') {
+      track.kind = kind;
+    }
+    const children: unknown[] = Array.isArray(data['children']) ? data['children'] : [];
+
+    const transitions: Transition[] = [];
+    // Transition waiting for the clip after it, with the clip before it
+    let pending: { data: OtioObject; fromItemId: string } | null = null;
+    let previousChild: unknown = null;
+
+    let position = 0;
+    for (const child of children) {
+      if (this.isSchema(child, 'Gap')) {
+        position += this.toMilliseconds(this.getRange(child['source_range'])?.duration) ?? 0;
+      } else if (this.isSchema(child, 'Clip')) {
+        const item = this.importClip(child, position, trackType, track.id, trackName, uniqueId, warnings);
+        if (item) {
+          track.items.push(item);
+          position += item.duration;
+          if (pending) {
+            transitions.push(this.importTransition(pending.data, pending.fromItemId, item, trackName, uniqueId, warnings));
+            pending = null;
+          }
+        } else {
+          warnings.push(`${trackName}: clip "${String(child['name'] ?? '')}" has no duration and was skipped`);
+        }
+      } else if (this.isSchema(child, 'Transition')) {
+        // Transitions overlap their neighbours and do not take up time of their own
+        const from = track.items[track.items.length - 1];
+        if (from && this.isSchema(previousChild, 'Clip')) {
+          pending = { data: child, fromItemId: from.id };
+        } else {
+          warnings.push(`${trackName}: a transition without a clip before it was skipped`);
+        }
+      } else {
+        warnings.push(`${trackName}: unsupported ${this.isObject(child) ? String(child['OTIO_SCHEMA']) : 'item'} was skipped`);
+      }
+
+      if (pending && child !== pending.data) {
+        warnings.push(`${trackName}: a transition without a clip after it was skipped`);
+        pending = null;
+      }
+      previousChild = child;
+    }
+    if (pending) {
+      warnings.push(`${trackName}: a transition without a clip after it was skipped`);
+    }
+
+    if (transitions.length === 0) return track;
+
+    const normalized = this.transitions.normalizeTrack({ ...track, transitions });
+    if ((normalized.transitions?.length ?? 0) < transitions.length) {
+      warnings.push(`${trackName}: transitions longer than the media of their clips allows were removed`);
+    }
+    return normalized;
+  }
+
+  /**
+   * OTIO offsets can split a transition anywhere around the cut, the editor supports centred, start and end
+   */
+  private importTransition(
+    data: OtioObject,
+    fromItemId: string,
+    to: MediaItem,
+    trackName: string,
+    uniqueId: (id: unknown) => string,
+    warnings: string[]
+  ): Transition {
+    const before = Math.max(0, this.toMilliseconds(data['in_offset']) ?? 0);
+    const after = Math.max(0, this.toMilliseconds(data['out_offset']) ?? 0);
+    const metadata = this.getOwnMetadata(data);
+
+    let alignment: TransitionAlignment = 'center';
+    if (before === 0) {
+      alignment = 'start';
+    } else if (after === 0) {
+      alignment = 'end';
+    } else if (Math.abs(before - after) > 1) {
+      warnings.push(`${trackName}: a transition off the centre of its cut was centred`);
+    }
+
+    const type = metadata['type'] === 'dissolve' || metadata['type'] === 'crossfade'
+      ? metadata['type']
+      : to.type === MediaType.AUDIO ? 'crossfade' : 'dissolve';
+    if (data['transition_type'] !== this.DISSOLVE_TYPE) {
+      warnings.push(`${trackName}: transition type "${String(data['transition_type'])}" was imported as a ${type}`);
+    }
+
+    return { id: uniqueId(metadata['id']), type, fromItemId, toItemId: to.id, duration: before + after, alignment };
+  }
+
+  private importClip(
+    data: OtioObject,
+    position: number,
+    trackType: MediaType,
+    trackId: string,
+    trackName: string,
+    uniqueId: (id: unknown) => string,
+    warnings: string[]
+  ): MediaItem | null {
+    const reference = this.getMediaReference(data);
+    const availableRange = this.getRange(reference?.['available_range']);
+    // A clip without a source range plays all of its available media
+    const sourceRange = this.getRange(data['source_range']) ?? availableRange;
+    const duration = this.toMilliseconds(sourceRange?.duration);
+    if (!sourceRange || duration === null || duration <= 0) return null;
+
+    const metadata = this.getOwnMetadata(data);
+    const type = Object.values(MediaType).includes(metadata['type'] as MediaType) ? metadata['type'] as MediaType : trackType;
+    const name = typeof data['name'] === 'string' && data['name'] ? data['name'] : undefined;
+
+    const item: MediaItem = {
+      id: uniqueId(metadata['id']),
+      type,
+      startTime: position,
+      duration,
+      trackId
+    };
+    if (name) {
+      item.name = name;
+    }
+
+    // Source ranges are in the media's own time, which may not start at zero
+    const availableStart = this.toMilliseconds(availableRange?.start_time) ?? 0;
+    const mediaStartTime = (this.toMilliseconds(sourceRange.start_time) ?? 0) - availableStart;
+    if (type !== MediaType.IMAGE && mediaStartTime > 0) {
+      item.mediaStartTime = mediaStartTime;
+    }
+
+    const maxDuration = this.toMilliseconds(availableRange?.duration);
+    if (maxDuration !== null && maxDuration > 0) {
+      item.maxDuration = maxDuration;
+    }
+
+    if (metadata['isPlaceholder'] === true) {
+      item.isPlaceholder = true;
+    }
+    if (typeof metadata['linkId'] === 'string') {
+      item.linkId = metadata['linkId'];
+    }
+    if (metadata['keyframes'] !== undefined) {
+      const keyframes = this.serializer.validateKeyframes(metadata['keyframes'], `${trackName}: clip "${name ?? ''}"`, warnings);
+      if (keyframes) {
+        item.keyframes = keyframes;
+      }
+    }
+
+    const sourceId = typeof metadata['sourceId'] === 'string' ? metadata['sourceId'] : undefined;
+    const asset = (sourceId ? this.mediaAssets.getAsset(sourceId) : undefined)
+      ?? this.mediaAssets.assets().find(a => a.name === name);
+    if (asset) {
+      item.sourceId = asset.id;
+    }
+
+    return item;
+  }
+
+  // Clip.2 keeps several references and names the active one
+  private getMediaReference(data: OtioObject): OtioObject | null {
+    if (this.isObject(data['media_reference'])) {
+      return data['media_reference'];
+    }
+    const references = data['media_references'];
+    const activeKey = data['active_media_reference_key'];
+    if (this.isObject(references) && typeof activeKey === 'string' && this.isObject(references[activeKey])) {
+      return references[activeKey];
+    }
+    return null;
+  }
+
+  private getRange(value: unknown): { start_time: unknown; duration: unknown } | null {
+    return this.isObject(value) ? { start_time: value['start_time'], duration: value['duration'] } : null;
+  }
+
+  /**
+   * Convert a RationalTime at any rate to milliseconds
+   * Times are not rounded, frame boundaries at rates like 23.976 fall between whole milliseconds
+   */
+  private toMilliseconds(value: unknown): number | null {
+    if (!this.isObject(value)) return null;
+    const rate = Number(value['rate']);
+    const time = Number(value['value']);
+    if (!Number.isFinite(rate) || rate <= 0 || !Number.isFinite(time)) return null;
+    // Our own exports are already in milliseconds, reading them as they are keeps them exact
+    return rate === OTIO_TIME_RATE ? time : time * 1000 / rate;
+  }
+
+  private getOwnMetadata(data: OtioObject): OtioObject {
+    const metadata = data['metadata'];
+    if (this.isObject(metadata) && this.isObject(metadata[OTIO_METADATA_KEY])) {
+      return metadata[OTIO_METADATA_KEY];
+    }
+    return {};
+  }
+
+  // OTIO_SCHEMA values carry a version suffix, e.g. "Clip.1" or "Clip.2"
+  private isSchema(value: unknown, schema: string): value is OtioObject {
+    if (!this.isObject(value)) return false;
+    const name = value['OTIO_SCHEMA'];
+    return typeof name === 'string' && name.split('.')[0] === schema;
+  }
+
+  private isObject(value: unknown): value is OtioObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
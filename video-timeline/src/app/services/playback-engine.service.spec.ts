@@ -0,0 +1,105 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { PlaybackEngineService, PlaybackEvent, PlaybackHost } from './playback-engine.service';
+
+describe('PlaybackEngineService', () => {
+  let service: PlaybackEngineService;
+  let position: number;
+  let host: PlaybackHost;
+  let events: PlaybackEvent[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(PlaybackEngineService);
+
+    position = 0;
+    host = {
+      getPosition: () => position,
+      setPosition: (value: number) => position = value,
+      getDuration: () => 10000
+    };
+    service.attach(host);
+
+    events = [];
+    service.events$.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    service.detach(host);
+  });
+
+  it('should emit play and pause events', () => {
+    service.play();
+    service.pause();
+
+    expect(events.map(e => e.type)).toEqual(['play', 'pause']);
+    expect(service.isPlaying()).toBe(false);
+  });
+
+  it('should advance the playhead by elapsed time scaled by the rate', () => {
+    service.setRate(2);
+    service.play();
+    service['advance'](500);
+
+    expect(position).toBe(1000);
+  });
+
+  it('should play in reverse with a negative rate', () => {
+    position = 5000;
+    service.setRate(-1);
+    service.play();
+    service['advance'](1000);
+
+    expect(position).toBe(4000);
+  });
+
+  it('should stop at the end of the timeline', () => {
+    position = 9900;
+    service.play();
+    service['advance'](500);
+
+    expect(position).toBe(10000);
+    expect(service.isPlaying()).toBe(false);
+    expect(events[events.length - 1].type).toBe('ended');
+  });
+
+  it('should wrap around when looping', () => {
+    position = 9900;
+    service.setLoop(true);
+    service.play();
+    service['advance'](500);
+
+    expect(position).toBe(400);
+    expect(service.isPlaying()).toBe(true);
+  });
+
+  it('should clamp the rate to the supported range', () => {
+    service.setRate(10);
+    expect(service.rate()).toBe(4);
+
+    service.setRate(-0.1);
+    expect(service.rate()).toBe(-0.25);
+  });
+
+  it('should clamp seeks to the timeline and emit a seek event', () => {
+    service.seek(20000);
+
+    expect(position).toBe(10000);
+    expect(events[0].type).toBe('seek');
+  });
+
+  it('should speed up with repeated shuttle presses and stop with K', () => {
+    service.shuttleForward();
+    expect(service.rate()).toBe(1);
+    service.shuttleForward();
+    expect(service.rate()).toBe(2);
+    service.shuttleReverse();
+    expect(service.rate()).toBe(-1);
+
+    service.shuttleStop();
+    expect(service.isPlaying()).toBe(false);
+    expect(service.rate()).toBe(1);
+  });
+});
@@ -0,0 +1,219 @@
+import { Injectable, signal } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+
+export type PlaybackEventType = 'play' | 'pause' | 'seek' | 'ended' | 'ratechange';
+
+export interface PlaybackEvent {
+  type: PlaybackEventType;
+  position: number; // milliseconds
+  rate: number; // negative rates play in reverse
+}
+
+/**
+ * Owner of the playhead the engine drives (the timeline component)
+ */
+export interface PlaybackHost {
+  getPosition(): number;
+  setPosition(position: number): void;
+  getDuration(): number;
+}
+
+/**
+ * Service responsible for real-time playback of the timeline
+ * Advances the playhead on every animation frame using a monotonic clock
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PlaybackEngineService {
+  readonly MIN_RATE = 0.25;
+  readonly MAX_RATE = 4;
+  private readonly SHUTTLE_RATES = [1, 2, 4]; // J/L steps through these speeds
+
+  readonly isPlaying = signal<boolean>(false);
+  readonly rate = signal<number>(1);
+  readonly loop = signal<boolean>(false);
+
+  private readonly eventsSubject = new Subject<PlaybackEvent>();
+  readonly events$: Observable<PlaybackEvent> = this.eventsSubject.asObservable();
+
+  private host: PlaybackHost | null = null;
+  private frameId: number | null = null;
+  private lastFrameTime: number | null = null;
+
+  attach(host: PlaybackHost): void {
+    this.host = host;
+  }
+
+  detach(host: PlaybackHost): void {
+    if (this.host !== host) return;
+    this.pause();
+    this.host = null;
+  }
+
+  play(): void {
+    if (!this.host || this.isPlaying()) return;
+
+    // Restart from the opposite end when playing from the end in the current direction
+    const position = this.host.getPosition();
+    const duration = this.host.getDuration();
+    if (this.rate() > 0 && position >= duration) {
+      this.host.setPosition(0);
+    } else if (this.rate() < 0 && position <= 0) {
+      this.host.setPosition(duration);
+    }
+
+    this.isPlaying.set(true);
+    this.lastFrameTime = this.now();
+    this.emit('play');
+    this.scheduleFrame();
+  }
+
+  pause(): void {
+    if (!this.isPlaying()) return;
+
+    this.isPlaying.set(false);
+    this.cancelFrame();
+    this.emit('pause');
+  }
+
+  toggle(): void {
+    if (this.isPlaying()) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Move the playhead to the given position without changing the play state
+   */
+  seek(position: number): void {
+    if (!this.host) return;
+
+    const clamped = Math.max(0, Math.min(position, this.host.getDuration()));
+    this.host.setPosition(clamped);
+    // Measure the next frame from now so the seek is not followed by a jump
+    this.lastFrameTime = this.now();
+    this.emit('seek');
+  }
+
+  /**
+   * Set the playback rate, negative values play in reverse
+   * The magnitude is clamped to the supported range
+   */
+  setRate(rate: number): void {
+    const direction = rate < 0 ? -1 : 1;
+    const magnitude = Math.max(this.MIN_RATE, Math.min(Math.abs(rate), this.MAX_RATE));
+    this.rate.set(direction * magnitude);
+    this.emit('ratechange');
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop.set(loop);
+  }
+
+  /**
+   * L key: play forward, or speed up if already playing forward
+   */
+  shuttleForward(): void {
+    this.shuttle(1);
+  }
+
+  /**
+   * J key: play in reverse, or speed up if already playing in reverse
+   */
+  shuttleReverse(): void {
+    this.shuttle(-1);
+  }
+
+  /**
+   * K key: stop shuttling and return to normal speed
+   */
+  shuttleStop(): void {
+    this.pause();
+    if (this.rate() !== 1) {
+      this.setRate(1);
+    }
+  }
+
+  private shuttle(direction: 1 | -1): void {
+    const current = this.rate();
+    const isSameDirection = this.isPlaying() && Math.sign(current) === direction;
+    const nextSpeed = isSameDirection
+      ? this.SHUTTLE_RATES.find(speed => speed > Math.abs(current)) ?? this.SHUTTLE_RATES[this.SHUTTLE_RATES.length - 1]
+      : this.SHUTTLE_RATES[0];
+
+    this.setRate(direction * nextSpeed);
+    this.play();
+  }
+
+  /**
+   * Advance the playhead by the elapsed wall-clock time scaled by the playback rate
+   */
+  private advance(elapsed: number): void {
+    if (!this.host) return;
+
+    const duration = this.host.getDuration();
+    const rate = this.rate();
+    let position = this.host.getPosition() + elapsed * rate;
+    const reachedEnd = rate > 0 ? position >= duration : position <= 0;
+
+    if (reachedEnd) {
+      if (this.loop() && duration > 0) {
+        // Wrap around and keep the remainder so looping stays in time
+        position = ((position % duration) + duration) % duration;
+      } else {
+        this.host.setPosition(Math.max(0, Math.min(position, duration)));
+        this.isPlaying.set(false);
+        this.cancelFrame();
+        this.emit('ended');
+        return;
+      }
+    }
+
+    this.host.setPosition(position);
+  }
+
+  private readonly onFrame = (): void => {
+    this.frameId = null;
+    if (!this.isPlaying()) return;
+
+    const now = this.now();
+    const elapsed = this.lastFrameTime === null ? 0 : now - this.lastFrameTime;
+    this.lastFrameTime = now;
+
+    this.advance(elapsed);
+
+    if (this.isPlaying()) {
+      this.scheduleFrame();
+    }
+  };
+
+  private scheduleFrame(): void {
+    if (this.frameId === null) {
+      this.frameId = requestAnimationFrame(this.onFrame);
+    }
+  }
+
+  private cancelFrame(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.lastFrameTime = null;
+  }
+
+  // performance.now() is monotonic, unlike Date.now() which can jump with system clock changes
+  private now(): number {
+    return performance.now();
+  }
+
+  private emit(type: PlaybackEventType): void {
+    this.eventsSubject.next({
+      type,
+      position: this.host ? this.host.getPosition() : 0,
+      rate: this.rate()
+    });
+  }
+}
@@ -0,0 +1,316 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ProjectSerializerService } from './project-serializer.service';
+import { Marker, MediaType, TimelineState } from '../models/timeline.models';
+import { PROJECT_FORMAT, PROJECT_SCHEMA_VERSION, ProjectLoadError } from '../models/project.models';
+
+describe('ProjectSerializerService', () => {
+  let service: ProjectSerializerService;
+
+  const createState = (): TimelineState => ({
+    tracks: [
+      {
+        id: 'track-1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          {
+            id: 'item-1',
+            type: MediaType.VIDEO,
+            startTime: 1000,
+            duration: 3000,
+            mediaStartTime: 500,
+            maxDuration: 10000,
+            trackId: 'track-1',
+            name: 'Clip',
+            isPlaceholder: true
+          }
+        ]
+      },
+      { id: 'track-2', name: 'Track 2', order: 1, items: [] }
+    ],
+    playheadPosition: 2500,
+    zoomLevel: 80,
+    totalDuration: 30000,
+    selectedItemIds: ['item-1']
+  });
+
+  const createDocument = (overrides: Record<string, unknown> = {}) => ({
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    tracks: [],
+    playheadPosition: 0,
+    zoomLevel: 50,
+    totalDuration: 60000,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(ProjectSerializerService);
+  });
+
+  it('should write the schema version and timeline fields', () => {
+    const doc = service.serialize(createState());
+
+    expect(doc.format).toBe(PROJECT_FORMAT);
+    expect(doc.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+    expect(doc.tracks.length).toBe(2);
+    expect(doc.playheadPosition).toBe(2500);
+    expect(doc.zoomLevel).toBe(80);
+    expect(doc.totalDuration).toBe(30000);
+  });
+
+  it('should round-trip a valid project without warnings', () => {
+    const state = createState();
+    const result = service.parse(service.toJson(state));
+
+    expect(result.warnings).toEqual([]);
+    expect(result.state.tracks).toEqual(state.tracks);
+    expect(result.state.playheadPosition).toBe(state.playheadPosition);
+    expect(result.state.zoomLevel).toBe(state.zoomLevel);
+    expect(result.state.totalDuration).toBe(state.totalDuration);
+    expect(result.state.selectedItemIds).toEqual([]);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => service.parse('{ not json')).toThrowError(ProjectLoadError);
+  });
+
+  it('should reject documents of another format', () => {
+    expect(() => service.parse(JSON.stringify({ tracks: [] }))).toThrowError(ProjectLoadError);
+  });
+
+  it('should reject documents from a newer schema version', () => {
+    const json = JSON.stringify(createDocument({ schemaVersion: PROJECT_SCHEMA_VERSION + 1 }));
+    expect(() => service.parse(json)).toThrowError(ProjectLoadError);
+  });
+
+  it('should remove items with an unknown media type', () => {
+    const json = JSON.stringify(createDocument({
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          { id: 'a', type: 'hologram', startTime: 0, duration: 1000, trackId: 't1' },
+          { id: 'b', type: MediaType.AUDIO, startTime: 2000, duration: 1000, trackId: 't1' }
+        ]
+      }]
+    }));
+
+    const result = service.parse(json);
+
+    expect(result.state.tracks[0].items.map(i => i.id)).toEqual(['b']);
+    expect(result.warnings.length).toBe(1);
+  });
+
+  it('should move items with negative start times to 0', () => {
+    const json = JSON.stringify(createDocument({
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [{ id: 'a', type: MediaType.IMAGE, startTime: -500, duration: 1000, trackId: 't1' }]
+      }]
+    }));
+
+    const result = service.parse(json);
+
+    expect(result.state.tracks[0].items[0].startTime).toBe(0);
+    expect(result.warnings.length).toBe(1);
+  });
+
+  it('should repair overlapping items', () => {
+    const json = JSON.stringify(createDocument({
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          { id: 'a', type: MediaType.VIDEO, startTime: 0, duration: 3000, trackId: 't1' },
+          { id: 'b', type: MediaType.VIDEO, startTime: 1000, duration: 3000, trackId: 't1' }
+        ]
+      }]
+    }));
+
+    const items = service.parse(json).state.tracks[0].items;
+
+    expect(items[1].startTime).toBe(items[0].startTime + items[0].duration);
+  });
+
+  it('should extend the timeline when a repaired overlap pushes an item past its end', () => {
+    const json = JSON.stringify(createDocument({
+      totalDuration: 5000,
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          { id: 'a', type: MediaType.VIDEO, startTime: 0, duration: 3000, trackId: 't1' },
+          { id: 'b', type: MediaType.VIDEO, startTime: 2000, duration: 3000, trackId: 't1' }
+        ]
+      }]
+    }));
+
+    const result = service.parse(json);
+
+    expect(result.state.totalDuration).toBe(6000);
+    expect(result.warnings).toContain('Items ran past the end of the timeline, the total duration was extended to fit them.');
+  });
+
+  it('should assign new ids to duplicate items', () => {
+    const json = JSON.stringify(createDocument({
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          { id: 'a', type: MediaType.VIDEO, startTime: 0, duration: 1000, trackId: 't1' },
+          { id: 'a', type: MediaType.VIDEO, startTime: 2000, duration: 1000, trackId: 't1' }
+        ]
+      }]
+    }));
+
+    const items = service.parse(json).state.tracks[0].items;
+
+    expect(items[0].id).not.toBe(items[1].id);
+  });
+
+  it('should keep in and out points and drop an inverted range', () => {
+    const state = { ...createState(), inPoint: 1000, outPoint: 4000 };
+    const restored = service.parse(service.toJson(state)).state;
+    expect(restored.inPoint).toBe(1000);
+    expect(restored.outPoint).toBe(4000);
+
+    const result = service.parse(JSON.stringify(createDocument({ inPoint: 5000, outPoint: 2000 })));
+    expect(result.state.inPoint).toBeUndefined();
+    expect(result.state.outPoint).toBeUndefined();
+    expect(result.warnings).toContain('The out point was before the in point, both were removed.');
+  });
+
+  it('should keep the track states that are switched on', () => {
+    const state = createState();
+    state.tracks[0] = { ...state.tracks[0], locked: true, muted: false, solo: true, hidden: true };
+
+    const restored = service.parse(service.toJson(state)).state;
+    const { locked, muted, solo, hidden } = restored.tracks[0];
+    expect([locked, muted, solo, hidden]).toEqual([true, undefined, true, true]);
+  });
+
+  it('should keep track kinds and make tracks holding other media mixed', () => {
+    const state = createState();
+    state.tracks[0] = { ...state.tracks[0], kind: 'video' };
+    state.tracks[0].items[0] = { ...state.tracks[0].items[0], linkId: 'link-1' };
+    const restored = service.parse(service.toJson(state)).state;
+    expect(restored.tracks.map(t => t.kind)).toEqual(['video', undefined]);
+    expect(restored.tracks[0].items[0].linkId).toBe('link-1');
+
+    const result = service.parse(JSON.stringify(createDocument({
+      tracks: [{ ...state.tracks[0], kind: 'audio' }, { id: 'track-2', name: 'Track 2', items: [], kind: 'subtitles' }]
+    })));
+    expect(result.state.tracks.map(t => t.kind)).toEqual([undefined, undefined]);
+    expect(result.warnings).toEqual([
+      '"Track 1" held media its kind doesn\'t take, it was made a mixed track.',
+      '"Track 2" had an unknown track kind "subtitles", it was made a mixed track.'
+    ]);
+  });
+
+  it('should keep the sequence settings and drop unsupported frame rates', () => {
+    const state = { ...createState(), sequence: { frameRate: 29.97, dropFrame: true } };
+    expect(service.parse(service.toJson(state)).state.sequence).toEqual({ frameRate: 29.97, dropFrame: true });
+
+    const result = service.parse(JSON.stringify(createDocument({ sequence: { frameRate: 25, dropFrame: true } })));
+    expect(result.state.sequence).toBeUndefined();
+    expect(result.warnings).toContain('Invalid sequence settings, using the default of 30 fps.');
+  });
+
+  it('should keep valid markers in time order and drop the ones outside the timeline', () => {
+    const markers: Marker[] = [
+      { id: 'marker-2', time: 5000, name: 'Second', color: 'red', note: 'Check audio' },
+      { id: 'marker-1', time: 1000, duration: 2000, name: 'First', color: 'green' }
+    ];
+    expect(service.parse(service.toJson({ ...createState(), markers })).state.markers?.map(m => m.id))
+      .toEqual(['marker-1', 'marker-2']);
+
+    const result = service.parse(JSON.stringify(createDocument({
+      markers: [
+        { id: 'a', time: 70000, name: 'Late', color: 'red' },
+        { id: 'b', time: 58000, duration: 5000, name: 'Long', color: 'pink' }
+      ]
+    })));
+    expect(result.state.markers).toEqual([{ id: 'b', time: 58000, duration: 2000, name: 'Long', color: 'blue' }]);
+    expect(result.warnings).toContain('Marker #1 is malformed or outside the timeline and was removed.');
+    expect(result.warnings).toContain('Marker #2 ran past the end of the timeline and was shortened.');
+  });
+
+  it('should keep transitions between touching items and shorten ones longer than the handles', () => {
+    const json = JSON.stringify(createDocument({
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [
+          { id: 'a', type: MediaType.VIDEO, startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 2500, trackId: 't1' },
+          { id: 'b', type: MediaType.VIDEO, startTime: 2000, duration: 2000, mediaStartTime: 1000, trackId: 't1' },
+          { id: 'c', type: MediaType.VIDEO, startTime: 5000, duration: 2000, mediaStartTime: 1000, trackId: 't1' }
+        ],
+        transitions: [
+          { id: 'x', type: 'dissolve', fromItemId: 'a', toItemId: 'b', duration: 2000, alignment: 'center' },
+          { id: 'y', type: 'dissolve', fromItemId: 'b', toItemId: 'c', duration: 500, alignment: 'center' }
+        ]
+      }]
+    }));
+
+    const result = service.parse(json);
+
+    // a has only 500ms of media after its out point, so a centred transition can last 1000ms
+    expect(result.state.tracks[0].transitions).toEqual([
+      { id: 'x', type: 'dissolve', fromItemId: 'a', toItemId: 'b', duration: 1000, alignment: 'center' }
+    ]);
+    expect(result.warnings.length).toBe(2);
+  });
+
+  it('should keep valid keyframes, clamp their values and drop malformed ones', () => {
+    const json = JSON.stringify(createDocument({
+      tracks: [{
+        id: 't1',
+        name: 'Track 1',
+        order: 0,
+        items: [{
+          id: 'a',
+          type: MediaType.VIDEO,
+          startTime: 0,
+          duration: 2000,
+          trackId: 't1',
+          keyframes: {
+            opacity: [
+              { id: 'k2', time: 1000, value: 150, interpolation: 'bezier', easing: [2, 0, 1, 1] },
+              { id: 'k1', time: 0, value: 0, interpolation: 'linear' },
+              { id: 'k3', time: 'late', value: 0, interpolation: 'linear' }
+            ],
+            brightness: [{ id: 'k4', time: 0, value: 1, interpolation: 'linear' }]
+          }
+        }]
+      }]
+    }));
+
+    const result = service.parse(json);
+
+    expect(result.state.tracks[0].items[0].keyframes).toEqual({
+      opacity: [
+        { id: 'k1', time: 0, value: 0, interpolation: 'linear' },
+        { id: 'k2', time: 1000, value: 100, interpolation: 'bezier' }
+      ]
+    });
+    expect(result.warnings.length).toBe(3);
+  });
+
+  it('should add a track when the project has none', () => {
+    const result = service.parse(JSON.stringify(createDocument()));
+    expect(result.state.tracks.length).toBe(1);
+  });
+});
@@ -0,0 +1,594 @@
+import { Injectable } from '@angular/core';
+import {
+  MARKER_COLORS,
+  Marker,
+  MediaItem,
+  MediaType,
+  SEQUENCE_FRAME_RATES,
+  SequenceSettings,
+  TRACK_FLAGS,
+  TRACK_KIND_MEDIA_TYPES,
+  TimelineState,
+  Track,
+  TrackKind,
+  Transition
+} from '../models/timeline.models';
+import {
+  PROJECT_FORMAT,
+  PROJECT_SCHEMA_VERSION,
+  ProjectDocument,
+  ProjectLoadError
+} from '../models/project.models';
+import { BezierEasing, ItemKeyframes, Keyframe, KEYFRAME_PARAMETERS } from '../models/keyframe.models';
+import { TransitionService } from './transition.service';
+
+type RawDocument = Record<string, unknown>;
+
+export interface ProjectLoadResult {
+  state: TimelineState;
+  warnings: string[]; // Human readable descriptions of every repair that was applied
+}
+
+/**
+ * Service responsible for converting the timeline state to a versioned project document and back.
+ * Loading validates the document and repairs malformed items instead of passing them to the timeline.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectSerializerService {
+  private readonly MIN_ITEM_DURATION = 100; // Minimum item duration in milliseconds
+  private readonly DEFAULT_ZOOM_LEVEL = 50; // pixels per second
+  private readonly DEFAULT_TOTAL_DURATION = 60000; // milliseconds
+
+  /**
+   * Migrations keyed by the schema version they upgrade from.
+   * Each migration receives a document of version N and returns a document of version N + 1.
+   */
+  private readonly migrations: Record<number, (doc: RawDocument) => RawDocument> = {};
+
+  constructor(private transitionService: TransitionService) {}
+
+  /**
+   * Build a project document from the current timeline state
+   */
+  serialize(state: TimelineState): ProjectDocument {
+    const doc: ProjectDocument = {
+      format: PROJECT_FORMAT,
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      tracks: state.tracks.map(track => ({
+        ...track,
+        items: track.items.map(item => ({ ...item })),
+        ...(track.transitions ? { transitions: track.transitions.map(transition => ({ ...transition })) } : {})
+      })),
+      playheadPosition: state.playheadPosition,
+      zoomLevel: state.zoomLevel,
+      totalDuration: state.totalDuration
+    };
+    if (state.inPoint !== undefined) doc.inPoint = state.inPoint;
+    if (state.outPoint !== undefined) doc.outPoint = state.outPoint;
+    if (state.sequence) doc.sequence = { ...state.sequence };
+    if (state.markers && state.markers.length > 0) doc.markers = state.markers.map(marker => ({ ...marker }));
+    return doc;
+  }
+
+  toJson(state: TimelineState): string {
+    return JSON.stringify(this.serialize(state), null, 2);
+  }
+
+  /**
+   * Parse, migrate and validate a project document
+   * Throws ProjectLoadError when the document cannot be used at all
+   */
+  parse(json: string): ProjectLoadResult {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new ProjectLoadError('The file is not valid JSON.');
+    }
+
+    if (!this.isObject(raw) || raw['format'] !== PROJECT_FORMAT) {
+      throw new ProjectLoadError('The file is not a video timeline project.');
+    }
+
+    const migrated = this.migrate(raw);
+    return this.validate(migrated);
+  }
+
+  /**
+   * Upgrade a raw document to the current schema version
+   */
+  private migrate(doc: RawDocument): RawDocument {
+    let version = doc['schemaVersion'];
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new ProjectLoadError('The project has no valid schema version.');
+    }
+    if (version > PROJECT_SCHEMA_VERSION) {
+      throw new ProjectLoadError(
+        `The project was saved with a newer schema version (${version}) than this editor supports (${PROJECT_SCHEMA_VERSION}).`
+      );
+    }
+
+    let current = doc;
+    while (version < PROJECT_SCHEMA_VERSION) {
+      const migration = this.migrations[version];
+      if (!migration) {
+        throw new ProjectLoadError(`No migration available from schema version ${version}.`);
+      }
+      current = { ...migration(current), schemaVersion: version + 1 };
+      version++;
+    }
+
+    return current;
+  }
+
+  /**
+   * Validate the migrated document and repair what can be repaired
+   */
+  private validate(doc: RawDocument): ProjectLoadResult {
+    const warnings: string[] = [];
+
+    let totalDuration = doc['totalDuration'];
+    if (!this.isFiniteNumber(totalDuration) || totalDuration < 1000) {
+      warnings.push('Invalid total duration, using the default of 60 seconds.');
+      totalDuration = this.DEFAULT_TOTAL_DURATION;
+    }
+
+    let zoomLevel = doc['zoomLevel'];
+    if (!this.isFiniteNumber(zoomLevel) || zoomLevel <= 0) {
+      warnings.push('Invalid zoom level, using the default zoom.');
+      zoomLevel = this.DEFAULT_ZOOM_LEVEL;
+    }
+
+    let playheadPosition = doc['playheadPosition'];
+    if (!this.isFiniteNumber(playheadPosition)) {
+      playheadPosition = 0;
+    }
+    playheadPosition = Math.max(0, Math.min(playheadPosition as number, totalDuration as number));
+
+    const { inPoint, outPoint } = this.validateInOutPoints(doc, totalDuration as number, warnings);
+    const sequence = this.validateSequence(doc['sequence'], warnings);
+    const markers = Array.isArray(doc['markers'])
+      ? this.validateMarkers(doc['markers'] as unknown[], totalDuration as number, warnings)
+      : [];
+
+    if (!Array.isArray(doc['tracks'])) {
+      throw new ProjectLoadError('The project does not contain a track list.');
+    }
+
+    const usedTrackIds = new Set<string>();
+    const usedItemIds = new Set<string>();
+    const tracks: Track[] = [];
+
+    (doc['tracks'] as unknown[]).forEach((rawTrack, index) => {
+      if (!this.isObject(rawTrack)) {
+        warnings.push(`Track #${index + 1} is malformed and was removed.`);
+        return;
+      }
+
+      let id = typeof rawTrack['id'] === 'string' && rawTrack['id'] ? rawTrack['id'] : '';
+      if (!id || usedTrackIds.has(id)) {
+        id = this.generateUniqueId('track', usedTrackIds);
+        warnings.push(`Track #${index + 1} had a missing or duplicate id and was given a new one.`);
+      }
+      usedTrackIds.add(id);
+
+      const name = typeof rawTrack['name'] === 'string' ? rawTrack['name'] : `Track ${tracks.length + 1}`;
+      const rawItems = Array.isArray(rawTrack['items']) ? rawTrack['items'] as unknown[] : [];
+      const items = this.validateItems(rawItems, id, name, usedItemIds, warnings);
+
+      const track: Track = { id, name, order: tracks.length, items };
+      for (const flag of TRACK_FLAGS) {
+        if (rawTrack[flag] === true) {
+          track[flag] = true;
+        }
+      }
+      const kind = this.validateTrackKind(rawTrack['kind'], items, name, warnings);
+      if (kind) {
+        track.kind = kind;
+      }
+      if (Array.isArray(rawTrack['transitions'])) {
+        const transitions = this.validateTransitions(rawTrack['transitions'] as unknown[], track, warnings);
+        if (transitions.length > 0) {
+          track.transitions = transitions;
+        }
+      }
+      tracks.push(track);
+    });
+
+    // Items moved right to resolve overlaps can end past the timeline, which then grows to hold them
+    const itemsEnd = Math.max(0, ...tracks.flatMap(t => t.items.map(item => item.startTime + item.duration)));
+    if (itemsEnd > (totalDuration as number)) {
+      warnings.push('Items ran past the end of the timeline, the total duration was extended to fit them.');
+      totalDuration = itemsEnd;
+    }
+
+    if (tracks.length === 0) {
+      warnings.push('The project had no tracks, an empty track was added.');
+      tracks.push({ id: this.generateUniqueId('track', usedTrackIds), name: 'Track 1', order: 0, items: [] });
+    }
+
+    return {
+      state: {
+        tracks,
+        playheadPosition: playheadPosition as number,
+        zoomLevel: zoomLevel as number,
+        totalDuration: totalDuration as number,
+        selectedItemIds: [],
+        ...(inPoint !== undefined ? { inPoint } : {}),
+        ...(outPoint !== undefined ? { outPoint } : {}),
+        ...(sequence ? { sequence } : {}),
+        ...(markers.length > 0 ? { markers } : {})
+      },
+      warnings
+    };
+  }
+
+  /**
+   * Tracks without a kind are mixed; a track holding media its kind doesn't take becomes mixed
+   */
+  private validateTrackKind(rawKind: unknown, items: MediaItem[], trackName: string, warnings: string[]): TrackKind | undefined {
+    if (rawKind === undefined) return undefined;
+    if (!Object.keys(TRACK_KIND_MEDIA_TYPES).includes(rawKind as string)) {
+      warnings.push(`"${trackName}" had an unknown track kind "${String(rawKind)}", it was made a mixed track.`);
+      return undefined;
+    }
+
+    const kind = rawKind as TrackKind;
+    if (items.some(item => !TRACK_KIND_MEDIA_TYPES[kind].includes(item.type))) {
+      warnings.push(`"${trackName}" held media its kind doesn't take, it was made a mixed track.`);
+      return undefined;
+    }
+    return kind;
+  }
+
+  /**
+   * In and out points are optional; points outside the timeline or an out point before the in point are dropped
+   */
+  private validateInOutPoints(
+    doc: RawDocument,
+    totalDuration: number,
+    warnings: string[]
+  ): { inPoint?: number; outPoint?: number } {
+    const read = (key: 'inPoint' | 'outPoint'): number | undefined => {
+      const value = doc[key];
+      if (value === undefined || value === null) return undefined;
+      if (!this.isFiniteNumber(value) || value < 0 || value > totalDuration) {
+        warnings.push(`Invalid ${key === 'inPoint' ? 'in' : 'out'} point was removed.`);
+        return undefined;
+      }
+      return value;
+    };
+
+    const inPoint = read('inPoint');
+    const outPoint = read('outPoint');
+    if (inPoint !== undefined && outPoint !== undefined && outPoint <= inPoint) {
+      warnings.push('The out point was before the in point, both were removed.');
+      return {};
+    }
+    return { inPoint, outPoint };
+  }
+
+  /**
+   * Sequence settings are optional; settings that are not one of the offered frame rates fall back to the default
+   */
+  private validateSequence(raw: unknown, warnings: string[]): SequenceSettings | undefined {
+    if (raw === undefined || raw === null) return undefined;
+
+    const preset = this.isObject(raw)
+      ? SEQUENCE_FRAME_RATES.find(p => p.settings.frameRate === raw['frameRate'] && p.settings.dropFrame === raw['dropFrame'])
+      : undefined;
+    if (!preset) {
+      warnings.push('Invalid sequence settings, using the default of 30 fps.');
+      return undefined;
+    }
+    return { ...preset.settings };
+  }
+
+  /**
+   * Markers outside the timeline or without a valid time are dropped, ranges are cut at the end of the timeline
+   */
+  private validateMarkers(rawMarkers: unknown[], totalDuration: number, warnings: string[]): Marker[] {
+    const colors = MARKER_COLORS.map(c => c.id as string);
+    const usedIds = new Set<string>();
+    const markers: Marker[] = [];
+
+    rawMarkers.forEach((raw, index) => {
+      const label = `Marker #${index + 1}`;
+      if (!this.isObject(raw) || !this.isFiniteNumber(raw['time']) || raw['time'] < 0 || raw['time'] > totalDuration) {
+        warnings.push(`${label} is malformed or outside the timeline and was removed.`);
+        return;
+      }
+
+      let id = typeof raw['id'] === 'string' && raw['id'] ? raw['id'] : '';
+      if (!id || usedIds.has(id)) {
+        id = this.generateUniqueId('marker', usedIds);
+      }
+      usedIds.add(id);
+
+      const marker: Marker = {
+        id,
+        time: raw['time'],
+        name: typeof raw['name'] === 'string' ? raw['name'] : `Marker ${markers.length + 1}`,
+        color: typeof raw['color'] === 'string' && colors.includes(raw['color']) ? raw['color'] as Marker['color'] : 'blue'
+      };
+      const duration = raw['duration'];
+      if (this.isFiniteNumber(duration) && duration > 0) {
+        const limitedDuration = Math.min(duration, totalDuration - marker.time);
+        if (limitedDuration > 0) marker.duration = limitedDuration;
+        if (limitedDuration < duration) {
+          warnings.push(`${label} ran past the end of the timeline and was shortened.`);
+        }
+      }
+      if (typeof raw['note'] === 'string' && raw['note']) {
+        marker.note = raw['note'];
+      }
+      markers.push(marker);
+    });
+
+    return markers.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Validate the items of one track
+   * Drops items that cannot be repaired and moves overlapping items after their predecessor
+   */
+  private validateItems(
+    rawItems: unknown[],
+    trackId: string,
+    trackName: string,
+    usedItemIds: Set<string>,
+    warnings: string[]
+  ): MediaItem[] {
+    const mediaTypes = Object.values(MediaType) as string[];
+    const items: MediaItem[] = [];
+
+    rawItems.forEach((rawItem, index) => {
+      const label = `Item #${index + 1} on "${trackName}"`;
+
+      if (!this.isObject(rawItem)) {
+        warnings.push(`${label} is malformed and was removed.`);
+        return;
+      }
+
+      if (typeof rawItem['type'] !== 'string' || !mediaTypes.includes(rawItem['type'])) {
+        warnings.push(`${label} has an unknown media type "${String(rawItem['type'])}" and was removed.`);
+        return;
+      }
+
+      const rawStart = rawItem['startTime'];
+      const rawDuration = rawItem['duration'];
+      if (!this.isFiniteNumber(rawStart) || !this.isFiniteNumber(rawDuration) || rawDuration <= 0) {
+        warnings.push(`${label} has an invalid start time or duration and was removed.`);
+        return;
+      }
+
+      let id = typeof rawItem['id'] === 'string' && rawItem['id'] ? rawItem['id'] : '';
+      if (!id || usedItemIds.has(id)) {
+        id = this.generateUniqueId('item', usedItemIds);
+        warnings.push(`${label} had a missing or duplicate id and was given a new one.`);
+      }
+      usedItemIds.add(id);
+
+      let startTime = rawStart;
+      if (startTime < 0) {
+        warnings.push(`${label} started before 0 and was moved to the start of the timeline.`);
+        startTime = 0;
+      }
+
+      let duration = Math.max(this.MIN_ITEM_DURATION, rawDuration);
+
+      const item: MediaItem = {
+        id,
+        type: rawItem['type'] as MediaType,
+        startTime,
+        duration,
+        trackId
+      };
+
+      if (typeof rawItem['name'] === 'string') {
+        item.name = rawItem['name'];
+      }
+      if (typeof rawItem['isPlaceholder'] === 'boolean') {
+        item.isPlaceholder = rawItem['isPlaceholder'];
+      }
+      if (typeof rawItem['sourceId'] === 'string') {
+        item.sourceId = rawItem['sourceId'];
+      }
+      if (typeof rawItem['linkId'] === 'string') {
+        item.linkId = rawItem['linkId'];
+      }
+
+      const rawMediaStart = rawItem['mediaStartTime'];
+      if (rawMediaStart !== undefined) {
+        if (this.isFiniteNumber(rawMediaStart) && rawMediaStart >= 0) {
+          item.mediaStartTime = rawMediaStart;
+        } else {
+          warnings.push(`${label} had an invalid media start time, it was reset to 0.`);
+          item.mediaStartTime = 0;
+        }
+      }
+
+      const rawMaxDuration = rawItem['maxDuration'];
+      if (rawMaxDuration !== undefined) {
+        if (this.isFiniteNumber(rawMaxDuration) && rawMaxDuration > 0) {
+          item.maxDuration = rawMaxDuration;
+          const available = rawMaxDuration - (item.mediaStartTime || 0);
+          if (duration > available) {
+            duration = Math.max(this.MIN_ITEM_DURATION, available);
+            item.duration = duration;
+            warnings.push(`${label} was longer than its source media and was trimmed.`);
+          }
+        } else {
+          warnings.push(`${label} had an invalid maximum duration, it was removed.`);
+        }
+      }
+
+      if (rawItem['keyframes'] !== undefined) {
+        const keyframes = this.validateKeyframes(rawItem['keyframes'], label, warnings);
+        if (keyframes) {
+          item.keyframes = keyframes;
+        }
+      }
+
+      items.push(item);
+    });
+
+    // Resolve overlaps by moving each overlapping item right after its predecessor
+    const sortedItems = items.sort((a, b) => a.startTime - b.startTime);
+    for (let i = 1; i < sortedItems.length; i++) {
+      const previous = sortedItems[i - 1];
+      const previousEnd = previous.startTime + previous.duration;
+      if (sortedItems[i].startTime < previousEnd) {
+        warnings.push(`"${sortedItems[i].name || sortedItems[i].id}" overlapped another item on "${trackName}" and was moved.`);
+        sortedItems[i] = { ...sortedItems[i], startTime: previousEnd };
+      }
+    }
+
+    return sortedItems;
+  }
+
+  /**
+   * Validate the keyframes of one item
+   * Unknown parameters and malformed keyframes are removed, values outside the range of their parameter are clamped
+   * and an invalid bezier easing falls back to the default curve
+   */
+  validateKeyframes(raw: unknown, label: string, warnings: string[]): ItemKeyframes | undefined {
+    if (!this.isObject(raw)) {
+      warnings.push(`${label} had malformed keyframes, they were removed.`);
+      return undefined;
+    }
+
+    const interpolations = ['linear', 'hold', 'bezier'];
+    const keyframes: ItemKeyframes = {};
+    let malformedCount = 0;
+    let clampedCount = 0;
+
+    for (const [parameter, rawList] of Object.entries(raw)) {
+      const definition = KEYFRAME_PARAMETERS.find(p => p.id === parameter);
+      if (!definition || !Array.isArray(rawList)) {
+        warnings.push(`${label} had keyframes for an unknown parameter "${parameter}", they were removed.`);
+        continue;
+      }
+
+      const list: Keyframe[] = [];
+      for (const rawKeyframe of rawList as unknown[]) {
+        if (
+          !this.isObject(rawKeyframe) ||
+          typeof rawKeyframe['id'] !== 'string' ||
+          !this.isFiniteNumber(rawKeyframe['time']) ||
+          !this.isFiniteNumber(rawKeyframe['value']) ||
+          !interpolations.includes(rawKeyframe['interpolation'] as string)
+        ) {
+          malformedCount++;
+          continue;
+        }
+
+        const value = Math.max(definition.min, Math.min(rawKeyframe['value'], definition.max));
+        if (value !== rawKeyframe['value']) {
+          clampedCount++;
+        }
+        const keyframe: Keyframe = {
+          id: rawKeyframe['id'],
+          time: rawKeyframe['time'],
+          value,
+          interpolation: rawKeyframe['interpolation'] as Keyframe['interpolation']
+        };
+        if (this.isBezierEasing(rawKeyframe['easing'])) {
+          keyframe.easing = rawKeyframe['easing'];
+        }
+        list.push(keyframe);
+      }
+
+      if (list.length > 0) {
+        keyframes[definition.id] = list.sort((a, b) => a.time - b.time);
+      }
+    }
+
+    if (malformedCount > 0) {
+      warnings.push(`${label} had ${malformedCount} malformed keyframe(s), they were removed.`);
+    }
+    if (clampedCount > 0) {
+      warnings.push(`${label} had keyframe values out of range, they were clamped.`);
+    }
+    return Object.keys(keyframes).length > 0 ? keyframes : undefined;
+  }
+
+  // The x coordinates of both control points must lie within 0..1 for the curve to be a function of time
+  private isBezierEasing(value: unknown): value is BezierEasing {
+    return Array.isArray(value) &&
+      value.length === 4 &&
+      value.every(v => this.isFiniteNumber(v)) &&
+      value[0] >= 0 && value[0] <= 1 &&
+      value[2] >= 0 && value[2] <= 1;
+  }
+
+  /**
+   * Validate the transitions of one track against its already validated items
+   * Transitions whose items no longer touch are removed, ones longer than the handles allow are shortened
+   */
+  private validateTransitions(rawTransitions: unknown[], track: Track, warnings: string[]): Transition[] {
+    const types = ['dissolve', 'crossfade'];
+    const alignments = ['center', 'start', 'end'];
+    const transitions: Transition[] = [];
+    const labels = new Map<string, string>(); // transition id -> label for later warnings
+
+    rawTransitions.forEach((raw, index) => {
+      const label = `Transition #${index + 1} on "${track.name}"`;
+      if (
+        !this.isObject(raw) ||
+        typeof raw['id'] !== 'string' ||
+        typeof raw['fromItemId'] !== 'string' ||
+        typeof raw['toItemId'] !== 'string' ||
+        !types.includes(raw['type'] as string) ||
+        !alignments.includes(raw['alignment'] as string) ||
+        !this.isFiniteNumber(raw['duration']) ||
+        raw['duration'] <= 0
+      ) {
+        warnings.push(`${label} is malformed and was removed.`);
+        return;
+      }
+      transitions.push({
+        id: raw['id'],
+        type: raw['type'] as Transition['type'],
+        fromItemId: raw['fromItemId'],
+        toItemId: raw['toItemId'],
+        duration: raw['duration'],
+        alignment: raw['alignment'] as Transition['alignment']
+      });
+      labels.set(raw['id'], label);
+    });
+
+    const normalized = this.transitionService.normalizeTrack({ ...track, transitions }).transitions ?? [];
+    transitions.forEach(transition => {
+      const kept = normalized.find(t => t.id === transition.id);
+      const label = labels.get(transition.id);
+      if (!kept) {
+        warnings.push(`${label} is not between two touching items and was removed.`);
+      } else if (kept.duration < transition.duration) {
+        warnings.push(`${label} was longer than the media of its items allows and was shortened.`);
+      }
+    });
+    return normalized;
+  }
+
+  private generateUniqueId(prefix: string, usedIds: Set<string>): string {
+    let counter = usedIds.size + 1;
+    let id = `${prefix}-${Date.now()}-${counter}`;
+    while (usedIds.has(id)) {
+      counter++;
+      id = `${prefix}-${Date.now()}-${counter}`;
+    }
+    return id;
+  }
+
+  private isObject(value: unknown): value is RawDocument {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+}
@@ -0,0 +1,79 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { SnappingService } from './snapping.service';
+import { MediaType, Track } from '../models/timeline.models';
+import { SnapTarget } from '../models/snapping.models';
+
+describe('SnappingService', () => {
+  let service: SnappingService;
+
+  const tracks: Track[] = [
+    {
+      id: 'track-1',
+      name: 'Track 1',
+      order: 0,
+      items: [
+        { id: 'a', type: MediaType.VIDEO, startTime: 0, duration: 2000, trackId: 'track-1' },
+        { id: 'b', type: MediaType.VIDEO, startTime: 5000, duration: 1000, trackId: 'track-1' }
+      ]
+    }
+  ];
+  const targets: SnapTarget[] = [{ time: 5000, category: 'itemEdges' }];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(SnappingService);
+  });
+
+  it('should collect the targets of the enabled categories', () => {
+    const collected = service.collectTargets({
+      tracks,
+      excludedItemIds: ['b'],
+      playheadPosition: 3000,
+      inPoint: 1000,
+      markers: [4000]
+    });
+    expect(collected.map(t => t.time).sort((x, y) => x - y)).toEqual([0, 1000, 2000, 3000, 4000]);
+
+    service.toggleCategory('itemEdges');
+    service.toggleCategory('playhead');
+    expect(service.collectTargets({ tracks, excludedItemIds: [], playheadPosition: 3000 })).toEqual([]);
+  });
+
+  it('should measure the tolerance in pixels', () => {
+    // 10 px is 200 ms at 50 px/s and 20 ms at 500 px/s
+    expect(service.snap(4850, [0], targets, 0.05, 30)).toEqual({ position: 5000, guide: 5000 });
+    expect(service.snap(4850, [0], targets, 0.5, 30)).toEqual({ position: 4850, guide: null });
+  });
+
+  it('should snap whichever edge is closest to a target', () => {
+    // The end of a 1000 ms item starting at 3950 is 50 ms from the target
+    expect(service.snap(3950, [0, 1000], targets, 0.05, 30)).toEqual({ position: 4000, guide: 5000 });
+  });
+
+  it('should not snap when bypassed or turned off', () => {
+    expect(service.snap(4900, [0], targets, 0.05, 30, true).position).toBe(4900);
+
+    service.toggleEnabled();
+    expect(service.snap(4900, [0], targets, 0.05, 30)).toEqual({ position: 4900, guide: null });
+  });
+
+  it('should only use grid lines when no other target is in reach', () => {
+    service.toggleCategory('seconds');
+
+    expect(service.snap(2950, [0], targets, 0.05, 25)).toEqual({ position: 3000, guide: 3000 });
+    // The marker is further away than the second boundary at 4000 but still wins
+    expect(service.snap(3950, [0], [{ time: 4100, category: 'markers' }], 0.05, 25)).toEqual({ position: 4100, guide: 4100 });
+    expect(service.snap(4850, [0], [], 0.5, 25).position).toBe(4850);
+  });
+
+  it('should ignore invalid tolerances', () => {
+    service.setTolerance(0);
+    expect(service.settings().tolerance).toBe(10);
+
+    service.setTolerance(24.6);
+    expect(service.settings().tolerance).toBe(25);
+  });
+});
@@ -0,0 +1,127 @@
+import { Injectable, signal } from '@angular/core';
+import {
+  DEFAULT_SNAP_SETTINGS,
+  SNAP_GRID_CATEGORIES,
+  SnapCategory,
+  SnapContext,
+  SnapResult,
+  SnapSettings,
+  SnapTarget
+} from '../models/snapping.models';
+import { TimecodeService } from './timecode.service';
+
+/**
+ * Service responsible for snapping moved edges and the playhead to nearby targets
+ * Targets are grouped in categories that can be turned off; the tolerance is measured in screen pixels
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SnappingService {
+  readonly settings = signal<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+
+  constructor(private timecodeService: TimecodeService) {}
+
+  toggleEnabled(): void {
+    this.settings.update(s => ({ ...s, enabled: !s.enabled }));
+  }
+
+  toggleCategory(category: SnapCategory): void {
+    this.settings.update(s => ({ ...s, categories: { ...s.categories, [category]: !s.categories[category] } }));
+  }
+
+  setTolerance(pixels: number): void {
+    if (!Number.isFinite(pixels) || pixels < 1) return;
+    this.settings.update(s => ({ ...s, tolerance: Math.round(pixels) }));
+  }
+
+  /**
+   * Collect the targets of the enabled categories, grid lines are computed while snapping instead
+   */
+  collectTargets(context: SnapContext): SnapTarget[] {
+    const { categories } = this.settings();
+    const targets: SnapTarget[] = [];
+
+    if (categories.playhead && context.playheadPosition !== undefined) {
+      targets.push({ time: context.playheadPosition, category: 'playhead' });
+    }
+
+    if (categories.itemEdges) {
+      for (const track of context.tracks) {
+        for (const item of track.items) {
+          if (context.excludedItemIds.includes(item.id)) continue;
+          targets.push({ time: item.startTime, category: 'itemEdges' });
+          targets.push({ time: item.startTime + item.duration, category: 'itemEdges' });
+        }
+      }
+    }
+
+    if (categories.markers) {
+      for (const time of context.markers ?? []) {
+        targets.push({ time, category: 'markers' });
+      }
+    }
+
+    if (categories.inOutPoints) {
+      for (const time of [context.inPoint, context.outPoint]) {
+        if (time !== undefined) targets.push({ time, category: 'inOutPoints' });
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Snap something whose edges sit at the given offsets from its position, e.g. [0, duration] for an item
+   * The edge closest to a target wins; grid lines are only tried when no target is within the tolerance
+   */
+  snap(
+    position: number,
+    edgeOffsets: number[],
+    targets: SnapTarget[],
+    pixelsPerMillisecond: number,
+    frameRate: number,
+    bypass = false
+  ): SnapResult {
+    const settings = this.settings();
+    if (bypass || !settings.enabled) return { position, guide: null };
+
+    const tolerance = settings.tolerance / pixelsPerMillisecond;
+    const gridTargets = (edge: number): SnapTarget[] => SNAP_GRID_CATEGORIES
+      .filter(category => settings.categories[category])
+      .map(category => ({ time: this.getNearestGridLine(edge, category, frameRate), category }));
+
+    return this.findClosest(position, edgeOffsets, () => targets, tolerance) ??
+      this.findClosest(position, edgeOffsets, gridTargets, tolerance) ??
+      { position, guide: null };
+  }
+
+  private findClosest(
+    position: number,
+    edgeOffsets: number[],
+    getTargets: (edge: number) => SnapTarget[],
+    tolerance: number
+  ): SnapResult | null {
+    let closest: SnapResult | null = null;
+    let minDistance = tolerance;
+
+    for (const offset of edgeOffsets) {
+      const edge = position + offset;
+      for (const target of getTargets(edge)) {
+        const distance = Math.abs(edge - target.time);
+        if (distance < minDistance) {
+          minDistance = distance;
+          closest = { position: target.time - offset, guide: target.time };
+        }
+      }
+    }
+    return closest;
+  }
+
+  // Second boundaries land on the nearest frame, as every edit does
+  private getNearestGridLine(time: number, category: SnapCategory, frameRate: number): number {
+    return category === 'seconds'
+      ? this.timecodeService.quantize(Math.round(time / 1000) * 1000, frameRate)
+      : this.timecodeService.quantize(time, frameRate);
+  }
+}
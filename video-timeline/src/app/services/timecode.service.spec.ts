@@ -0,0 +1,53 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TimecodeService } from './timecode.service';
+
+describe('TimecodeService', () => {
+  let service: TimecodeService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TimecodeService);
+  });
+
+  it('should format and parse timecodes at the nominal rate', () => {
+    expect(service.framesToTimecode(90061, 25)).toBe('01:00:02:11');
+    expect(service.timecodeToFrames('01:00:02:11', 25)).toBe(90061);
+    expect(service.msToTimecode(1500, 30)).toBe('00:00:01:15');
+  });
+
+  it('should reject timecodes with out of range fields', () => {
+    expect(service.timecodeToFrames('00:00:00:25', 25)).toBeNull();
+    expect(service.timecodeToFrames('00:61:00:00', 25)).toBeNull();
+    expect(service.timecodeToFrames('not a timecode', 25)).toBeNull();
+  });
+
+  it('should skip the dropped frame numbers in drop-frame timecode', () => {
+    expect(service.framesToTimecode(1799, 29.97, true)).toBe('00:00:59;29');
+    expect(service.framesToTimecode(1800, 29.97, true)).toBe('00:01:00;02');
+    expect(service.framesToTimecode(17982, 29.97, true)).toBe('00:10:00;00');
+    expect(service.framesToTimecode(107892, 29.97, true)).toBe('01:00:00;00');
+    expect(service.framesToTimecode(3600, 59.94, true)).toBe('00:01:00;04');
+  });
+
+  it('should parse drop-frame timecode and reject dropped frame numbers', () => {
+    expect(service.timecodeToFrames('00:01:00;02', 29.97, true)).toBe(1800);
+    expect(service.timecodeToFrames('01:00:00;00', 29.97, true)).toBe(107892);
+    expect(service.timecodeToFrames('00:01:00;00', 29.97, true)).toBeNull();
+    expect(service.timecodeToFrames('00:10:00;00', 29.97, true)).toBe(17982);
+  });
+
+  it('should keep drop-frame timecode in step with the clock', () => {
+    // An hour of 29.97 fps video is one hour of drop-frame timecode
+    expect(service.msToTimecode(3600000, 29.97, true)).toBe('01:00:00;00');
+    expect(service.msToTimecode(3600000, 29.97)).toBe('00:59:56:12');
+  });
+
+  it('should quantize times to frame boundaries', () => {
+    expect(service.quantize(1010, 25)).toBe(1000);
+    expect(service.quantize(1030, 25)).toBe(1040);
+    expect(service.msToFrames(service.quantize(1234, 23.976), 23.976)).toBe(30);
+  });
+});
@@ -0,0 +1,112 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Service responsible for converting between milliseconds, frame counts and SMPTE timecode strings
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimecodeService {
+  /**
+   * Convert milliseconds to the nearest whole frame count
+   */
+  msToFrames(milliseconds: number, frameRate: number): number {
+    return Math.round(milliseconds * this.getExactRate(frameRate) / 1000);
+  }
+
+  framesToMs(frames: number, frameRate: number): number {
+    return frames * 1000 / this.getExactRate(frameRate);
+  }
+
+  /**
+   * Move a time to the nearest frame boundary
+   */
+  quantize(milliseconds: number, frameRate: number): number {
+    return this.framesToMs(this.msToFrames(milliseconds, frameRate), frameRate);
+  }
+
+  /**
+   * Drop-frame timecode only exists for the NTSC rates 29.97 and 59.94
+   */
+  supportsDropFrame(frameRate: number): boolean {
+    const nominalRate = Math.round(frameRate);
+    return (nominalRate === 30 || nominalRate === 60) && nominalRate !== frameRate;
+  }
+
+  /**
+   * Format a frame count as HH:MM:SS:FF, or HH:MM:SS;FF for drop-frame timecode
+   * Timecode counts frames at the nominal (integer) rate, e.g. 30 for 29.97.
+   * Drop-frame timecode skips the first frame numbers of every minute except each tenth minute
+   * so that it stays in step with the clock.
+   */
+  framesToTimecode(frames: number, frameRate: number, dropFrame = false): string {
+    const nominalRate = Math.round(frameRate);
+    let totalFrames = Math.max(0, Math.round(frames));
+
+    const useDropFrame = dropFrame && this.supportsDropFrame(frameRate);
+    if (useDropFrame) {
+      const dropped = this.getDroppedFramesPerMinute(nominalRate);
+      const framesPerMinute = nominalRate * 60 - dropped;
+      const framesPerTenMinutes = framesPerMinute * 10 + dropped;
+      const tenMinutes = Math.floor(totalFrames / framesPerTenMinutes);
+      const remainder = totalFrames % framesPerTenMinutes;
+      // The first minute of every ten keeps all its frame numbers
+      const skippedMinutes = remainder > dropped ? Math.floor((remainder - dropped) / framesPerMinute) : 0;
+      totalFrames += dropped * (tenMinutes * 9 + skippedMinutes);
+    }
+
+    const ff = totalFrames % nominalRate;
+    const totalSeconds = Math.floor(totalFrames / nominalRate);
+    const ss = totalSeconds % 60;
+    const mm = Math.floor(totalSeconds / 60) % 60;
+    const hh = Math.floor(totalSeconds / 3600);
+
+    const [hours, minutes, seconds, frameNumber] = [hh, mm, ss, ff].map(value => value.toString().padStart(2, '0'));
+    return `${hours}:${minutes}:${seconds}${useDropFrame ? ';' : ':'}${frameNumber}`;
+  }
+
+  /**
+   * Parse HH:MM:SS:FF (or HH:MM:SS;FF) into a frame count
+   * Returns null for strings that are not a valid timecode, including frame numbers that drop-frame timecode skips
+   */
+  timecodeToFrames(timecode: string, frameRate: number, dropFrame = false): number | null {
+    const match = /^(\d{2}):(\d{2}):(\d{2})[:;.](\d{2})$/.exec(timecode.trim());
+    if (!match) return null;
+
+    const nominalRate = Math.round(frameRate);
+    const [hh, mm, ss, ff] = match.slice(1).map(Number);
+    if (mm > 59 || ss > 59 || ff >= nominalRate) return null;
+
+    const frames = ((hh * 60 + mm) * 60 + ss) * nominalRate + ff;
+    if (!dropFrame || !this.supportsDropFrame(frameRate)) return frames;
+
+    const dropped = this.getDroppedFramesPerMinute(nominalRate);
+    if (ss === 0 && ff < dropped && mm % 10 !== 0) return null;
+
+    const totalMinutes = hh * 60 + mm;
+    return frames - dropped * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  msToTimecode(milliseconds: number, frameRate: number, dropFrame = false): string {
+    return this.framesToTimecode(this.msToFrames(milliseconds, frameRate), frameRate, dropFrame);
+  }
+
+  timecodeToMs(timecode: string, frameRate: number, dropFrame = false): number | null {
+    const frames = this.timecodeToFrames(timecode, frameRate, dropFrame);
+    return frames === null ? null : this.framesToMs(frames, frameRate);
+  }
+
+  /**
+   * NTSC rates are labelled 23.976, 29.97 and 59.94 but run at exactly 24000/1001, 30000/1001 and 60000/1001
+   */
+  private getExactRate(frameRate: number): number {
+    const nominalRate = Math.round(frameRate * 1.001);
+    return Math.abs(frameRate * 1.001 - nominalRate) < 0.001 && nominalRate !== frameRate
+      ? nominalRate / 1.001
+      : frameRate;
+  }
+
+  private getDroppedFramesPerMinute(nominalRate: number): number {
+    return nominalRate === 60 ? 4 : 2;
+  }
+}
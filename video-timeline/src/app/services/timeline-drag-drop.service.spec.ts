@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TimelineDragDropService } from './timeline-drag-drop.service';
+import { MediaItem, MediaType, Track, TrackKind } from '../models/timeline.models';
+
+describe('TimelineDragDropService', () => {
+  let service: TimelineDragDropService;
+
+  const createItem = (id: string, trackId: string, startTime: number, duration: number): MediaItem => ({
+    id,
+    type: MediaType.VIDEO,
+    startTime,
+    duration,
+    trackId,
+    name: id
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TimelineDragDropService);
+  });
+
+  describe('getValidGroupDelta', () => {
+    const a = createItem('a', 't1', 0, 1000);
+    const b = createItem('b', 't2', 500, 1000);
+    const obstacle = createItem('obstacle', 't2', 3000, 1000);
+    const tracks = [
+      { id: 't1', items: [a] },
+      { id: 't2', items: [b, obstacle] }
+    ];
+
+    it('should keep the requested delta when the group fits', () => {
+      expect(service.getValidGroupDelta([a, b], 1000, tracks, 60000)).toBe(1000);
+    });
+
+    it('should stop the group before an item outside the selection', () => {
+      // b would end at 3500 and overlap the obstacle, so it butts against its start
+      expect(service.getValidGroupDelta([a, b], 2000, tracks, 60000)).toBe(1500);
+    });
+
+    it('should not move any member before the start of the timeline', () => {
+      expect(service.getValidGroupDelta([a, b], -300, tracks, 60000)).toBe(0);
+    });
+
+    it('should not move any member past the total duration', () => {
+      expect(service.getValidGroupDelta([a], 70000, [{ id: 't1', items: [a] }], 10000)).toBe(9000);
+    });
+  });
+
+  describe('getDropMode', () => {
+    it('should pick the drop mode from the held modifier', () => {
+      expect(service.getDropMode({ ctrlKey: false, metaKey: false, altKey: false })).toBe('fit');
+      expect(service.getDropMode({ ctrlKey: true, metaKey: false, altKey: false })).toBe('insert');
+      expect(service.getDropMode({ ctrlKey: false, metaKey: true, altKey: false })).toBe('insert');
+      expect(service.getDropMode({ ctrlKey: false, metaKey: false, altKey: true })).toBe('overwrite');
+    });
+  });
+
+  describe('track kinds', () => {
+    const createTrack = (id: string, kind: TrackKind | undefined, items: MediaItem[] = [], locked = false): Track => ({
+      id, name: id, order: 0, items, ...(kind ? { kind } : {}), ...(locked ? { locked } : {})
+    });
+
+    it('should only place media on tracks of a matching kind', () => {
+      expect(service.canPlaceOnTrack(MediaType.IMAGE, createTrack('v', 'video'))).toBe(true);
+      expect(service.canPlaceOnTrack(MediaType.AUDIO, createTrack('v', 'video'))).toBe(false);
+      expect(service.canPlaceOnTrack(MediaType.VIDEO, createTrack('a', 'audio'))).toBe(false);
+      expect(service.canPlaceOnTrack(MediaType.AUDIO, createTrack('m', undefined))).toBe(true);
+    });
+
+    it('should sort video tracks above mixed and audio tracks and renumber their order', () => {
+      const sorted = service.sortTracksByKind([
+        createTrack('a1', 'audio'), createTrack('m', undefined), createTrack('v1', 'video'), createTrack('v2', 'video')
+      ]);
+
+      expect(sorted.map(t => [t.id, t.order])).toEqual([['v1', 0], ['v2', 1], ['m', 2], ['a1', 3]]);
+      expect(service.isInKindOrder(sorted)).toBe(true);
+      expect(service.isInKindOrder(sorted.slice().reverse())).toBe(false);
+    });
+
+    it('should find the closest unlocked free track that takes the media', () => {
+      const tracks = [
+        createTrack('v', 'video'),
+        createTrack('a1', 'audio', [createItem('busy', 'a1', 0, 5000)]),
+        createTrack('a2', 'audio', [], true),
+        createTrack('a3', 'audio', [createItem('later', 'a3', 5000, 1000)])
+      ];
+
+      expect(service.findFreeTrack(tracks, 0, MediaType.AUDIO, 1000, 4000)?.id).toBe('a3');
+      expect(service.findFreeTrack(tracks, 0, MediaType.AUDIO, 5000, 1000)?.id).toBe('a1');
+      expect(service.findFreeTrack(tracks, 0, MediaType.AUDIO, 4000, 2000)).toBeNull();
+    });
+
+    it('should take mixed tracks as free tracks for any media', () => {
+      const tracks = [createTrack('v', 'video'), createTrack('m', undefined), createTrack('a', 'audio')];
+
+      expect(service.findFreeTrack(tracks, 0, MediaType.AUDIO, 0, 1000)?.id).toBe('m');
+      expect(service.findFreeTrack(tracks, 2, MediaType.VIDEO, 0, 1000)?.id).toBe('m');
+    });
+  });
+});
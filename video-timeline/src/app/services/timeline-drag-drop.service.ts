@@ -1,5 +1,12 @@
 import { Injectable } from '@angular/core';
-import { MediaItem } from '../models/timeline.models';
+import { MediaItem, MediaType, TRACK_KIND_MEDIA_TYPES, Track } from '../models/timeline.models';
+
+/**
+ * How a dragged item treats the items it is dropped on:
+ * 'fit' moves it into the nearest free gap, 'insert' splits the track and pushes later items right,
+ * 'overwrite' replaces whatever it covers
+ */
+export type DropMode = 'fit' | 'insert' | 'overwrite';
 
 /**
  * Service responsible for handling drag-and-drop logic and timeline positioning
@@ -10,10 +17,64 @@ import { MediaItem } from '../models/timeline.models';
 })
 export class TimelineDragDropService {
   private readonly MIN_ITEM_DURATION = 100; // Minimum item duration in milliseconds
-  readonly SNAP_DISTANCE_MS = 200; // Snapping distance in milliseconds for drag operations
 
   constructor() { }
 
+  /**
+   * Pick the drop mode from the modifier keys held during a drag
+   * Ctrl/Cmd inserts, Alt overwrites, no modifier fits the item into a gap
+   */
+  getDropMode(modifiers: { ctrlKey: boolean; metaKey: boolean; altKey: boolean }): DropMode {
+    if (modifiers.ctrlKey || modifiers.metaKey) return 'insert';
+    if (modifiers.altKey) return 'overwrite';
+    return 'fit';
+  }
+
+  /**
+   * Check if items of a media type may be placed on a track, tracks without a kind take anything
+   */
+  canPlaceOnTrack(type: MediaType, track: Track): boolean {
+    return TRACK_KIND_MEDIA_TYPES[track.kind ?? 'mixed'].includes(type);
+  }
+
+  /**
+   * Order tracks with video tracks on top, then mixed and audio tracks, keeping the order within each kind
+   * The order of every track is renumbered to its new position
+   */
+  sortTracksByKind(tracks: Track[]): Track[] {
+    return tracks
+      .map((track, index) => ({ track, index }))
+      .sort((a, b) => this.getKindRank(a.track) - this.getKindRank(b.track) || a.index - b.index)
+      .map(({ track }, order) => track.order === order ? track : { ...track, order });
+  }
+
+  /**
+   * Check that no track sits above a track whose kind belongs higher up
+   */
+  isInKindOrder(tracks: Track[]): boolean {
+    return tracks.every((track, index) => index === 0 || this.getKindRank(tracks[index - 1]) <= this.getKindRank(track));
+  }
+
+  /**
+   * Find the unlocked track that takes a media type and has no item over a time range, closest to the track at fromIndex
+   * Tracks below win over tracks the same distance above
+   */
+  findFreeTrack(tracks: Track[], fromIndex: number, type: MediaType, startTime: number, duration: number): Track | null {
+    const candidates = tracks
+      .map((track, index) => ({ track, distance: Math.abs(index - fromIndex), below: index > fromIndex }))
+      .filter(({ track }) =>
+        this.canPlaceOnTrack(type, track) && !track.locked && !track.items.some(item =>
+          item.startTime < startTime + duration && startTime < item.startTime + item.duration
+        )
+      )
+      .sort((a, b) => a.distance - b.distance || Number(b.below) - Number(a.below));
+    return candidates[0]?.track ?? null;
+  }
+
+  private getKindRank(track: Track): number {
+    return track.kind === 'video' ? 0 : track.kind === 'audio' ? 2 : 1;
+  }
+
   /**
    * Check if two items overlap
    */
@@ -187,68 +248,6 @@ export class TimelineDragDropService {
     return null;
   }
 
-  /**
-   * Find snap targets for an item being dragged
-   * Returns array of snap points (start/end positions of items on other tracks and playhead position)
-   * Fixes issue #81: Enable snapping to placeholders on different tracks and playhead
-   */
-  findSnapTargets(
-    draggedItemId: string,
-    allTracks: { items: MediaItem[] }[],
-    playheadPosition: number
-  ): number[] {
-    const snapTargets: number[] = [];
-
-    // Add playhead position as a snap target
-    snapTargets.push(playheadPosition);
-
-    // Add start and end positions of all items on all tracks (except the dragged item)
-    for (const track of allTracks) {
-      for (const item of track.items) {
-        if (item.id !== draggedItemId) {
-          snapTargets.push(item.startTime);
-          snapTargets.push(item.startTime + item.duration);
-        }
-      }
-    }
-
-    return snapTargets;
-  }
-
-  /**
-   * Apply snapping to the requested start time if close to any snap target
-   * Returns the snapped start time or the original if no snapping occurs
-   * Fixes issue #81: Snap to nearby positions for more accurate positioning
-   */
-  applySnapping(
-    requestedStartTime: number,
-    itemDuration: number,
-    snapTargets: number[],
-    snapDistance: number = this.SNAP_DISTANCE_MS
-  ): number {
-    let snappedTime = requestedStartTime;
-    let minDistance = snapDistance;
-
-    for (const target of snapTargets) {
-      // Check snapping to start of item
-      const distanceToStart = Math.abs(requestedStartTime - target);
-      if (distanceToStart < minDistance) {
-        minDistance = distanceToStart;
-        snappedTime = target;
-      }
-
-      // Check snapping to end of item (align item's end with target)
-      const requestedEndTime = requestedStartTime + itemDuration;
-      const distanceToEnd = Math.abs(requestedEndTime - target);
-      if (distanceToEnd < minDistance) {
-        minDistance = distanceToEnd;
-        snappedTime = target - itemDuration;
-      }
-    }
-
-    return snappedTime;
-  }
-
   /**
    * Calculate valid drag position with automatic duration adjustment to fit gaps
    * Fixes issue #33: When dragging into a gap smaller than item duration,
@@ -257,26 +256,19 @@ export class TimelineDragDropService {
    * instead of jumping to the end of the track
    * Fixes issue #38: Prevent overlaps by ensuring items always start at or after gap start
    * Fixes issue #48: Enforce strict totalDuration limit when dragging items
-   * Fixes issue #81: Apply snapping to nearby placeholders and playhead
    */
   getValidDragPosition(
     item: MediaItem,
     requestedStartTime: number,
     trackItems: MediaItem[],
-    totalDuration: number,
-    snapTargets?: number[]
+    totalDuration: number
   ): { startTime: number; duration: number } {
-    // Apply snapping if snap targets are provided
-    let adjustedStartTime = requestedStartTime;
-    if (snapTargets && snapTargets.length > 0) {
-      adjustedStartTime = this.applySnapping(requestedStartTime, item.duration, snapTargets);
-    }
     const otherItems = trackItems.filter(i => i.id !== item.id);
 
     // Empty track - place at requested position with original duration
     // but ensure we don't exceed totalDuration
     if (otherItems.length === 0) {
-      const startTime = Math.max(0, adjustedStartTime);
+      const startTime = Math.max(0, requestedStartTime);
       const maxDuration = totalDuration - startTime;
       return {
         startTime,
@@ -284,14 +276,14 @@ export class TimelineDragDropService {
       };
     }
 
-    // Find which gap the adjusted position falls into
-    let gap = this.findGapForPosition(adjustedStartTime, item.duration, otherItems);
+    // Find which gap the requested position falls into
+    let gap = this.findGapForPosition(requestedStartTime, item.duration, otherItems);
 
     if (!gap) {
       // Position overlaps an existing item
       // Fix for issue #36: Find the closest gap instead of jumping to end
       const allGaps = this.findAllGaps(otherItems);
-      gap = this.findClosestGap(adjustedStartTime, allGaps);
+      gap = this.findClosestGap(requestedStartTime, allGaps);
     }
 
     const gapSize = gap.gapEnd === Infinity ? Infinity : gap.gapEnd - gap.gapStart;
@@ -300,7 +292,7 @@ export class TimelineDragDropService {
     // Fix for issue #38: Ensure item starts at or after gap start to prevent overlap
     // Fix for issue #48: Respect totalDuration limit even in infinite gap
     if (gapSize === Infinity) {
-      const startTime = Math.max(gap.gapStart, adjustedStartTime);
+      const startTime = Math.max(gap.gapStart, requestedStartTime);
       const maxDuration = totalDuration - startTime;
       return {
         startTime,
@@ -313,7 +305,7 @@ export class TimelineDragDropService {
     if (item.duration <= gapSize) {
       // Make sure the item doesn't go past the gap end
       const maxStartTime = gap.gapEnd - item.duration;
-      const finalStartTime = Math.max(gap.gapStart, Math.min(adjustedStartTime, maxStartTime));
+      const finalStartTime = Math.max(gap.gapStart, Math.min(requestedStartTime, maxStartTime));
       // Ensure we don't exceed totalDuration
       const maxDuration = totalDuration - finalStartTime;
       return {
@@ -334,6 +326,61 @@ export class TimelineDragDropService {
     };
   }
 
+  /**
+   * Calculate the time offset for moving a group of selected items together
+   * Every member keeps its track; the returned delta is the one closest to the requested delta
+   * for which no member overlaps an item outside the group or leaves the [0, totalDuration] range
+   */
+  getValidGroupDelta(
+    members: MediaItem[],
+    requestedDelta: number,
+    allTracks: { id: string; items: MediaItem[] }[],
+    totalDuration: number
+  ): number {
+    const memberIds = new Set(members.map(m => m.id));
+    const obstaclesByTrack = new Map<string, MediaItem[]>();
+    for (const track of allTracks) {
+      obstaclesByTrack.set(track.id, track.items.filter(i => !memberIds.has(i.id)));
+    }
+
+    const minDelta = -Math.min(...members.map(m => m.startTime));
+    const maxDelta = totalDuration - Math.max(...members.map(m => m.startTime + m.duration));
+
+    const isValid = (delta: number): boolean => {
+      if (delta < minDelta || delta > maxDelta) return false;
+      return members.every(member => {
+        const moved = { ...member, startTime: member.startTime + delta };
+        const obstacles = obstaclesByTrack.get(member.trackId) || [];
+        return !obstacles.some(obstacle => this.itemsOverlap(moved, obstacle));
+      });
+    };
+
+    if (isValid(requestedDelta)) {
+      return requestedDelta;
+    }
+
+    // Candidate deltas: clamp to the timeline bounds and butt every member against every obstacle edge
+    const candidates = [0, Math.max(minDelta, Math.min(requestedDelta, maxDelta))];
+    for (const member of members) {
+      for (const obstacle of obstaclesByTrack.get(member.trackId) || []) {
+        candidates.push(obstacle.startTime - (member.startTime + member.duration));
+        candidates.push(obstacle.startTime + obstacle.duration - member.startTime);
+      }
+    }
+
+    let bestDelta = 0;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+      const distance = Math.abs(candidate - requestedDelta);
+      if (distance < bestDistance && isValid(candidate)) {
+        bestDistance = distance;
+        bestDelta = candidate;
+      }
+    }
+
+    return bestDelta;
+  }
+
   /**
    * Get resize bounds for an item
    */
@@ -0,0 +1,346 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TimelineEditService } from './timeline-edit.service';
+import { MediaItem, MediaType, Track } from '../models/timeline.models';
+
+describe('TimelineEditService', () => {
+  let service: TimelineEditService;
+
+  const createItem = (overrides: Partial<MediaItem> = {}): MediaItem => ({
+    id: 'item-1',
+    type: MediaType.VIDEO,
+    startTime: 1000,
+    duration: 4000,
+    mediaStartTime: 500,
+    maxDuration: 10000,
+    trackId: 'track-1',
+    name: 'Clip',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TimelineEditService);
+  });
+
+  describe('splitItem', () => {
+    it('should cut an item into two pieces that continue the source media', () => {
+      const pieces = service.splitItem(createItem(), 2500, 'item-2');
+
+      expect(pieces).not.toBeNull();
+      const [first, second] = pieces!;
+      expect([first.id, first.startTime, first.duration, first.mediaStartTime]).toEqual(['item-1', 1000, 1500, 500]);
+      expect([second.id, second.startTime, second.duration, second.mediaStartTime]).toEqual(['item-2', 2500, 2500, 2000]);
+      expect(second.maxDuration).toBe(10000);
+    });
+
+    it('should not cut outside the item or too close to its edges', () => {
+      const item = createItem();
+      expect(service.splitItem(item, 500, 'x')).toBeNull();
+      expect(service.splitItem(item, 1050, 'x')).toBeNull();
+      expect(service.splitItem(item, 4950, 'x')).toBeNull();
+    });
+
+    it('should keep the second piece within the source media length', () => {
+      // Item is longer than its remaining source media
+      const item = createItem({ mediaStartTime: 7000, duration: 4000, maxDuration: 10000 });
+      const [, second] = service.splitItem(item, 2000, 'item-2')!;
+
+      expect(second.mediaStartTime! + second.duration).toBeLessThanOrEqual(10000);
+    });
+
+    it('should not set a source offset on images', () => {
+      const item = createItem({ type: MediaType.IMAGE, mediaStartTime: undefined, maxDuration: undefined });
+      const [, second] = service.splitItem(item, 3000, 'item-2')!;
+
+      expect(second.mediaStartTime).toBeUndefined();
+      expect(second.duration).toBe(2000);
+    });
+  });
+
+  describe('splitItemsAt', () => {
+    it('should cut every item under the time across all tracks', () => {
+      let counter = 0;
+      const tracks: Track[] = [
+        { id: 't1', name: 'Track 1', order: 0, items: [createItem({ id: 'a', trackId: 't1' })] },
+        { id: 't2', name: 'Track 2', order: 1, items: [createItem({ id: 'b', trackId: 't2', startTime: 2000 })] },
+        { id: 't3', name: 'Track 3', order: 2, items: [createItem({ id: 'c', trackId: 't3', startTime: 8000 })] }
+      ];
+
+      const result = service.splitItemsAt(tracks, 3000, null, () => `new-${++counter}`);
+
+      expect(result[0].items.length).toBe(2);
+      expect(result[1].items.length).toBe(2);
+      expect(result[2]).toBe(tracks[2]);
+      expect(counter).toBe(2);
+    });
+
+    it('should only cut the requested items', () => {
+      const tracks: Track[] = [
+        { id: 't1', name: 'Track 1', order: 0, items: [createItem({ id: 'a', trackId: 't1' })] },
+        { id: 't2', name: 'Track 2', order: 1, items: [createItem({ id: 'b', trackId: 't2' })] }
+      ];
+
+      const result = service.splitItemsAt(tracks, 3000, ['b'], () => 'new');
+
+      expect(result[0].items.length).toBe(1);
+      expect(result[1].items.length).toBe(2);
+    });
+
+    it('should leave locked tracks uncut', () => {
+      const tracks: Track[] = [
+        { id: 't1', name: 'Track 1', order: 0, locked: true, items: [createItem({ id: 'a', trackId: 't1' })] },
+        { id: 't2', name: 'Track 2', order: 1, items: [createItem({ id: 'b', trackId: 't2' })] }
+      ];
+
+      const result = service.splitItemsAt(tracks, 3000, null, () => 'new');
+
+      expect(result[0]).toBe(tracks[0]);
+      expect(result[1].items.length).toBe(2);
+    });
+  });
+
+  describe('ripple edits', () => {
+    // Video track with two clips, sync-locked audio track with one clip under the second video clip
+    const createTracks = (audioSyncLocked = true): Track[] => [
+      {
+        id: 'v',
+        name: 'Video',
+        order: 0,
+        items: [
+          createItem({ id: 'v1', startTime: 0, duration: 2000, mediaStartTime: 0, trackId: 'v' }),
+          createItem({ id: 'v2', startTime: 2000, duration: 3000, mediaStartTime: 0, trackId: 'v' })
+        ]
+      },
+      {
+        id: 'a',
+        name: 'Audio',
+        order: 1,
+        syncLocked: audioSyncLocked,
+        items: [createItem({ id: 'a1', type: MediaType.AUDIO, startTime: 2000, duration: 3000, trackId: 'a' })]
+      }
+    ];
+    const startTimes = (tracks: Track[]) => tracks.map(t => t.items.map(i => [i.id, i.startTime]));
+
+    it('should close the gap of a deleted item and move sync-locked tracks with it', () => {
+      const result = service.rippleDelete(createTracks(), ['v1']);
+
+      expect(startTimes(result)).toEqual([[['v2', 0]], [['a1', 0]]]);
+    });
+
+    it('should leave tracks without sync lock alone', () => {
+      const result = service.rippleDelete(createTracks(false), ['v1']);
+
+      expect(startTimes(result)).toEqual([[['v2', 0]], [['a1', 2000]]]);
+    });
+
+    it('should not move locked tracks even when they are sync-locked', () => {
+      const tracks = createTracks();
+      tracks[1].locked = true;
+
+      const result = service.rippleDelete(tracks, ['v1']);
+
+      expect(startTimes(result)).toEqual([[['v2', 0]], [['a1', 2000]]]);
+    });
+
+    it('should move sync-locked tracks once when linked items are deleted together', () => {
+      const tracks = createTracks();
+      tracks.push({
+        id: 'm',
+        name: 'Music',
+        order: 2,
+        syncLocked: true,
+        items: [createItem({ id: 'm1', type: MediaType.AUDIO, startTime: 6000, duration: 1000, trackId: 'm' })]
+      });
+
+      const result = service.rippleDelete(tracks, ['v2', 'a1']);
+
+      expect(startTimes(result)).toEqual([[['v1', 0]], [], [['m1', 3000]]]);
+    });
+
+    it('should shift later items by the change of a trimmed right edge', () => {
+      const result = service.rippleTrim(createTracks(), 'v1', 'right', 1500);
+
+      expect(result[0].items[0].duration).toBe(1500);
+      expect(startTimes(result)).toEqual([[['v1', 0], ['v2', 1500]], [['a1', 1500]]]);
+    });
+
+    it('should keep the item start and move its source in point when trimming the left edge', () => {
+      const result = service.rippleTrim(createTracks(), 'v2', 'left', 2500);
+      const trimmed = result[0].items[1];
+
+      expect([trimmed.startTime, trimmed.duration, trimmed.mediaStartTime]).toEqual([2000, 2500, 500]);
+    });
+
+    it('should limit a ripple to the room on sync-locked tracks', () => {
+      const tracks = createTracks();
+      // Audio clip that starts before the edit point and blocks the shift
+      tracks[1].items = [
+        createItem({ id: 'a0', type: MediaType.AUDIO, startTime: 0, duration: 1800, trackId: 'a' }),
+        createItem({ id: 'a1', type: MediaType.AUDIO, startTime: 2000, duration: 3000, trackId: 'a' })
+      ];
+
+      const result = service.rippleDelete(tracks, ['v1']);
+
+      expect(startTimes(result)).toEqual([[['v2', 1800]], [['a0', 0], ['a1', 1800]]]);
+    });
+
+    it('should split the item under the insert point and push later items right', () => {
+      const inserted = createItem({ id: 'new', startTime: 3000, duration: 1000, trackId: 'v' });
+      let counter = 0;
+
+      const result = service.rippleInsert(createTracks(), inserted, () => `piece-${++counter}`);
+      const video = [...result[0].items].sort((a, b) => a.startTime - b.startTime);
+
+      expect(video.map(i => [i.id, i.startTime, i.duration])).toEqual([
+        ['v1', 0, 2000],
+        ['v2', 2000, 1000],
+        ['new', 3000, 1000],
+        ['piece-1', 4000, 2000]
+      ]);
+      expect(result[1].items[0].startTime).toBe(2000);
+    });
+  });
+
+  describe('overwriteItem', () => {
+    const createTrack = (): Track[] => [{
+      id: 'v',
+      name: 'Video',
+      order: 0,
+      items: [
+        createItem({ id: 'v1', startTime: 0, duration: 2000, mediaStartTime: 0, trackId: 'v' }),
+        createItem({ id: 'v2', startTime: 2000, duration: 1000, mediaStartTime: 0, trackId: 'v' }),
+        createItem({ id: 'v3', startTime: 3000, duration: 3000, mediaStartTime: 0, trackId: 'v' })
+      ]
+    }];
+    const sorted = (tracks: Track[]) => [...tracks[0].items]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map(i => [i.id, i.startTime, i.duration, i.mediaStartTime]);
+
+    it('should trim partly covered items and remove fully covered ones', () => {
+      const newItem = createItem({ id: 'new', startTime: 1500, duration: 2000, mediaStartTime: 0, trackId: 'v' });
+
+      const result = service.overwriteItem(createTrack(), newItem, () => 'unused');
+
+      expect(sorted(result)).toEqual([
+        ['v1', 0, 1500, 0],
+        ['new', 1500, 2000, 0],
+        ['v3', 3500, 2500, 500]
+      ]);
+    });
+
+    it('should split an item that covers the whole new item', () => {
+      const newItem = createItem({ id: 'new', startTime: 3500, duration: 1000, mediaStartTime: 0, trackId: 'v' });
+
+      const result = service.overwriteItem(createTrack(), newItem, () => 'tail');
+
+      expect(sorted(result).slice(2)).toEqual([
+        ['v3', 3000, 500, 0],
+        ['new', 3500, 1000, 0],
+        ['tail', 4500, 1500, 1500]
+      ]);
+    });
+  });
+
+  describe('resolveInsertTime', () => {
+    it('should keep a point that can split the item under it', () => {
+      const track: Track = { id: 'v', name: 'Video', order: 0, items: [createItem({ startTime: 0, duration: 4000 })] };
+
+      expect(service.resolveInsertTime(track, 1000)).toBe(1000);
+    });
+
+    it('should move to the nearer edge when the item cannot be split there', () => {
+      const track: Track = { id: 'v', name: 'Video', order: 0, items: [createItem({ startTime: 0, duration: 4000 })] };
+
+      expect(service.resolveInsertTime(track, 3990)).toBe(4000);
+    });
+  });
+
+  describe('slip and slide', () => {
+    // Three touching clips: a (0-2000), b (2000-4000), c (4000-6000), each with source media to spare
+    const createTracks = (): Track[] => [{
+      id: 'v',
+      name: 'Video',
+      order: 0,
+      items: [
+        createItem({ id: 'a', startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 3000, trackId: 'v' }),
+        createItem({ id: 'b', startTime: 2000, duration: 2000, mediaStartTime: 1000, maxDuration: 5000, trackId: 'v' }),
+        createItem({ id: 'c', startTime: 4000, duration: 2000, mediaStartTime: 500, maxDuration: 5000, trackId: 'v' })
+      ]
+    }];
+    const summary = (tracks: Track[]) => tracks[0].items.map(i => [i.id, i.startTime, i.duration, i.mediaStartTime]);
+
+    it('should change only the source in point when slipping', () => {
+      const result = service.slipItem(createTracks(), 'b', 1500);
+
+      expect(summary(result)[1]).toEqual(['b', 2000, 2000, 2500]);
+    });
+
+    it('should keep the slipped source range within the media', () => {
+      expect(service.slipItem(createTracks(), 'b', 5000)[0].items[1].mediaStartTime).toBe(3000);
+      expect(service.slipItem(createTracks(), 'b', -5000)[0].items[1].mediaStartTime).toBe(0);
+    });
+
+    it('should trim the neighbours to follow a slid item', () => {
+      const result = service.slideItem(createTracks(), 'b', 500);
+
+      expect(summary(result)).toEqual([
+        ['a', 0, 2500, 0],
+        ['b', 2500, 2000, 1000],
+        ['c', 4500, 1500, 1000]
+      ]);
+    });
+
+    it('should stop a slide where a neighbour runs out of source media', () => {
+      // a can only grow by 1000 before reaching its maxDuration, c can only grow by its 500 source in point
+      expect(service.slideItem(createTracks(), 'b', 1800)[0].items[1].startTime).toBe(3000);
+      expect(service.slideItem(createTracks(), 'b', -1800)[0].items[1].startTime).toBe(1500);
+    });
+
+    it('should only slide into free space on a side without a touching neighbour', () => {
+      const tracks = createTracks();
+      tracks[0].items = [tracks[0].items[1], { ...tracks[0].items[2], mediaStartTime: 3000 }];
+
+      const result = service.slideItem(tracks, 'b', -3000);
+
+      expect(summary(result)).toEqual([
+        ['b', 0, 2000, 1000],
+        ['c', 2000, 4000, 1000]
+      ]);
+    });
+  });
+
+  describe('rollEdit', () => {
+    // Two touching clips with 1000ms of unused source media after a and before b
+    const createTracks = (): Track[] => [{
+      id: 'v',
+      name: 'Video',
+      order: 0,
+      items: [
+        createItem({ id: 'a', startTime: 0, duration: 2000, mediaStartTime: 0, maxDuration: 3000, trackId: 'v' }),
+        createItem({ id: 'b', startTime: 2000, duration: 2000, mediaStartTime: 1000, maxDuration: 5000, trackId: 'v' })
+      ]
+    }];
+    const summary = (tracks: Track[]) => tracks[0].items.map(i => [i.id, i.startTime, i.duration, i.mediaStartTime]);
+
+    it('should lengthen one item and shorten the other by the same amount', () => {
+      const result = service.rollEdit(createTracks(), 'a', 'b', 2500);
+
+      expect(summary(result)).toEqual([
+        ['a', 0, 2500, 0],
+        ['b', 2500, 1500, 1500]
+      ]);
+    });
+
+    it('should limit the cut by source media and minimum duration', () => {
+      const [a, b] = createTracks()[0].items;
+
+      // a has 1000ms of media left after its out point, b has 1000ms before its in point
+      expect(service.getRollBounds(a, b)).toEqual({ minTime: 1000, maxTime: 3000 });
+      expect(service.getRollBounds({ ...a, maxDuration: undefined }, b).maxTime).toBe(3900);
+      expect(summary(service.rollEdit(createTracks(), 'a', 'b', 0))[0]).toEqual(['a', 0, 1000, 0]);
+    });
+  });
+});
@@ -0,0 +1,462 @@
+import { Injectable } from '@angular/core';
+import { MediaItem, MediaType, Track } from '../models/timeline.models';
+import { ItemKeyframes, Keyframe, KeyframeParameter } from '../models/keyframe.models';
+
+/**
+ * Service responsible for editing operations that change the content of items on the timeline
+ * (splitting, trimming and moving related items together)
+ *
+ * Ripple edits move every later item on the edited track, and on every sync-locked track
+ * that is not locked, by the same amount. Items never overlap: a ripple that would push items on a sync-locked
+ * track into each other is limited to the room that track has.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimelineEditService {
+  private readonly MIN_ITEM_DURATION = 100; // Minimum item duration in milliseconds
+
+  /**
+   * Check whether an item can be cut at the given timeline time
+   * Both halves must keep the minimum item duration
+   */
+  canSplitItem(item: MediaItem, splitTime: number): boolean {
+    return splitTime >= item.startTime + this.MIN_ITEM_DURATION &&
+      splitTime <= item.startTime + item.duration - this.MIN_ITEM_DURATION;
+  }
+
+  /**
+   * Cut an item into two pieces at the given timeline time
+   * The second piece continues from the matching offset into the source media
+   * Returns null if the cut would produce a piece shorter than the minimum duration
+   */
+  splitItem(item: MediaItem, splitTime: number, newItemId: string): [MediaItem, MediaItem] | null {
+    if (!this.canSplitItem(item, splitTime)) {
+      return null;
+    }
+
+    const firstDuration = splitTime - item.startTime;
+    let secondDuration = item.startTime + item.duration - splitTime;
+
+    const first: MediaItem = { ...item, duration: firstDuration };
+    const second: MediaItem = {
+      ...item,
+      id: newItemId,
+      startTime: splitTime,
+      duration: secondDuration
+    };
+
+    // Images have no source offset, audio and video continue where the first piece ends
+    if (item.type !== MediaType.IMAGE) {
+      const secondMediaStartTime = (item.mediaStartTime || 0) + firstDuration;
+      second.mediaStartTime = secondMediaStartTime;
+
+      // Never let the second piece run past the end of the source media
+      if (item.maxDuration) {
+        secondDuration = Math.min(secondDuration, item.maxDuration - secondMediaStartTime);
+        second.duration = Math.max(this.MIN_ITEM_DURATION, secondDuration);
+      }
+    } else if (item.keyframes) {
+      // Image keyframes count from the item start, the second piece starts firstDuration later
+      second.keyframes = this.shiftKeyframes(item.keyframes, -firstDuration);
+    }
+
+    return [first, second];
+  }
+
+  /**
+   * Split items at the given time across all tracks that are not locked
+   * When itemIds is provided only those items are cut, otherwise every item under the time is cut
+   * generateId is called once per created piece
+   */
+  splitItemsAt(
+    tracks: Track[],
+    splitTime: number,
+    itemIds: string[] | null,
+    generateId: () => string
+  ): Track[] {
+    return tracks.map(track => {
+      if (track.locked) return track;
+
+      let changed = false;
+      const items: MediaItem[] = [];
+
+      for (const item of track.items) {
+        const isTarget = itemIds === null || itemIds.includes(item.id);
+        const pieces = isTarget && this.canSplitItem(item, splitTime)
+          ? this.splitItem(item, splitTime, generateId())
+          : null;
+
+        if (pieces) {
+          items.push(...pieces);
+          changed = true;
+        } else {
+          items.push(item);
+        }
+      }
+
+      return changed ? { ...track, items } : track;
+    });
+  }
+
+  /**
+   * Remove items and close the space each one took up
+   */
+  rippleDelete(tracks: Track[], itemIds: string[]): Track[] {
+    const deleted = tracks
+      .flatMap(t => t.items)
+      .filter(i => itemIds.includes(i.id))
+      // Later items first so each ripple only moves items that have not been processed yet
+      .sort((a, b) => b.startTime - a.startTime);
+
+    const rippledRanges: { start: number; end: number }[] = [];
+    let result = tracks;
+
+    for (const item of deleted) {
+      const end = item.startTime + item.duration;
+      const overlapsDeleted = (range: { start: number; end: number }) => range.start < end && range.end > item.startTime;
+
+      // Items deleted together at the same time (e.g. linked video and audio) ripple sync-locked tracks once
+      const followers = rippledRanges.some(overlapsDeleted)
+        ? []
+        : this.getSyncLockedTracks(result, item.trackId).filter(t =>
+            !deleted.some(d => d.trackId === t.id && overlapsDeleted({ start: d.startTime, end: d.startTime + d.duration }))
+          );
+
+      result = result.map(t => t.id === item.trackId ? { ...t, items: t.items.filter(i => i.id !== item.id) } : t);
+      const delta = -Math.min(item.duration, this.getRippleRoom(followers, end));
+      result = this.shiftTracks(result, [item.trackId, ...followers.map(t => t.id)], end, delta);
+
+      if (followers.length > 0) {
+        rippledRanges.push({ start: item.startTime, end });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Trim one edge of an item and move the later items by the change in duration
+   * The item keeps its start time for both edges; trimming the left edge changes its source in point instead
+   */
+  rippleTrim(tracks: Track[], itemId: string, edge: 'left' | 'right', edgeTime: number): Track[] {
+    const item = tracks.flatMap(t => t.items).find(i => i.id === itemId);
+    if (!item) return tracks;
+
+    const end = item.startTime + item.duration;
+    const mediaStartTime = item.mediaStartTime || 0;
+    const hasMedia = item.type !== MediaType.IMAGE;
+
+    let newDuration: number;
+    if (edge === 'right') {
+      newDuration = edgeTime - item.startTime;
+      if (hasMedia && item.maxDuration) {
+        newDuration = Math.min(newDuration, item.maxDuration - mediaStartTime);
+      }
+    } else {
+      // Dragging the left edge right removes media from the head of the item
+      newDuration = item.duration - (edgeTime - item.startTime);
+      if (hasMedia) {
+        newDuration = Math.min(newDuration, item.duration + mediaStartTime);
+      }
+    }
+    newDuration = Math.max(this.MIN_ITEM_DURATION, newDuration);
+
+    let delta = newDuration - item.duration;
+    const followers = this.getSyncLockedTracks(tracks, item.trackId);
+    if (delta < 0) {
+      delta = -Math.min(-delta, this.getRippleRoom(followers, end));
+    }
+    if (delta === 0) return tracks;
+
+    const trimmed: MediaItem = { ...item, duration: item.duration + delta };
+    if (edge === 'left' && hasMedia) {
+      trimmed.mediaStartTime = mediaStartTime - delta;
+    } else if (edge === 'left' && item.keyframes) {
+      trimmed.keyframes = this.shiftKeyframes(item.keyframes, delta);
+    }
+
+    const shifted = this.shiftTracks(tracks, [item.trackId, ...followers.map(t => t.id)], end, delta, [item.id]);
+    return shifted.map(t => t.id === item.trackId
+      ? { ...t, items: t.items.map(i => i.id === item.id ? trimmed : i) }
+      : t
+    );
+  }
+
+  /**
+   * Insert an item at its start time and push later items right by its duration
+   * An item under the insert point is split so the new item fits between its pieces
+   */
+  rippleInsert(tracks: Track[], newItem: MediaItem, generateId: () => string): Track[] {
+    const track = tracks.find(t => t.id === newItem.trackId);
+    if (!track) return tracks;
+
+    const insertTime = this.resolveInsertTime(track, newItem.startTime);
+    const straddling = track.items.find(i => i.startTime < insertTime && i.startTime + i.duration > insertTime);
+    let result = tracks;
+
+    if (straddling) {
+      result = this.splitItemsAt(result, insertTime, [straddling.id], generateId);
+    }
+
+    const followers = this.getSyncLockedTracks(result, track.id);
+    result = this.shiftTracks(result, [track.id, ...followers.map(t => t.id)], insertTime, newItem.duration);
+
+    return result.map(t => t.id === track.id
+      ? { ...t, items: [...t.items, { ...newItem, startTime: insertTime }] }
+      : t
+    );
+  }
+
+  /**
+   * Where an insert at the given time actually happens on a track
+   * Inserting too close to an item's edge to split it moves the insert point to that edge
+   */
+  resolveInsertTime(track: Track, time: number): number {
+    const straddling = track.items.find(i => i.startTime < time && i.startTime + i.duration > time);
+    if (!straddling || this.canSplitItem(straddling, time)) return time;
+
+    const end = straddling.startTime + straddling.duration;
+    return time - straddling.startTime < end - time ? straddling.startTime : end;
+  }
+
+  /**
+   * Place an item on its track over whatever is there
+   * Covered items are removed, partly covered items are trimmed, and an item covering both ends is split around it
+   */
+  overwriteItem(tracks: Track[], newItem: MediaItem, generateId: () => string): Track[] {
+    const start = newItem.startTime;
+    const end = newItem.startTime + newItem.duration;
+
+    return tracks.map(track => {
+      if (track.id !== newItem.trackId) return track;
+
+      const items: MediaItem[] = [];
+      for (const item of track.items) {
+        const itemEnd = item.startTime + item.duration;
+        if (itemEnd <= start || item.startTime >= end) {
+          items.push(item);
+          continue;
+        }
+
+        // Part of the item before the overwritten range keeps its source in point
+        if (item.startTime < start) {
+          items.push({ ...item, duration: start - item.startTime });
+        }
+
+        // Part after the range continues the source from where the range ends
+        if (itemEnd > end) {
+          const tail: MediaItem = {
+            ...item,
+            id: item.startTime < start ? generateId() : item.id,
+            startTime: end,
+            duration: itemEnd - end
+          };
+          if (item.type !== MediaType.IMAGE) {
+            tail.mediaStartTime = (item.mediaStartTime || 0) + (end - item.startTime);
+          } else if (item.keyframes) {
+            tail.keyframes = this.shiftKeyframes(item.keyframes, item.startTime - end);
+          }
+          items.push(tail);
+        }
+      }
+
+      // Slivers shorter than the minimum duration are removed rather than kept
+      const remaining = items.filter(i => i.duration >= this.MIN_ITEM_DURATION);
+      return { ...track, items: [...remaining, { ...newItem, trackId: track.id }] };
+    });
+  }
+
+  /**
+   * Move the source media under an item without moving the item on the timeline
+   * A positive offset shows later source media; the source range stays within 0 and maxDuration
+   */
+  slipItem(tracks: Track[], itemId: string, offset: number): Track[] {
+    const item = tracks.flatMap(t => t.items).find(i => i.id === itemId);
+    // Images have no source time to slip
+    if (!item || item.type === MediaType.IMAGE) return tracks;
+
+    const maxMediaStart = item.maxDuration ? Math.max(0, item.maxDuration - item.duration) : Infinity;
+    const mediaStartTime = Math.max(0, Math.min((item.mediaStartTime || 0) + offset, maxMediaStart));
+
+    return this.replaceItems(tracks, [{ ...item, mediaStartTime }]);
+  }
+
+  /**
+   * Move an item along its track while the neighbours touching it follow its edges
+   * The previous neighbour's end and the next neighbour's start are trimmed so no gap or overlap appears;
+   * a side without a touching neighbour can only move as far as the free space there
+   */
+  slideItem(tracks: Track[], itemId: string, offset: number): Track[] {
+    const track = tracks.find(t => t.items.some(i => i.id === itemId));
+    if (!track) return tracks;
+
+    const item = track.items.find(i => i.id === itemId)!;
+    const { previous, next } = this.findAdjacentItems(track, item);
+    const end = item.startTime + item.duration;
+
+    let minOffset: number;
+    if (previous) {
+      minOffset = this.MIN_ITEM_DURATION - previous.duration;
+    } else {
+      const previousEnd = Math.max(0, ...track.items
+        .filter(i => i.startTime + i.duration <= item.startTime)
+        .map(i => i.startTime + i.duration));
+      minOffset = previousEnd - item.startTime;
+    }
+    // The next neighbour grows at its head, which needs unused source media before its in point
+    if (next && next.type !== MediaType.IMAGE) {
+      minOffset = Math.max(minOffset, -(next.mediaStartTime || 0));
+    }
+
+    let maxOffset: number;
+    if (next) {
+      maxOffset = next.duration - this.MIN_ITEM_DURATION;
+    } else {
+      const nextStart = Math.min(Infinity, ...track.items
+        .filter(i => i.startTime >= end)
+        .map(i => i.startTime));
+      maxOffset = nextStart - end;
+    }
+    // The previous neighbour grows at its tail, which needs unused source media after its out point
+    if (previous?.maxDuration) {
+      const previousMediaEnd = (previous.type === MediaType.IMAGE ? 0 : previous.mediaStartTime || 0) + previous.duration;
+      maxOffset = Math.min(maxOffset, previous.maxDuration - previousMediaEnd);
+    }
+
+    const delta = Math.max(Math.min(0, minOffset), Math.min(offset, Math.max(0, maxOffset)));
+    if (delta === 0) return tracks;
+
+    const changed: MediaItem[] = [{ ...item, startTime: item.startTime + delta }];
+    if (previous) {
+      changed.push({ ...previous, duration: previous.duration + delta });
+    }
+    if (next) {
+      const trimmedNext: MediaItem = { ...next, startTime: next.startTime + delta, duration: next.duration - delta };
+      if (next.type !== MediaType.IMAGE) {
+        trimmedNext.mediaStartTime = (next.mediaStartTime || 0) + delta;
+      }
+      changed.push(trimmedNext);
+    }
+    return this.replaceItems(tracks, changed);
+  }
+
+  /**
+   * How far the cut between two touching items can be rolled
+   * Each item keeps the minimum duration, and the item that grows needs unused source media on that side
+   */
+  getRollBounds(previous: MediaItem, next: MediaItem): { minTime: number; maxTime: number } {
+    const cut = previous.startTime + previous.duration;
+
+    // Rolling left grows the head of the next item
+    const nextHeadRoom = next.type === MediaType.IMAGE
+      ? (next.maxDuration ? next.maxDuration - next.duration : Infinity)
+      : next.mediaStartTime || 0;
+    // Rolling right grows the tail of the previous item
+    const previousMediaEnd = (previous.type === MediaType.IMAGE ? 0 : previous.mediaStartTime || 0) + previous.duration;
+    const previousTailRoom = previous.maxDuration ? previous.maxDuration - previousMediaEnd : Infinity;
+
+    return {
+      minTime: cut - Math.max(0, Math.min(previous.duration - this.MIN_ITEM_DURATION, nextHeadRoom)),
+      maxTime: cut + Math.max(0, Math.min(next.duration - this.MIN_ITEM_DURATION, previousTailRoom))
+    };
+  }
+
+  /**
+   * Move the cut between two touching items, lengthening one and shortening the other by the same amount
+   * The cut time is clamped to the roll bounds, so no gap or overlap appears
+   */
+  rollEdit(tracks: Track[], previousId: string, nextId: string, cutTime: number): Track[] {
+    const items = tracks.flatMap(t => t.items);
+    const previous = items.find(i => i.id === previousId);
+    const next = items.find(i => i.id === nextId);
+    if (!previous || !next) return tracks;
+
+    const bounds = this.getRollBounds(previous, next);
+    const delta = Math.max(bounds.minTime, Math.min(cutTime, bounds.maxTime)) - (previous.startTime + previous.duration);
+    if (delta === 0) return tracks;
+
+    const rolledNext: MediaItem = { ...next, startTime: next.startTime + delta, duration: next.duration - delta };
+    if (next.type !== MediaType.IMAGE) {
+      rolledNext.mediaStartTime = (next.mediaStartTime || 0) + delta;
+    }
+    return this.replaceItems(tracks, [{ ...previous, duration: previous.duration + delta }, rolledNext]);
+  }
+
+  /**
+   * The items on the same track that end exactly where the item starts and start exactly where it ends
+   */
+  findAdjacentItems(track: Track, item: MediaItem): { previous?: MediaItem; next?: MediaItem } {
+    const end = item.startTime + item.duration;
+    const touches = (a: number, b: number) => Math.abs(a - b) < 1;
+    return {
+      previous: track.items.find(i => i.id !== item.id && touches(i.startTime + i.duration, item.startTime)),
+      next: track.items.find(i => i.id !== item.id && touches(i.startTime, end))
+    };
+  }
+
+  private replaceItems(tracks: Track[], changed: MediaItem[]): Track[] {
+    return tracks.map(t => ({
+      ...t,
+      items: t.items.map(i => changed.find(c => c.id === i.id) ?? i)
+    }));
+  }
+
+  /**
+   * Move every keyframe by the given offset, used where an image item's start moves over its content
+   */
+  shiftKeyframes(keyframes: ItemKeyframes, offset: number): ItemKeyframes {
+    const shifted: ItemKeyframes = {};
+    for (const [parameter, list] of Object.entries(keyframes) as [KeyframeParameter, Keyframe[]][]) {
+      shifted[parameter] = list.map(keyframe => ({ ...keyframe, time: keyframe.time + offset }));
+    }
+    return shifted;
+  }
+
+  /**
+   * Tracks that follow ripple edits made on another track, locked tracks never move
+   */
+  private getSyncLockedTracks(tracks: Track[], editedTrackId: string): Track[] {
+    return tracks.filter(t => t.syncLocked && !t.locked && t.id !== editedTrackId);
+  }
+
+  /**
+   * How far items starting at or after fromTime can move left on every given track without overlapping
+   */
+  private getRippleRoom(tracks: Track[], fromTime: number): number {
+    let room = Infinity;
+    for (const track of tracks) {
+      const moving = track.items.filter(i => i.startTime >= fromTime);
+      if (moving.length === 0) continue;
+
+      const firstMovingStart = Math.min(...moving.map(i => i.startTime));
+      const lastStayingEnd = Math.max(0, ...track.items
+        .filter(i => i.startTime < fromTime)
+        .map(i => i.startTime + i.duration));
+      room = Math.min(room, Math.max(0, firstMovingStart - lastStayingEnd));
+    }
+    return room;
+  }
+
+  private shiftTracks(
+    tracks: Track[],
+    trackIds: string[],
+    fromTime: number,
+    delta: number,
+    excludedItemIds: string[] = []
+  ): Track[] {
+    if (delta === 0) return tracks;
+
+    return tracks.map(t => trackIds.includes(t.id)
+      ? {
+          ...t,
+          items: t.items.map(i =>
+            i.startTime >= fromTime && !excludedItemIds.includes(i.id)
+              ? { ...i, startTime: i.startTime + delta }
+              : i
+          )
+        }
+      : t
+    );
+  }
+}
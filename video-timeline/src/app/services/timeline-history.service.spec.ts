@@ -0,0 +1,70 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TimelineHistoryService } from './timeline-history.service';
+import { TimelineState } from '../models/timeline.models';
+
+describe('TimelineHistoryService', () => {
+  let service: TimelineHistoryService;
+
+  const createState = (totalDuration: number): TimelineState => ({
+    tracks: [],
+    playheadPosition: 0,
+    zoomLevel: 50,
+    totalDuration,
+    selectedItemIds: []
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TimelineHistoryService);
+  });
+
+  it('should undo and redo a recorded step', () => {
+    const before = createState(1000);
+    const after = createState(2000);
+    service.record('Change duration', before);
+
+    expect(service.undo(after)).toBe(before);
+    expect(service.canUndo()).toBe(false);
+    expect(service.redo(before)).toBe(after);
+    expect(service.canRedo()).toBe(false);
+  });
+
+  it('should return null when there is nothing to undo or redo', () => {
+    expect(service.undo(createState(1000))).toBeNull();
+    expect(service.redo(createState(1000))).toBeNull();
+  });
+
+  it('should clear the redo stack when a new step is recorded', () => {
+    service.record('First', createState(1000));
+    service.undo(createState(2000));
+    expect(service.canRedo()).toBe(true);
+
+    service.record('Second', createState(1000));
+    expect(service.canRedo()).toBe(false);
+  });
+
+  it('should drop the oldest steps beyond the depth limit', () => {
+    service.setMaxDepth(2);
+    service.record('First', createState(1000));
+    service.record('Second', createState(2000));
+    service.record('Third', createState(3000));
+
+    expect(service.undoStack().map(step => step.label)).toEqual(['Second', 'Third']);
+  });
+
+  it('should jump back several steps at once', () => {
+    const initial = createState(1000);
+    service.record('First', initial);
+    service.record('Second', createState(2000));
+    service.record('Third', createState(3000));
+
+    const restored = service.undoTo(0, createState(4000));
+
+    expect(restored).toBe(initial);
+    expect(service.undoStack().length).toBe(0);
+    expect(service.redoStack().length).toBe(3);
+  });
+});
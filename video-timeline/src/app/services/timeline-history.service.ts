@@ -0,0 +1,112 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { TimelineState } from '../models/timeline.models';
+
+export interface HistoryStep {
+  label: string; // Name of the edit shown in the history panel
+  state: TimelineState; // Timeline state before (undo stack) or after (redo stack) the edit
+}
+
+/**
+ * Service responsible for the undo/redo history of timeline edits
+ * Every committed edit is stored as one step holding the state it replaced
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimelineHistoryService {
+  readonly DEFAULT_MAX_DEPTH = 100;
+  private readonly MIN_DEPTH = 1;
+
+  readonly maxDepth = signal<number>(this.DEFAULT_MAX_DEPTH);
+  readonly undoStack = signal<HistoryStep[]>([]);
+  readonly redoStack = signal<HistoryStep[]>([]);
+
+  readonly canUndo = computed(() => this.undoStack().length > 0);
+  readonly canRedo = computed(() => this.redoStack().length > 0);
+
+  /**
+   * Record a committed edit
+   * previousState is the timeline state before the edit was applied
+   */
+  record(label: string, previousState: TimelineState): void {
+    this.undoStack.update(stack => this.trim([...stack, { label, state: previousState }]));
+    this.redoStack.set([]);
+  }
+
+  /**
+   * Step back one edit
+   * Returns the state to restore or null if there is nothing to undo
+   */
+  undo(currentState: TimelineState): TimelineState | null {
+    const stack = this.undoStack();
+    if (stack.length === 0) return null;
+
+    const step = stack[stack.length - 1];
+    this.undoStack.set(stack.slice(0, -1));
+    this.redoStack.update(redo => [...redo, { label: step.label, state: currentState }]);
+    return step.state;
+  }
+
+  /**
+   * Re-apply the last undone edit
+   * Returns the state to restore or null if there is nothing to redo
+   */
+  redo(currentState: TimelineState): TimelineState | null {
+    const stack = this.redoStack();
+    if (stack.length === 0) return null;
+
+    const step = stack[stack.length - 1];
+    this.redoStack.set(stack.slice(0, -1));
+    this.undoStack.update(undo => this.trim([...undo, { label: step.label, state: currentState }]));
+    return step.state;
+  }
+
+  /**
+   * Undo every edit from the given undo stack index onwards
+   * Used by the history panel to jump back several edits at once
+   */
+  undoTo(index: number, currentState: TimelineState): TimelineState | null {
+    let state: TimelineState | null = null;
+    let current = currentState;
+
+    while (this.undoStack().length > index) {
+      state = this.undo(current);
+      if (!state) break;
+      current = state;
+    }
+
+    return state;
+  }
+
+  /**
+   * Redo edits until the given redo stack index has been re-applied
+   */
+  redoTo(index: number, currentState: TimelineState): TimelineState | null {
+    let state: TimelineState | null = null;
+    let current = currentState;
+
+    while (this.redoStack().length > index) {
+      state = this.redo(current);
+      if (!state) break;
+      current = state;
+    }
+
+    return state;
+  }
+
+  setMaxDepth(depth: number): void {
+    this.maxDepth.set(Math.max(this.MIN_DEPTH, Math.floor(depth)));
+    this.undoStack.update(stack => this.trim(stack));
+  }
+
+  clear(): void {
+    this.undoStack.set([]);
+    this.redoStack.set([]);
+  }
+
+  // Drop the oldest steps when the stack exceeds the depth limit
+  private trim(stack: HistoryStep[]): HistoryStep[] {
+    const maxDepth = this.maxDepth();
+    return stack.length > maxDepth ? stack.slice(stack.length - maxDepth) : stack;
+  }
+}
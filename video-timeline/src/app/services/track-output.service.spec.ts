@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TrackOutputService } from './track-output.service';
+import { MediaType, Track } from '../models/timeline.models';
+
+describe('TrackOutputService', () => {
+  let service: TrackOutputService;
+
+  const createTrack = (id: string, flags: Partial<Track> = {}): Track => ({
+    id,
+    name: id,
+    order: 0,
+    items: [
+      { id: `${id}-video`, type: MediaType.VIDEO, startTime: 0, duration: 1000, trackId: id },
+      { id: `${id}-audio`, type: MediaType.AUDIO, startTime: 1000, duration: 1000, trackId: id }
+    ],
+    ...flags
+  });
+  const itemIds = (tracks: Track[]) => tracks.flatMap(t => t.items.map(i => i.id));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TrackOutputService);
+  });
+
+  it('should keep every item when no track is muted, soloed or hidden', () => {
+    const tracks = [createTrack('a'), createTrack('b')];
+    expect(service.getOutputTracks(tracks)).toEqual(tracks);
+  });
+
+  it('should leave out the audio of muted tracks and the video of hidden tracks', () => {
+    const tracks = [createTrack('a', { muted: true }), createTrack('b', { hidden: true })];
+    expect(itemIds(service.getOutputTracks(tracks))).toEqual(['a-video', 'b-audio']);
+  });
+
+  it('should only play the audio of soloed tracks while any track is soloed', () => {
+    const tracks = [createTrack('a', { solo: true }), createTrack('b'), createTrack('c', { solo: true, muted: true })];
+
+    expect(itemIds(service.getOutputTracks(tracks))).toEqual(['a-video', 'a-audio', 'b-video', 'c-video']);
+    expect(service.isTrackAudible(tracks[1], tracks)).toBe(false);
+  });
+});
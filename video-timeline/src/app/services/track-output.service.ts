@@ -0,0 +1,32 @@
+import { Injectable } from '@angular/core';
+import { MediaItem, MediaType, Track } from '../models/timeline.models';
+
+/**
+ * Service responsible for which items reach the preview and exports
+ * Hidden tracks leave out their video and images; muted tracks, and tracks that are not soloed
+ * while another one is, leave out their audio
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TrackOutputService {
+  isTrackAudible(track: Track, tracks: Track[]): boolean {
+    if (track.muted) return false;
+    return track.solo === true || !tracks.some(t => t.solo);
+  }
+
+  isItemOutput(item: MediaItem, track: Track, tracks: Track[]): boolean {
+    return item.type === MediaType.AUDIO ? this.isTrackAudible(track, tracks) : !track.hidden;
+  }
+
+  /**
+   * The tracks with only the items that are seen or heard
+   * Transitions to or from a left out item no longer find their items and are skipped by their users
+   */
+  getOutputTracks(tracks: Track[]): Track[] {
+    return tracks.map(track => {
+      const items = track.items.filter(item => this.isItemOutput(item, track, tracks));
+      return items.length === track.items.length ? track : { ...track, items };
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TransitionService } from './transition.service';
+import { TimelineEditService } from './timeline-edit.service';
+import { MediaItem, MediaType, Track } from '../models/timeline.models';
+
+describe('TransitionService', () => {
+  let service: TransitionService;
+
+  const createItem = (overrides: Partial<MediaItem> = {}): MediaItem => ({
+    id: 'a',
+    type: MediaType.VIDEO,
+    startTime: 0,
+    duration: 2000,
+    mediaStartTime: 1000,
+    maxDuration: 10000,
+    trackId: 'track-1',
+    name: 'Clip',
+    ...overrides
+  });
+
+  // 'a' has 7000 ms of media after its out point, 'b' only 300 ms before its in point
+  const createTrack = (): Track => ({
+    id: 'track-1',
+    name: 'Track 1',
+    order: 0,
+    items: [
+      createItem(),
+      createItem({ id: 'b', startTime: 2000, duration: 1000, mediaStartTime: 300, maxDuration: 5000 })
+    ]
+  });
+
+  const withTransition = (track: Track): Track =>
+    service.addTransition([track], 'track-1', 'a', 'b', 't1')[0];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(TransitionService);
+  });
+
+  it('should limit the duration by the handles on each side of the cut', () => {
+    const [a, b] = createTrack().items;
+
+    expect(service.getMaxDuration(a, b, 'center')).toBe(600);
+    expect(service.getMaxDuration(a, b, 'start')).toBe(1000);
+    expect(service.getMaxDuration(a, b, 'end')).toBe(300);
+  });
+
+  it('should add a centred transition only between touching items', () => {
+    const track = withTransition(createTrack());
+
+    expect(track.transitions).toEqual([
+      { id: 't1', type: 'dissolve', fromItemId: 'a', toItemId: 'b', duration: 600, alignment: 'center' }
+    ]);
+    expect(service.getRange(track.transitions![0], track.items[0])).toEqual({ start: 1700, end: 2300 });
+    expect(service.getOpenCuts(track)).toEqual([]);
+
+    const tracks = [createTrack()];
+    expect(service.addTransition(tracks, 'track-1', 'b', 'a', 't2')).toEqual(tracks);
+  });
+
+  it('should use a crossfade between audio items', () => {
+    const track = createTrack();
+    track.items = track.items.map(i => ({ ...i, type: MediaType.AUDIO }));
+
+    expect(withTransition(track).transitions![0].type).toBe('crossfade');
+  });
+
+  it('should clamp duration changes to what the alignment allows', () => {
+    const tracks = [withTransition(createTrack())];
+
+    const longer = service.updateTransition(tracks, 't1', { duration: 5000, alignment: 'start' });
+    expect(longer[0].transitions![0].duration).toBe(1000);
+    expect(longer[0].transitions![0].alignment).toBe('start');
+
+    const shorter = service.updateTransition(tracks, 't1', { duration: 10 });
+    expect(shorter[0].transitions![0].duration).toBe(service.MIN_DURATION);
+
+    expect(service.removeTransition(tracks, 't1')[0].transitions).toBeUndefined();
+  });
+
+  it('should follow the cut when the outgoing item is split', () => {
+    const track = withTransition(createTrack());
+    const editService = TestBed.inject(TimelineEditService);
+    const [first, second] = editService.splitItem(track.items[0], 1000, 'a2')!;
+
+    const normalized = service.normalizeTrack({ ...track, items: [first, second, track.items[1]] });
+
+    expect(normalized.transitions![0].fromItemId).toBe('a2');
+    expect(normalized.transitions![0].duration).toBe(600);
+  });
+
+  it('should shorten or remove transitions when the handles or the cut go away', () => {
+    const track = withTransition(createTrack());
+    expect(service.normalizeTrack(track)).toBe(track);
+
+    const trimmed = service.normalizeTrack({
+      ...track,
+      items: [track.items[0], { ...track.items[1], mediaStartTime: 100 }]
+    });
+    expect(trimmed.transitions![0].duration).toBe(200);
+
+    const apart = service.normalizeTrack({
+      ...track,
+      items: [track.items[0], { ...track.items[1], startTime: 2500 }]
+    });
+    expect(apart.transitions).toBeUndefined();
+  });
+
+  it('should fade the outgoing item into the incoming one', () => {
+    const track = withTransition(createTrack());
+
+    expect(service.getLayersAt(track, 2000).map(l => [l.item.id, l.weight])).toEqual([['a', 0.5], ['b', 0.5]]);
+    expect(service.getLayersAt(track, 1000).map(l => [l.item.id, l.weight])).toEqual([['a', 1]]);
+    expect(service.getLayersAt(track, 5000)).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable } from '@angular/core';
+import { MediaItem, MediaType, Track, Transition, TransitionAlignment } from '../models/timeline.models';
+import { TimelineEditService } from './timeline-edit.service';
+
+/**
+ * Service responsible for transitions across the cuts between touching items
+ *
+ * A transition covers part of both items around the cut. Before the cut the incoming item plays
+ * media from before its in point, after the cut the outgoing item plays media from after its out point,
+ * so a transition can be no longer than the handles of both items allow.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TransitionService {
+  readonly DEFAULT_DURATION = 1000; // milliseconds
+  readonly MIN_DURATION = 100; // Shorter transitions are removed rather than kept
+
+  constructor(private editService: TimelineEditService) {}
+
+  /**
+   * Timeline range covered by a transition whose outgoing item is given
+   */
+  getRange(transition: Transition, from: MediaItem): { start: number; end: number } {
+    const start = from.startTime + from.duration - this.getLengthBeforeCut(transition.duration, transition.alignment);
+    return { start, end: start + transition.duration };
+  }
+
+  /**
+   * Part of a transition that lies before its cut
+   */
+  getLengthBeforeCut(duration: number, alignment: TransitionAlignment): number {
+    switch (alignment) {
+      case 'center': return duration / 2;
+      case 'start': return 0;
+      case 'end': return duration;
+    }
+  }
+
+  /**
+   * Longest transition the two items can take with the given alignment
+   */
+  getMaxDuration(from: MediaItem, to: MediaItem, alignment: TransitionAlignment): number {
+    // Before the cut: the outgoing item's visible part and the incoming item's head handle
+    const roomBefore = Math.min(from.duration, this.getHeadHandle(to));
+    // After the cut: the incoming item's visible part and the outgoing item's tail handle
+    const roomAfter = Math.min(to.duration, this.getTailHandle(from));
+
+    switch (alignment) {
+      case 'center': return 2 * Math.min(roomBefore, roomAfter);
+      case 'start': return roomAfter;
+      case 'end': return roomBefore;
+    }
+  }
+
+  /**
+   * The outgoing and incoming items of a transition, or null when they no longer touch
+   */
+  findItems(track: Track, transition: Transition): { from: MediaItem; to: MediaItem } | null {
+    const from = track.items.find(i => i.id === transition.fromItemId);
+    if (!from || this.editService.findAdjacentItems(track, from).next?.id !== transition.toItemId) return null;
+    return { from, to: track.items.find(i => i.id === transition.toItemId)! };
+  }
+
+  /**
+   * Cuts between touching items that do not have a transition yet
+   */
+  getOpenCuts(track: Track): { from: MediaItem; to: MediaItem; time: number }[] {
+    const cuts: { from: MediaItem; to: MediaItem; time: number }[] = [];
+    for (const from of track.items) {
+      const to = this.editService.findAdjacentItems(track, from).next;
+      if (to && !track.transitions?.some(t => t.fromItemId === from.id)) {
+        cuts.push({ from, to, time: from.startTime + from.duration });
+      }
+    }
+    return cuts.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Add a centred transition of the default duration, or shorter if the handles do not allow it
+   * Tracks are returned unchanged when the items do not touch or have no handles to spare
+   */
+  addTransition(tracks: Track[], trackId: string, fromItemId: string, toItemId: string, id: string): Track[] {
+    return tracks.map(track => {
+      if (track.id !== trackId || track.transitions?.some(t => t.fromItemId === fromItemId)) return track;
+
+      const transition: Transition = {
+        id,
+        type: 'dissolve',
+        fromItemId,
+        toItemId,
+        duration: this.DEFAULT_DURATION,
+        alignment: 'center'
+      };
+      const items = this.findItems(track, transition);
+      if (!items) return track;
+
+      transition.type = items.from.type === MediaType.AUDIO && items.to.type === MediaType.AUDIO ? 'crossfade' : 'dissolve';
+      transition.duration = Math.min(this.DEFAULT_DURATION, this.getMaxDuration(items.from, items.to, 'center'));
+      if (transition.duration < this.MIN_DURATION) return track;
+
+      return { ...track, transitions: [...(track.transitions ?? []), transition] };
+    });
+  }
+
+  /**
+   * Change the duration or alignment of a transition, keeping the duration within what the handles allow
+   */
+  updateTransition(
+    tracks: Track[],
+    transitionId: string,
+    changes: Partial<Pick<Transition, 'duration' | 'alignment'>>
+  ): Track[] {
+    return tracks.map(track => {
+      const transition = track.transitions?.find(t => t.id === transitionId);
+      const items = transition ? this.findItems(track, transition) : null;
+      if (!transition || !items) return track;
+
+      const alignment = changes.alignment ?? transition.alignment;
+      const maxDuration = this.getMaxDuration(items.from, items.to, alignment);
+      const duration = Math.max(this.MIN_DURATION, Math.min(changes.duration ?? transition.duration, maxDuration));
+      // An alignment without room for the shortest transition is not applied
+      if (duration > maxDuration) return track;
+
+      return {
+        ...track,
+        transitions: track.transitions!.map(t => t.id === transitionId ? { ...t, duration, alignment } : t)
+      };
+    });
+  }
+
+  removeTransition(tracks: Track[], transitionId: string): Track[] {
+    return tracks.map(track => track.transitions?.some(t => t.id === transitionId)
+      ? this.withTransitions(track, track.transitions.filter(t => t.id !== transitionId))
+      : track
+    );
+  }
+
+  /**
+   * Bring the transitions of a track in line with its items after an edit
+   * A transition follows its cut when one side was split or replaced, is shortened when the handles
+   * shrank, and is removed when its items no longer touch. Unchanged tracks are returned as they are.
+   */
+  normalizeTrack(track: Track): Track {
+    if (!track.transitions) return track;
+
+    let changed = false;
+    const transitions: Transition[] = [];
+    for (const transition of track.transitions) {
+      const normalized = this.normalizeTransition(track, transition);
+      if (normalized !== transition) {
+        changed = true;
+      }
+      // One transition per cut
+      if (normalized && !transitions.some(t => t.fromItemId === normalized.fromItemId)) {
+        transitions.push(normalized);
+      } else {
+        changed = true;
+      }
+    }
+    return changed ? this.withTransitions(track, transitions) : track;
+  }
+
+  normalizeTracks(tracks: Track[]): Track[] {
+    const normalized = tracks.map(track => this.normalizeTrack(track));
+    return normalized.every((track, i) => track === tracks[i]) ? tracks : normalized;
+  }
+
+  /**
+   * Items of a track that are heard or seen at a time, each with its share of the mix
+   * Outside transitions this is the item under the time with a weight of 1; inside a transition
+   * the outgoing item fades from 1 to 0 while the incoming item fades from 0 to 1
+   */
+  getLayersAt(track: Track, time: number): { item: MediaItem; weight: number }[] {
+    for (const transition of track.transitions ?? []) {
+      const items = this.findItems(track, transition);
+      if (!items) continue;
+
+      const range = this.getRange(transition, items.from);
+      if (time >= range.start && time < range.end) {
+        const progress = (time - range.start) / transition.duration;
+        return [
+          { item: items.from, weight: 1 - progress },
+          { item: items.to, weight: progress }
+        ];
+      }
+    }
+
+    const item = track.items.find(i => time >= i.startTime && time < i.startTime + i.duration);
+    return item ? [{ item, weight: 1 }] : [];
+  }
+
+  private normalizeTransition(track: Track, transition: Transition): Transition | null {
+    let current = transition;
+    if (!this.findItems(track, current)) {
+      // Follow the cut from whichever side still exists, e.g. after one of the items was split
+      const from = track.items.find(i => i.id === transition.fromItemId);
+      const to = track.items.find(i => i.id === transition.toItemId);
+      const newFrom = to ? this.editService.findAdjacentItems(track, to).previous : undefined;
+      const newTo = from ? this.editService.findAdjacentItems(track, from).next : undefined;
+      if (newFrom) {
+        current = { ...transition, fromItemId: newFrom.id };
+      } else if (newTo) {
+        current = { ...transition, toItemId: newTo.id };
+      } else {
+        return null;
+      }
+    }
+
+    const items = this.findItems(track, current)!;
+    const maxDuration = this.getMaxDuration(items.from, items.to, current.alignment);
+    if (maxDuration < this.MIN_DURATION) return null;
+    return current.duration > maxDuration ? { ...current, duration: maxDuration } : current;
+  }
+
+  private withTransitions(track: Track, transitions: Transition[]): Track {
+    if (transitions.length > 0) return { ...track, transitions };
+    const { transitions: _removed, ...rest } = track;
+    return rest;
+  }
+
+  /**
+   * Source media available before an item's in point; images can be extended freely
+   */
+  private getHeadHandle(item: MediaItem): number {
+    if (item.type === MediaType.IMAGE) return Infinity;
+    return item.mediaStartTime || 0;
+  }
+
+  /**
+   * Source media available after an item's out point; without a known source length it is unlimited
+   */
+  private getTailHandle(item: MediaItem): number {
+    if (!item.maxDuration) return Infinity;
+    const mediaStart = item.type === MediaType.IMAGE ? 0 : item.mediaStartTime || 0;
+    return Math.max(0, item.maxDuration - mediaStart - item.duration);
+  }
+}
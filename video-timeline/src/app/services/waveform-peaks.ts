@@ -0,0 +1,57 @@
+import { WaveformPeakLevel } from '../models/waveform.models';
+
+const BASE_SAMPLES_PER_PEAK = 32;
+const LEVEL_FACTOR = 4; // Each level combines this many peaks of the level below
+const LEVEL_COUNT = 5;
+
+/**
+ * Compute the peak levels of decoded audio, mixing all channels into one waveform
+ * Shared by the peak worker and the main thread fallback, so it must not use any DOM API
+ */
+export function buildPeakLevels(channels: Float32Array[]): WaveformPeakLevel[] {
+  const sampleCount = Math.max(0, ...channels.map(channel => channel.length));
+  const peakCount = Math.ceil(sampleCount / BASE_SAMPLES_PER_PEAK);
+  const finest = new Float32Array(peakCount * 2);
+
+  for (let peak = 0; peak < peakCount; peak++) {
+    const start = peak * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(start + BASE_SAMPLES_PER_PEAK, sampleCount);
+    let min = 0;
+    let max = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end && i < channel.length; i++) {
+        if (channel[i] < min) min = channel[i];
+        if (channel[i] > max) max = channel[i];
+      }
+    }
+    finest[peak * 2] = min;
+    finest[peak * 2 + 1] = max;
+  }
+
+  const levels: WaveformPeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, peaks: finest }];
+  while (levels.length < LEVEL_COUNT) {
+    const previous = levels[levels.length - 1];
+    levels.push({
+      samplesPerPeak: previous.samplesPerPeak * LEVEL_FACTOR,
+      peaks: combinePeaks(previous.peaks, LEVEL_FACTOR)
+    });
+  }
+  return levels;
+}
+
+function combinePeaks(peaks: Float32Array, factor: number): Float32Array {
+  const count = Math.ceil(peaks.length / 2 / factor);
+  const combined = new Float32Array(count * 2);
+
+  for (let peak = 0; peak < count; peak++) {
+    let min = 0;
+    let max = 0;
+    for (let i = peak * factor; i < (peak + 1) * factor && i * 2 < peaks.length; i++) {
+      min = Math.min(min, peaks[i * 2]);
+      max = Math.max(max, peaks[i * 2 + 1]);
+    }
+    combined[peak * 2] = min;
+    combined[peak * 2 + 1] = max;
+  }
+  return combined;
+}
@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+import { provideZonelessChangeDetection } from '@angular/core';
+import { WaveformService } from './waveform.service';
+import { buildPeakLevels } from './waveform-peaks';
+import { WaveformData } from '../models/waveform.models';
+
+describe('WaveformService', () => {
+  let service: WaveformService;
+
+  // One second silent for the first half and a full-scale square wave for the second half,
+  // at a rate that puts the column edges below on peak boundaries
+  const createData = (): WaveformData => {
+    const samples = new Float32Array(8192);
+    for (let i = 4096; i < samples.length; i++) {
+      samples[i] = i % 2 === 0 ? 1 : -1;
+    }
+    return { sampleRate: 8192, levels: buildPeakLevels([samples]) };
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(WaveformService);
+  });
+
+  it('should build coarser levels from the finest peaks', () => {
+    const levels = buildPeakLevels([new Float32Array([0.5, -0.25]), new Float32Array([-0.75])]);
+
+    expect(levels.map(level => level.samplesPerPeak)).toEqual([32, 128, 512, 2048, 8192]);
+    expect(Array.from(levels[0].peaks)).toEqual([-0.75, 0.5]);
+    expect(Array.from(levels[4].peaks)).toEqual([-0.75, 0.5]);
+  });
+
+  it('should return the peaks of the part of the source an item shows', () => {
+    const columns = service.getColumns(createData(), 250, 500, 4);
+
+    expect(Array.from(columns)).toEqual([0, 0, 0, 0, -1, 1, -1, 1]);
+  });
+
+  it('should leave columns past the end of the source silent', () => {
+    const columns = service.getColumns(createData(), 750, 500, 2);
+
+    expect(Array.from(columns)).toEqual([-1, 1, 0, 0]);
+  });
+
+  it('should not request waveforms for unknown sources', () => {
+    service.load('missing');
+
+    expect(service.getWaveform('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable, signal } from '@angular/core';
+import { MediaType } from '../models/timeline.models';
+import { MediaAsset } from '../models/media-asset.models';
+import { WaveformData, WaveformWorkerRequest, WaveformWorkerResponse } from '../models/waveform.models';
+import { MediaAssetService } from './media-asset.service';
+import { buildPeakLevels } from './waveform-peaks';
+
+/**
+ * Service responsible for the waveforms of imported audio and video sources
+ * Audio is decoded with Web Audio, its peaks are computed in a worker and cached per source
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WaveformService {
+  private readonly DECODE_SAMPLE_RATE = 8000; // Hz - plenty for drawing peaks and keeps long sources small in memory
+
+  readonly waveforms = signal<Record<string, WaveformData>>({});
+  private readonly requestedSourceIds = new Set<string>(); // Decoding, decoded, or without decodable audio
+  private worker: Worker | null = null;
+
+  constructor(private mediaAssetService: MediaAssetService) {}
+
+  getWaveform(sourceId: string): WaveformData | undefined {
+    return this.waveforms()[sourceId];
+  }
+
+  /**
+   * Start computing the waveform of a source unless it was requested before
+   * Sources without a decodable audio track, such as silent videos, are left without a waveform
+   */
+  load(sourceId: string): void {
+    if (this.requestedSourceIds.has(sourceId)) return;
+
+    const asset = this.mediaAssetService.getAsset(sourceId);
+    if (!asset || asset.type === MediaType.IMAGE) return;
+
+    this.requestedSourceIds.add(sourceId);
+    this.decode(asset)
+      .then(buffer => this.computePeaks(sourceId, buffer))
+      .catch(() => {
+        // No waveform is drawn for this source
+      });
+  }
+
+  /**
+   * Min/max pairs of a part of the source for the given number of columns, interleaved as in the peak levels
+   * Uses the coarsest level that still has at least one peak per column
+   */
+  getColumns(data: WaveformData, mediaStartTime: number, duration: number, columns: number): Float32Array {
+    const result = new Float32Array(columns * 2);
+    if (columns <= 0 || duration <= 0) return result;
+
+    const samplesPerColumn = duration / 1000 * data.sampleRate / columns;
+    const level = [...data.levels].reverse().find(l => l.samplesPerPeak <= samplesPerColumn) ?? data.levels[0];
+    const peakCount = level.peaks.length / 2;
+    const firstSample = mediaStartTime / 1000 * data.sampleRate;
+
+    for (let column = 0; column < columns; column++) {
+      const start = firstSample + column * samplesPerColumn;
+      const firstPeak = Math.floor(start / level.samplesPerPeak);
+      const endPeak = Math.min(peakCount, Math.max(firstPeak + 1, Math.ceil((start + samplesPerColumn) / level.samplesPerPeak)));
+
+      let min = 0;
+      let max = 0;
+      for (let peak = Math.max(0, firstPeak); peak < endPeak; peak++) {
+        min = Math.min(min, level.peaks[peak * 2]);
+        max = Math.max(max, level.peaks[peak * 2 + 1]);
+      }
+      result[column * 2] = min;
+      result[column * 2 + 1] = max;
+    }
+    return result;
+  }
+
+  private async decode(asset: MediaAsset): Promise<AudioBuffer> {
+    const response = await fetch(asset.url);
+    const data = await response.arrayBuffer();
+    // An offline context decodes at its own sample rate, so the source is resampled while decoding
+    const context = new OfflineAudioContext(1, 1, this.DECODE_SAMPLE_RATE);
+    return context.decodeAudioData(data);
+  }
+
+  private computePeaks(sourceId: string, buffer: AudioBuffer): void {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+    const worker = this.getWorker();
+
+    if (!worker) {
+      // Without worker support the peaks are computed here, once per source
+      this.store(sourceId, { sampleRate: buffer.sampleRate, levels: buildPeakLevels(channels) });
+      return;
+    }
+
+    const request: WaveformWorkerRequest = { sourceId, sampleRate: buffer.sampleRate, channels };
+    worker.postMessage(request, channels.map(channel => channel.buffer));
+  }
+
+  private getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./waveform.worker', import.meta.url), { type: 'module' });
+      this.worker.onmessage = ({ data }: MessageEvent<WaveformWorkerResponse>) => {
+        this.store(data.sourceId, { sampleRate: data.sampleRate, levels: data.levels });
+      };
+    }
+    return this.worker;
+  }
+
+  private store(sourceId: string, data: WaveformData): void {
+    this.waveforms.update(waveforms => ({ ...waveforms, [sourceId]: data }));
+  }
+}
@@ -0,0 +1,11 @@
+/// <reference lib="webworker" />
+
+import { WaveformWorkerRequest, WaveformWorkerResponse } from '../models/waveform.models';
+import { buildPeakLevels } from './waveform-peaks';
+
+// Computes waveform peaks off the main thread so decoding long sources does not stall the timeline
+addEventListener('message', ({ data }: MessageEvent<WaveformWorkerRequest>) => {
+  const levels = buildPeakLevels(data.channels);
+  const response: WaveformWorkerResponse = { sourceId: data.sourceId, sampleRate: data.sampleRate, levels };
+  postMessage(response, { transfer: levels.map(level => level.peaks.buffer) });
+});